@@ -1,6 +1,13 @@
 import { readFile, writeFile } from 'node:fs/promises'
-import path from 'node:path'
 import { defaultAPISettings, defaultAppData } from './defaultData.js'
+import { parseGenerationParams } from '../shared/generationParams.js'
+import { parseCodeSearchBudget } from '../shared/codeSearchBudget.js'
+import { STRUCTURED_OUTPUT_ATTEMPTS } from '../shared/structuredOutput.js'
+import { MASKED_SECRET, isMaskedSecret, type SecretScope } from '../shared/secrets.js'
+import { getSecret, listSecretProviderIds, setSecrets, type SecretStoreScope } from './secrets.js'
+import { PROVIDER_MAX_ATTEMPTS, PROVIDER_TIMEOUT_SEC } from '../shared/retryPolicy.js'
+import { RESPONSE_CACHE_TTL_HOURS } from '../shared/responseCache.js'
+import { normalizeIgnorePatterns } from './ignoreRules.js'
 import type {
   APISettings,
   AppData as AppDataBase,
@@ -15,12 +22,22 @@ import type {
   ManualImportData,
   ManualImportItem,
   LLMModel,
+  LLMPricing,
+  LLMAuthScheme,
+  LLMHttpHeader,
   LLMProvider,
+  LLMProviderKind,
+  MockLLMRule,
+  LLMUsage,
+  PromptBudget,
   CodeSearchProvider,
+  CodeSearchProviderKind,
   NodeStatus,
+  ResponseCacheSettings,
   Tab as TabBase,
   Viewport,
 } from '../shared/appDataTypes.js'
+import { config, getEnvProviderKey } from './config.js'
 
 type Position = { x: number; y: number }
 
@@ -129,6 +146,22 @@ function asRecord(value: unknown): Record<string, unknown> | null {
   return value && typeof value === 'object' ? (value as Record<string, unknown>) : null
 }
 
+function normalizeJsonMaxAttempts(value: unknown): number | undefined {
+  const n = normalizeOptionalNumber(value)
+  if (n === undefined || !Number.isInteger(n)) return undefined
+  if (n < STRUCTURED_OUTPUT_ATTEMPTS.min || n > STRUCTURED_OUTPUT_ATTEMPTS.max) return undefined
+  return n
+}
+
+function normalizeLLMUsage(value: unknown): LLMUsage | null {
+  const obj = asRecord(value)
+  if (!obj) return null
+  const promptTokens = normalizeOptionalNumber(obj.promptTokens)
+  const completionTokens = normalizeOptionalNumber(obj.completionTokens)
+  if (promptTokens === undefined || completionTokens === undefined) return null
+  return { promptTokens, completionTokens, cost: normalizeOptionalNumber(obj.cost) ?? null }
+}
+
 function isNonNull<T>(value: T | null): value is T {
   return value !== null
 }
@@ -169,7 +202,7 @@ function normalizeStringArray(raw: unknown): string[] | undefined {
   return out.length ? out : undefined
 }
 
-function normalizeContextSources(raw: unknown): ContextSource[] | undefined {
+export function normalizeContextSources(raw: unknown): ContextSource[] | undefined {
   if (!Array.isArray(raw)) return undefined
   const out: ContextSource[] = []
   for (const item of raw) {
@@ -190,6 +223,37 @@ function normalizeContextSources(raw: unknown): ContextSource[] | undefined {
   return out.length ? out : undefined
 }
 
+function normalizePromptBudget(raw: unknown): PromptBudget | undefined {
+  const obj = asRecord(raw)
+  if (!obj) return undefined
+  const count = (value: unknown) => {
+    const n = normalizeOptionalNumber(value)
+    return n !== undefined && n >= 0 ? n : 0
+  }
+  const contextWindow = normalizeOptionalNumber(obj.contextWindow)
+  const droppedFiles = (Array.isArray(obj.droppedFiles) ? obj.droppedFiles : [])
+    .map((f: unknown) => {
+      const fObj = asRecord(f)
+      if (!fObj) return null
+      const filePath = normalizeString(fObj.path)
+      if (!filePath) return null
+      return { repoPath: normalizeString(fObj.repoPath), path: filePath, tokens: count(fObj.tokens) }
+    })
+    .filter(isNonNull)
+  return {
+    model: normalizeString(obj.model),
+    contextWindow: contextWindow && contextWindow > 0 ? contextWindow : null,
+    outputReserve: count(obj.outputReserve),
+    systemPromptTokens: count(obj.systemPromptTokens),
+    contextTokens: count(obj.contextTokens),
+    queryTokens: count(obj.queryTokens),
+    totalTokens: count(obj.totalTokens),
+    fits: normalizeBool(obj.fits, true),
+    droppedFiles,
+    checkedAt: normalizeString(obj.checkedAt),
+  }
+}
+
 function normalizeNode(raw: unknown): AppNode | null {
   const obj = asRecord(raw)
   if (!obj) return null
@@ -289,7 +353,12 @@ function normalizeNode(raw: unknown): AppNode | null {
         repoPath: normalizeString(data.repoPath),
         query: normalizeString(data.query),
         debugMessages: normalizeBool(data.debugMessages, false),
+        providerId: normalizeString(data.providerId) || undefined,
+        model: normalizeString(data.model) || undefined,
+        budget: parseCodeSearchBudget(data.budget).budget,
+        bypassCache: normalizeBool(data.bypassCache, false) || undefined,
         output: normalizedOutput,
+        cached: normalizeBool(data.cached, false) || undefined,
       },
     }
   }
@@ -313,7 +382,11 @@ function normalizeNode(raw: unknown): AppNode | null {
         ...base,
         model: normalizeString(data.model, 'x-ai/grok-4.1-fast'),
         query: normalizeString(data.query),
+        params: parseGenerationParams(data.params).params,
+        bypassCache: normalizeBool(data.bypassCache, false) || undefined,
         output: normalizedOutput,
+        usage: normalizeLLMUsage(data.usage),
+        cached: normalizeBool(data.cached, false) || undefined,
       },
     }
   }
@@ -363,6 +436,7 @@ function normalizeNode(raw: unknown): AppNode | null {
       data: {
         ...base,
         fullFile: normalizeBool(data.fullFile, false),
+        expandToSyntax: normalizeBool(data.expandToSyntax, false) || undefined,
         output: typeof data.output === 'string' ? data.output : null,
         mergedFiles,
         contextSources,
@@ -393,11 +467,93 @@ function normalizeNode(raw: unknown): AppNode | null {
       model: normalizeString(data.model, 'anthropic/claude-3.5-haiku'),
       systemPrompt: normalizeString(data.systemPrompt),
       query: normalizeString(data.query),
+      params: parseGenerationParams(data.params).params,
+      jsonSchema: normalizeString(data.jsonSchema) || undefined,
+      jsonMaxAttempts: normalizeJsonMaxAttempts(data.jsonMaxAttempts),
+      bypassCache: normalizeBool(data.bypassCache, false) || undefined,
+      budgetStrategy: data.budgetStrategy === 'drop-files' ? 'drop-files' : undefined,
+      budget: normalizePromptBudget(data.budget),
       output: typeof data.output === 'string' ? data.output : null,
+      structuredOutput: typeof data.output === 'string' ? data.structuredOutput : undefined,
+      usage: normalizeLLMUsage(data.usage),
+      cached: normalizeBool(data.cached, false) || undefined,
     },
   }
 }
 
+function normalizeLLMPricing(raw: unknown): LLMPricing | undefined {
+  const obj = asRecord(raw)
+  if (!obj) return undefined
+  const inputPerMTok = normalizeOptionalNumber(obj.inputPerMTok)
+  const outputPerMTok = normalizeOptionalNumber(obj.outputPerMTok)
+  if (inputPerMTok === undefined || outputPerMTok === undefined) return undefined
+  if (inputPerMTok < 0 || outputPerMTok < 0) return undefined
+  return { inputPerMTok, outputPerMTok }
+}
+
+function normalizeMaxAttempts(raw: unknown): number | undefined {
+  const n = normalizeOptionalNumber(raw)
+  if (n === undefined || !Number.isInteger(n)) return undefined
+  if (n < PROVIDER_MAX_ATTEMPTS.min || n > PROVIDER_MAX_ATTEMPTS.max) return undefined
+  return n
+}
+
+function normalizeTimeoutSec(raw: unknown): number | undefined {
+  const n = normalizeOptionalNumber(raw)
+  if (n === undefined || !Number.isInteger(n)) return undefined
+  if (n < PROVIDER_TIMEOUT_SEC.min || n > PROVIDER_TIMEOUT_SEC.max) return undefined
+  return n
+}
+
+function normalizeLLMProviderKind(raw: unknown): LLMProviderKind {
+  return raw === 'anthropic' || raw === 'mock' ? raw : 'openai'
+}
+
+function normalizeAuthScheme(raw: unknown): LLMAuthScheme | undefined {
+  return raw === 'bearer' || raw === 'api-key' || raw === 'x-api-key' || raw === 'none' ? raw : undefined
+}
+
+function normalizeCustomHeaders(raw: unknown): LLMHttpHeader[] | undefined {
+  if (!Array.isArray(raw)) return undefined
+  return raw
+    .map((h: unknown) => {
+      const hObj = asRecord(h)
+      if (!hObj) return null
+      return { name: normalizeString(hObj.name), value: normalizeString(hObj.value) }
+    })
+    .filter(isNonNull)
+}
+
+/**
+ * Auth scheme, custom headers, URL template and API version of a provider; also validates unsaved edits sent by the settings modal.
+ */
+export function normalizeLLMTransport(
+  value: unknown,
+): Pick<LLMProvider, 'authScheme' | 'customHeaders' | 'urlTemplate' | 'apiVersion'> {
+  const raw = asRecord(value) ?? {}
+  return {
+    authScheme: normalizeAuthScheme(raw.authScheme),
+    customHeaders: normalizeCustomHeaders(raw.customHeaders),
+    urlTemplate: normalizeString(raw.urlTemplate).trim() || undefined,
+    apiVersion: normalizeString(raw.apiVersion).trim() || undefined,
+  }
+}
+
+function normalizeMockRules(raw: unknown): MockLLMRule[] | undefined {
+  if (!Array.isArray(raw)) return undefined
+  return raw
+    .map((r: unknown) => {
+      const rObj = asRecord(r)
+      if (!rObj) return null
+      return { pattern: normalizeString(rObj.pattern), responseFile: normalizeString(rObj.responseFile) }
+    })
+    .filter(isNonNull)
+}
+
+function normalizeCodeSearchProviderKind(value: unknown): CodeSearchProviderKind {
+  return value === 'warpgrep' || value === 'llm' || value === 'local' || value === 'mock' ? value : 'relace'
+}
+
 function normalizeAPISettings(raw: unknown): APISettings {
   const defaults = defaultAPISettings()
   const obj = asRecord(raw)
@@ -420,14 +576,22 @@ function normalizeAPISettings(raw: unknown): APISettings {
         return {
           id,
           name: normalizeString(pObj.name, id),
+          kind: normalizeCodeSearchProviderKind(pObj.kind),
           apiKey: normalizeString(pObj.apiKey),
+          endpoint: normalizeString(pObj.endpoint).trim() || undefined,
+          model: normalizeString(pObj.model).trim() || undefined,
+          allowBash: pObj.allowBash === false ? false : undefined,
+          maxAttempts: normalizeMaxAttempts(pObj.maxAttempts),
         }
       })
       .filter(isNonNull)
-    
+
+    // @@@builtin-search-providers - the settings UI cannot add search providers, so built-ins missing from older data are appended
+    const builtins = defaults.codeSearch.providers.filter(d => !providers.some(p => p.id === d.id))
     return {
       activeProvider,
-      providers: providers.length > 0 ? providers : defaults.codeSearch.providers,
+      providers: [...providers, ...builtins],
+      ignorePatterns: normalizeIgnorePatterns(codeSearchRaw.ignorePatterns),
     }
   })()
 
@@ -448,9 +612,13 @@ function normalizeAPISettings(raw: unknown): APISettings {
             if (!mObj) return null
             const mId = normalizeString(mObj.id)
             if (!mId) return null
+            const pricing = normalizeLLMPricing(mObj.pricing)
+            const contextWindow = normalizeOptionalNumber(mObj.contextWindow)
             return {
               id: mId,
               name: normalizeString(mObj.name, mId),
+              ...(pricing ? { pricing } : {}),
+              ...(contextWindow && Number.isInteger(contextWindow) && contextWindow > 0 ? { contextWindow } : {}),
             }
           })
           .filter(isNonNull)
@@ -458,9 +626,16 @@ function normalizeAPISettings(raw: unknown): APISettings {
         return {
           id,
           name: normalizeString(pObj.name, id),
+          kind: normalizeLLMProviderKind(pObj.kind),
           endpoint: normalizeString(pObj.endpoint),
           apiKey: normalizeString(pObj.apiKey),
+          maxAttempts: normalizeMaxAttempts(pObj.maxAttempts),
+          timeoutSec: normalizeTimeoutSec(pObj.timeoutSec),
           models,
+          availableModelIds: normalizeStringArray(pObj.availableModelIds),
+          modelsCheckedAt: normalizeString(pObj.modelsCheckedAt) || undefined,
+          mockRules: normalizeMockRules(pObj.mockRules),
+          ...normalizeLLMTransport(pObj),
         }
       })
       .filter(isNonNull)
@@ -470,7 +645,25 @@ function normalizeAPISettings(raw: unknown): APISettings {
     }
   })()
 
-  return { codeSearch, llm }
+  return { codeSearch, llm, cache: normalizeResponseCacheSettings(obj.cache) }
+}
+
+function normalizeResponseCacheSettings(raw: unknown): ResponseCacheSettings {
+  const ttlHours = normalizeOptionalNumber(asRecord(raw)?.ttlHours)
+  if (ttlHours === undefined || ttlHours < RESPONSE_CACHE_TTL_HOURS.min || ttlHours > RESPONSE_CACHE_TTL_HOURS.max) {
+    return { ttlHours: RESPONSE_CACHE_TTL_HOURS.default }
+  }
+  return { ttlHours }
+}
+
+export async function getResponseCacheTtlMs(): Promise<number> {
+  const appData = await loadAppData()
+  return appData.apiSettings.cache.ttlHours * 60 * 60 * 1000
+}
+
+export async function getRepoIgnorePatterns(): Promise<string[]> {
+  const appData = await loadAppData()
+  return appData.apiSettings.codeSearch.ignorePatterns
 }
 
 function normalizeUISettings(raw: unknown): AppData['ui'] {
@@ -542,7 +735,7 @@ function normalizeAppData(raw: unknown): AppData {
   }
 }
 
-const dataPath = path.join(process.cwd(), 'data.json')
+const dataPath = config.paths.dataFile
 
 export async function loadAppData(): Promise<AppData> {
   let raw: string
@@ -554,15 +747,141 @@ export async function loadAppData(): Promise<AppData> {
     throw err
   }
 
+  let data: AppData
   try {
-    return normalizeAppData(JSON.parse(raw))
+    data = normalizeAppData(JSON.parse(raw))
   } catch (err: unknown) {
     console.error(err)
     return defaultAppData()
   }
+  return migratePlaintextSecrets(data)
+}
+
+function mapApiKeys(data: AppData, apiKeyFor: (scope: SecretScope, providerId: string) => string): AppData {
+  const { codeSearch, llm } = data.apiSettings
+  return {
+    ...data,
+    apiSettings: {
+      ...data.apiSettings,
+      codeSearch: { ...codeSearch, providers: codeSearch.providers.map(p => ({ ...p, apiKey: apiKeyFor('code-search', p.id) })) },
+      llm: { ...llm, providers: llm.providers.map(p => ({ ...p, apiKey: apiKeyFor('llm', p.id) })) },
+    },
+  }
+}
+
+function listProviderRefs(data: AppData): { scope: SecretScope; providerId: string; apiKey: string }[] {
+  return [
+    ...data.apiSettings.llm.providers.map(p => ({ scope: 'llm' as const, providerId: p.id, apiKey: p.apiKey })),
+    ...data.apiSettings.codeSearch.providers.map(p => ({ scope: 'code-search' as const, providerId: p.id, apiKey: p.apiKey })),
+  ]
+}
+
+// @@@header-secrets - custom header values often carry gateway credentials, so they live in the secret store too;
+// data.json keeps only the header names
+function headerSecretId(providerId: string, headerName: string) {
+  return `${providerId}:${headerName.trim().toLowerCase()}`
+}
+
+function mapHeaderValues(data: AppData, valueFor: (providerId: string, header: LLMHttpHeader) => string): AppData {
+  const { llm } = data.apiSettings
+  return {
+    ...data,
+    apiSettings: {
+      ...data.apiSettings,
+      llm: {
+        ...llm,
+        providers: llm.providers.map(p =>
+          p.customHeaders ? { ...p, customHeaders: p.customHeaders.map(h => ({ ...h, value: valueFor(p.id, h) })) } : p,
+        ),
+      },
+    },
+  }
+}
+
+function listHeaderRefs(data: AppData): { id: string; value: string }[] {
+  return data.apiSettings.llm.providers.flatMap(p =>
+    (p.customHeaders ?? []).filter(h => h.name.trim()).map(h => ({ id: headerSecretId(p.id, h.name), value: h.value })),
+  )
+}
+
+// @@@secret-migration - plaintext keys and header values from older data.json files move into the encrypted store and are blanked here
+async function migratePlaintextSecrets(data: AppData): Promise<AppData> {
+  const plaintext = listProviderRefs(data)
+    .map(({ scope, providerId, apiKey }) => ({ scope: scope as SecretStoreScope, providerId, value: apiKey.trim() }))
+    .filter(u => u.value && !isMaskedSecret(u.value))
+  const plaintextHeaders = listHeaderRefs(data)
+    .filter(h => h.value && !isMaskedSecret(h.value))
+    .map(h => ({ scope: 'llm-header' as const, providerId: h.id, value: h.value }))
+  if (plaintext.length === 0 && plaintextHeaders.length === 0) return data
+  await setSecrets([...plaintext, ...plaintextHeaders])
+  const stripped = mapHeaderValues(mapApiKeys(data, () => ''), () => '')
+  await writeAppDataFile(stripped)
+  console.log(
+    `Moved ${plaintext.length} API key(s) and ${plaintextHeaders.length} header value(s) from data.json into the encrypted secret store`,
+  )
+  return stripped
+}
+
+/**
+ * App data as the browser may see it: stored keys and header values are replaced by `MASKED_SECRET`, missing ones by ''.
+ */
+export async function loadAppDataForClient(): Promise<AppData> {
+  const data = await loadAppData()
+  const [llmIds, codeSearchIds, headerIds] = await Promise.all([
+    listSecretProviderIds('llm'),
+    listSecretProviderIds('code-search'),
+    listSecretProviderIds('llm-header'),
+  ])
+  const masked = mapApiKeys(data, (scope, providerId) =>
+    (scope === 'llm' ? llmIds : codeSearchIds).has(providerId) || getEnvProviderKey(scope, providerId)
+      ? MASKED_SECRET
+      : '')
+  return mapHeaderValues(masked, (providerId, header) =>
+    headerIds.has(headerSecretId(providerId, header.name)) ? MASKED_SECRET : '')
+}
+
+// Custom headers with their stored values; never send the result to the browser
+async function resolveProviderHeaders(provider: LLMProvider): Promise<LLMHttpHeader[] | undefined> {
+  if (!provider.customHeaders) return undefined
+  return Promise.all(
+    provider.customHeaders.map(async h => ({
+      ...h,
+      value: h.name.trim() ? ((await getSecret('llm-header', headerSecretId(provider.id, h.name))) ?? '') : '',
+    })),
+  )
+}
+
+// SPEXFLOW_*_KEY_* env vars win over keys saved through the settings
+async function resolveProviderKey(scope: SecretScope, providerId: string): Promise<string | null> {
+  return getEnvProviderKey(scope, providerId) ?? (await getSecret(scope, providerId))
 }
 
+/**
+ * Persists everything except API keys, which only change through `setSecrets`; keys of providers removed
+ * by this save are dropped from the secret store. Header values go to the secret store: a masked value keeps
+ * the stored one, anything else replaces it, and values of removed headers are dropped.
+ */
 export async function saveAppData(data: AppData): Promise<void> {
+  const previous = await loadAppData()
+  const previousHeaderIds = await listSecretProviderIds('llm-header')
+  await writeAppDataFile(mapHeaderValues(mapApiKeys(data, () => ''), () => ''))
+
+  const kept = new Set(listProviderRefs(data).map(p => `${p.scope}:${p.providerId}`))
+  const removed = listProviderRefs(previous).filter(p => !kept.has(`${p.scope}:${p.providerId}`))
+  const headers = listHeaderRefs(data)
+  const keptHeaderIds = new Set(headers.map(h => h.id))
+  await setSecrets([
+    ...removed.map(({ scope, providerId }) => ({ scope: scope as SecretStoreScope, providerId, value: '' })),
+    ...headers
+      .filter(h => !isMaskedSecret(h.value))
+      .map(h => ({ scope: 'llm-header' as const, providerId: h.id, value: h.value.trim() })),
+    ...[...previousHeaderIds]
+      .filter(id => !keptHeaderIds.has(id))
+      .map(id => ({ scope: 'llm-header' as const, providerId: id, value: '' })),
+  ])
+}
+
+async function writeAppDataFile(data: AppData): Promise<void> {
   const toPersist: AppData = {
     ...data,
     tabs: data.tabs.map((tab) => {
@@ -581,27 +900,91 @@ export async function saveAppData(data: AppData): Promise<void> {
   await writeFile(dataPath, raw, 'utf-8')
 }
 
-export async function getCodeSearchApiKey(): Promise<string | null> {
+// `providerId` is a Code Search node's override; without it the active provider from API settings is used
+export async function getCodeSearchProviderConfig(providerId?: string): Promise<{
+  providerId: string
+  kind: CodeSearchProviderKind
+  apiKey: string | null
+  endpoint?: string
+  model?: string
+  allowBash?: boolean
+  ignorePatterns: string[]
+  maxAttempts?: number
+}> {
   const appData = await loadAppData()
-  const activeProviderId = appData.apiSettings.codeSearch.activeProvider
-  const provider = appData.apiSettings.codeSearch.providers.find(p => p.id === activeProviderId)
-  const apiKey = provider?.apiKey?.trim()
-  return apiKey || null
+  const selectedId = providerId || appData.apiSettings.codeSearch.activeProvider
+  const provider = appData.apiSettings.codeSearch.providers.find(p => p.id === selectedId)
+  if (providerId && !provider) throw new Error(`Unknown code search provider: ${providerId}`)
+  const apiKey = provider ? (await resolveProviderKey('code-search', provider.id))?.trim() : null
+  return {
+    providerId: selectedId,
+    kind: provider?.kind ?? 'relace',
+    apiKey: apiKey || null,
+    endpoint: provider?.endpoint,
+    model: provider?.model,
+    allowBash: provider?.allowBash,
+    ignorePatterns: appData.apiSettings.codeSearch.ignorePatterns,
+    maxAttempts: provider?.maxAttempts,
+  }
 }
 
 export type LLMProviderConfig = {
+  kind: LLMProviderKind
   endpoint: string
   apiKey: string
+  authScheme?: LLMAuthScheme
+  customHeaders?: LLMHttpHeader[]
+  urlTemplate?: string
+  apiVersion?: string
+  pricing?: LLMPricing
+  maxAttempts?: number
+  timeoutSec?: number
+  mockRules?: MockLLMRule[]
 } | null
 
+export async function getLLMModelById(modelId: string): Promise<LLMModel | null> {
+  const appData = await loadAppData()
+  for (const provider of appData.apiSettings.llm.providers) {
+    const model = provider.models.find(m => m.id === modelId)
+    if (model) return model
+  }
+  return null
+}
+
+// `apiKey` and header values are decrypted from the secret store; never send the result to the browser
+export async function getLLMProviderById(providerId: string): Promise<LLMProvider | null> {
+  const appData = await loadAppData()
+  const provider = appData.apiSettings.llm.providers.find(p => p.id === providerId)
+  if (!provider) return null
+  return {
+    ...provider,
+    apiKey: (await resolveProviderKey('llm', provider.id)) ?? '',
+    customHeaders: await resolveProviderHeaders(provider),
+  }
+}
+
 export async function getLLMProviderByModel(modelId: string): Promise<LLMProviderConfig> {
   const appData = await loadAppData()
   for (const provider of appData.apiSettings.llm.providers) {
     const model = provider.models.find(m => m.id === modelId)
-    if (model && provider.apiKey?.trim() && provider.endpoint?.trim()) {
+    if (!model) continue
+    if (provider.kind === 'mock') {
+      return { kind: 'mock', endpoint: '', apiKey: '', pricing: model.pricing, mockRules: provider.mockRules }
+    }
+    const apiKey = (await resolveProviderKey('llm', provider.id))?.trim() ?? ''
+    // Gateways with the `none` scheme authenticate through custom headers, so they need no key
+    if ((apiKey || provider.authScheme === 'none') && provider.endpoint?.trim()) {
       return {
+        kind: provider.kind,
         endpoint: provider.endpoint.trim(),
-        apiKey: provider.apiKey.trim(),
+        apiKey,
+        authScheme: provider.authScheme,
+        customHeaders: await resolveProviderHeaders(provider),
+        urlTemplate: provider.urlTemplate,
+        apiVersion: provider.apiVersion,
+        pricing: model.pricing,
+        maxAttempts: provider.maxAttempts,
+        timeoutSec: provider.timeoutSec,
       }
     }
   }
@@ -0,0 +1,304 @@
+import path from 'node:path'
+import { execFile } from 'node:child_process'
+import { promisify } from 'node:util'
+
+const execFileAsync = promisify(execFile)
+
+const BASH_TIMEOUT_MS = 5000
+const BASH_MAX_BUFFER = 1024 * 1024
+// The model sees the repo as `/repo`; the command runs with the repo as its working directory
+const MODEL_REPO_ROOT = '/repo'
+
+export type BashPolicyResult = { ok: true } | { ok: false; reason: string }
+
+type Token = { kind: 'word'; value: string } | { kind: 'op'; value: string }
+
+// Returns a rejection reason, or null when the arguments are fine
+type ArgsCheck = (args: string[]) => string | null
+
+// Short options may be clustered or carry an attached value (`-o<file>`, `-nO`): any occurrence of the letter counts
+function isShortCluster(arg: string) {
+  return arg.length > 1 && arg.startsWith('-') && !arg.startsWith('--')
+}
+
+// @@@flag-abbreviations - getopt_long and git accept unambiguous prefixes (`--outp=x` is `--output=x`), so any
+// `--name` that is a prefix of a banned long option is banned too
+function matchesFlag(arg: string, flag: string) {
+  if (flag.startsWith('--')) {
+    if (!arg.startsWith('--') || arg.length <= 2) return false
+    const name = arg.includes('=') ? arg.slice(0, arg.indexOf('=')) : arg
+    return flag.startsWith(name)
+  }
+  // `-x`: a short option; longer single-dash flags (find's `-exec`) are whole words
+  if (flag.length === 2) return isShortCluster(arg) && arg.includes(flag[1])
+  return arg === flag
+}
+
+const rejectFlags =
+  (flags: string[]): ArgsCheck =>
+  (args) => {
+    const end = args.indexOf('--')
+    const options = end === -1 ? args : args.slice(0, end)
+    const bad = options.find((a) => flags.some((f) => matchesFlag(a, f)))
+    return bad ? `${bad} can write files or run other programs` : null
+  }
+
+const GIT_READ_ONLY_SUBCOMMANDS = new Set(['log', 'show', 'diff', 'status', 'grep', 'ls-files', 'ls-tree', 'blame', 'rev-parse', 'cat-file'])
+
+// @@@bash-allowlist - read-only commands only; per-command checks reject the flags that write files or spawn programs
+const ALLOWED_COMMANDS: Record<string, ArgsCheck | null> = {
+  ls: null,
+  cat: null,
+  head: null,
+  tail: null,
+  wc: null,
+  nl: null,
+  cut: null,
+  tr: null,
+  grep: null,
+  egrep: null,
+  fgrep: null,
+  rg: rejectFlags(['--pre', '--pre-glob']),
+  find: rejectFlags(['-exec', '-execdir', '-ok', '-okdir', '-delete', '-fprint', '-fprint0', '-fprintf', '-fls']),
+  // -R with -H writes an HTML index into every directory
+  tree: rejectFlags(['-o', '-R']),
+  file: rejectFlags(['-C', '--compile']),
+  stat: null,
+  du: null,
+  sort: rejectFlags(['-o', '--output', '--compress-program', '-T', '--temporary-directory']),
+  uniq: (args) => (args.filter((a) => !a.startsWith('-')).length > 1 ? 'uniq with an output file writes it' : null),
+  diff: null,
+  cmp: null,
+  basename: null,
+  dirname: null,
+  realpath: null,
+  pwd: null,
+  echo: null,
+  git: (args) => {
+    const sub = args[0]
+    if (!sub || sub.startsWith('-')) return 'git options before the subcommand are not allowed'
+    if (!GIT_READ_ONLY_SUBCOMMANDS.has(sub)) return `git ${sub} is not a read-only git command`
+    return rejectFlags(['--output', '--ext-diff', '--textconv', '--open-files-in-pager', '-O'])(args.slice(1))
+  },
+}
+
+function isRedirectTarget(target: string) {
+  return target === '/dev/null' || /^&[12]$/.test(target)
+}
+
+// @@@bash-lexer - just enough shell syntax to find command boundaries; anything that could hide another command is rejected
+function tokenize(command: string): { tokens: Token[] } | { error: string } {
+  const tokens: Token[] = []
+  let word = ''
+  let inWord = false
+  const flush = () => {
+    if (inWord) tokens.push({ kind: 'word', value: word })
+    word = ''
+    inWord = false
+  }
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i]
+    const next = command[i + 1]
+
+    if (ch === "'") {
+      const end = command.indexOf("'", i + 1)
+      if (end === -1) return { error: 'unterminated single quote' }
+      word += command.slice(i + 1, end)
+      inWord = true
+      i = end
+      continue
+    }
+    if (ch === '"') {
+      let j = i + 1
+      for (; j < command.length && command[j] !== '"'; j++) {
+        if (command[j] === '\\' && j + 1 < command.length) {
+          word += command[++j]
+          continue
+        }
+        if (command[j] === '`' || (command[j] === '$' && command[j + 1] === '(')) {
+          return { error: 'command substitution is not allowed' }
+        }
+        if (command[j] === '$') return { error: 'variables and $-expansions are not allowed' }
+        word += command[j]
+      }
+      if (j >= command.length) return { error: 'unterminated double quote' }
+      inWord = true
+      i = j
+      continue
+    }
+    if (ch === '\\') {
+      if (next !== undefined) word += next
+      inWord = true
+      i++
+      continue
+    }
+    if (ch === '`' || (ch === '$' && next === '(')) return { error: 'command substitution is not allowed' }
+    // @@@bash-no-expansion - `$VAR`, `${…}`, `$'…'` and `$"…"` would be expanded after the path check ran
+    if (ch === '$') return { error: 'variables and $-expansions are not allowed' }
+    if (ch === '(' || ch === ')') return { error: 'subshells are not allowed' }
+    if (ch === '<') return { error: 'input redirection is not allowed' }
+    if (ch === '>') {
+      // Only discarding output (`2>/dev/null`, `>/dev/null`, `2>&1`) is allowed
+      if (inWord && !/^[12]$/.test(word)) return { error: 'output redirection is not allowed' }
+      word = ''
+      inWord = false
+      let j = i + 1
+      if (command[j] === '>') j++
+      while (command[j] === ' ' || command[j] === '\t') j++
+      let target = ''
+      while (j < command.length && !/[\s;|&]/.test(command[j])) target += command[j++]
+      if (command[j] === '&' && target === '' && /[12]/.test(command[j + 1] ?? '')) {
+        target = command.slice(j, j + 2)
+        j += 2
+      }
+      if (!isRedirectTarget(target)) return { error: 'output redirection is not allowed (only to /dev/null)' }
+      i = j - 1
+      continue
+    }
+    if (ch === '|' || ch === ';' || ch === '&' || ch === '\n') {
+      flush()
+      if ((ch === '|' || ch === '&') && next === ch) {
+        tokens.push({ kind: 'op', value: ch + ch })
+        i++
+      } else if (ch === '&') {
+        return { error: 'background jobs are not allowed' }
+      } else {
+        tokens.push({ kind: 'op', value: ch === '\n' ? ';' : ch })
+      }
+      continue
+    }
+    if (ch === ' ' || ch === '\t') {
+      flush()
+      continue
+    }
+    word += ch
+    inWord = true
+  }
+  flush()
+  return { tokens }
+}
+
+function checkPathValue(arg: string, value: string): string | null {
+  if (value.startsWith('~')) return `paths outside ${MODEL_REPO_ROOT} are not allowed: ${arg}`
+  if (value.startsWith('/')) {
+    if (value === '/dev/null') return null
+    const normalized = path.posix.normalize(value)
+    if (normalized !== MODEL_REPO_ROOT && !normalized.startsWith(`${MODEL_REPO_ROOT}/`)) {
+      return `paths outside ${MODEL_REPO_ROOT} are not allowed: ${arg}`
+    }
+    return null
+  }
+  const normalized = path.posix.normalize(value)
+  if (normalized === '..' || normalized.startsWith('../')) return `paths outside ${MODEL_REPO_ROOT} are not allowed: ${arg}`
+  return null
+}
+
+// Reads outside the repo would hand the user's files (keys, dotfiles) to a remote model
+function checkPathArg(arg: string): string | null {
+  if (arg.startsWith('--') && arg.includes('=')) return checkPathValue(arg, arg.slice(arg.indexOf('=') + 1))
+  if (!isShortCluster(arg)) return checkPathValue(arg, arg)
+  // @@@attached-values - `-f/etc/passwd` or `-nf../x`: the value may start after any letter of the cluster
+  for (let i = 2; i < arg.length; i++) {
+    const problem = checkPathValue(arg, arg.slice(i))
+    if (problem) return problem
+  }
+  return null
+}
+
+/**
+ * Decides whether a model-issued bash command may run: a pipeline/sequence of allowlisted read-only commands,
+ * with no substitutions, subshells or redirections (except discarding output), and no paths outside `/repo`.
+ */
+export function checkBashCommand(command: string): BashPolicyResult {
+  const lexed = tokenize(command)
+  if ('error' in lexed) return { ok: false, reason: lexed.error }
+
+  const segments: string[][] = [[]]
+  for (const token of lexed.tokens) {
+    if (token.kind === 'op') segments.push([])
+    else segments[segments.length - 1].push(token.value)
+  }
+  if (segments.every((s) => s.length === 0)) return { ok: false, reason: 'empty command' }
+
+  for (const words of segments) {
+    if (words.length === 0) {
+      if (segments.length > 1) return { ok: false, reason: 'empty command in a pipeline or sequence' }
+      continue
+    }
+    const [name, ...args] = words
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(name)) return { ok: false, reason: 'environment assignments are not allowed' }
+    if (!Object.hasOwn(ALLOWED_COMMANDS, name)) {
+      return { ok: false, reason: `"${name}" is not an allowed read-only command` }
+    }
+    const checkArgs = ALLOWED_COMMANDS[name]
+    const argsProblem = checkArgs?.(args) ?? null
+    if (argsProblem) return { ok: false, reason: argsProblem }
+    for (const arg of args) {
+      const pathProblem = checkPathArg(arg)
+      if (pathProblem) return { ok: false, reason: pathProblem }
+    }
+  }
+  return { ok: true }
+}
+
+export function describeBashPolicy() {
+  return `Allowed read-only commands: ${Object.keys(ALLOWED_COMMANDS).join(', ')}. Pipes, && / || / ; and redirection to /dev/null are fine; writes, substitutions, variables and paths outside ${MODEL_REPO_ROOT} are not. Globs and braces are not expanded; use find or rg to match files.`
+}
+
+type NetworkSandbox = { command: string; args: string[] }
+
+// @@@bash-no-network - wrappers that cut network access where the OS offers one without root; probed once
+const NETWORK_SANDBOXES: Partial<Record<NodeJS.Platform, NetworkSandbox>> = {
+  linux: { command: 'unshare', args: ['--user', '--map-root-user', '--net', '--'] },
+  darwin: { command: 'sandbox-exec', args: ['-p', '(version 1)(allow default)(deny network*)'] },
+}
+
+let sandboxProbe: Promise<NetworkSandbox | null> | null = null
+
+function getNetworkSandbox() {
+  sandboxProbe ??= (async () => {
+    const sandbox = NETWORK_SANDBOXES[process.platform]
+    if (!sandbox) return null
+    try {
+      await execFileAsync(sandbox.command, [...sandbox.args, '/bin/sh', '-c', 'true'], { timeout: BASH_TIMEOUT_MS })
+      return sandbox
+    } catch {
+      console.warn(`[bash-policy] ${sandbox.command} is unavailable; search agent bash commands run with network access`)
+      return null
+    }
+  })()
+  return sandboxProbe
+}
+
+// Only what the allowed commands need; API keys and other secrets in the server's env stay out
+function scrubbedEnv(): NodeJS.ProcessEnv {
+  return {
+    PATH: process.env.PATH ?? '/usr/local/bin:/usr/bin:/bin',
+    HOME: '/nonexistent',
+    LANG: 'C.UTF-8',
+    LC_ALL: 'C.UTF-8',
+    PAGER: 'cat',
+    GIT_PAGER: 'cat',
+    GIT_CONFIG_NOSYSTEM: '1',
+    GIT_TERMINAL_PROMPT: '0',
+  }
+}
+
+/**
+ * Runs an already-checked command in `repoRoot` with a non-login shell, a scrubbed env and (where available)
+ * no network. `/repo` paths are rewritten relative to the working directory. Globbing and brace expansion are
+ * off, so every argument reaches the command exactly as the policy checked it.
+ */
+export async function runPolicedBash(repoRoot: string, command: string) {
+  const localCommand = command.replace(/\/repo(?=\/|$|[\s'"])/g, '.')
+  const sandbox = await getNetworkSandbox()
+  const bashArgv = ['/bin/bash', '--noprofile', '--norc', '-f', '+B', '-c', localCommand]
+  const [file, ...args] = sandbox ? [sandbox.command, ...sandbox.args, ...bashArgv] : bashArgv
+  return execFileAsync(file, args, {
+    cwd: repoRoot,
+    env: scrubbedEnv(),
+    timeout: BASH_TIMEOUT_MS,
+    maxBuffer: BASH_MAX_BUFFER,
+  })
+}
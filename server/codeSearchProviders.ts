@@ -0,0 +1,50 @@
+import type { CodeSearchProviderKind } from '../shared/appDataTypes.js'
+import type { CodeSearchRunArgs, CodeSearchRunResult } from './codeSearchTypes.js'
+import { runLLMAgentSearch } from './llmSearch.js'
+import { runLocalSearch } from './localSearch.js'
+import { runMockSearch } from './mockProviders.js'
+import { runRelaceSearch } from './relaceSearch.js'
+import { runWarpGrepSearch } from './warpGrepSearch.js'
+
+export type CodeSearchBackend = {
+  // Results are stored in the response cache; false for backends that cost nothing to re-run
+  cacheable: boolean
+  requiresApiKey: boolean
+  run: (args: CodeSearchRunArgs) => Promise<CodeSearchRunResult>
+}
+
+const BACKENDS: Record<CodeSearchProviderKind, CodeSearchBackend> = {
+  relace: {
+    cacheable: true,
+    requiresApiKey: true,
+    run: (args) => runRelaceSearch({ ...args, dumpMessages: args.debugMessages, dumpOnError: true }),
+  },
+  warpgrep: {
+    cacheable: true,
+    requiresApiKey: true,
+    run: runWarpGrepSearch,
+  },
+  // The key, endpoint and retries come from the model's LLM provider
+  llm: {
+    cacheable: true,
+    requiresApiKey: false,
+    run: runLLMAgentSearch,
+  },
+  // Local searches are cheap and must reflect the working tree as it is now
+  local: {
+    cacheable: false,
+    requiresApiKey: false,
+    run: runLocalSearch,
+  },
+  mock: {
+    cacheable: false,
+    requiresApiKey: false,
+    run: runMockSearch,
+  },
+}
+
+export function getCodeSearchBackend(kind: CodeSearchProviderKind): CodeSearchBackend {
+  const backend = BACKENDS[kind]
+  if (!backend) throw new Error(`Unsupported code search provider kind: ${kind}`)
+  return backend
+}
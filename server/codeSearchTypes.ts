@@ -0,0 +1,68 @@
+import type {
+  CodeSearchBudget,
+  CodeSearchOutput,
+  CodeSearchProgressTurn,
+  PathCorrection,
+  RangeCorrection,
+} from '../shared/appDataTypes.js'
+import type { RetryAttempt } from './retry.js'
+
+export type SearchTraceEntry = {
+  turn: number
+  toolCalls: string[]
+  pathValidationRetry?: boolean
+  invalidPaths?: string[]
+  // Reported ranges that were clamped or rejected during report validation
+  rangeCorrections?: RangeCorrection[]
+  // Nonexistent reported paths rewritten to the one repo file they matched
+  pathCorrections?: PathCorrection[]
+  // Only present when the provider call for this turn needed more than one attempt or failed
+  apiAttempts?: RetryAttempt[]
+  // bash commands the policy refused this turn
+  rejectedCommands?: { command: string; reason: string }[]
+}
+
+export type CodeSearchRunResult = {
+  report: CodeSearchOutput
+  trace: SearchTraceEntry[]
+  messageStats?: { turn: number; messagesChars: number; messagesCount: number }[]
+  messageDumpPath?: string
+}
+
+/**
+ * What every code-search backend receives. `apiKey` is '' for backends that need none;
+ * `runId` names the message dump written on errors (and on success with `debugMessages`).
+ */
+export type CodeSearchRunArgs = {
+  repoRoot: string
+  userQuery: string
+  signal?: AbortSignal
+  apiKey: string
+  endpoint?: string
+  // Model id for backends driven by a configured LLM
+  model?: string
+  // false disables the bash tool of agent-loop backends
+  allowBash?: boolean
+  // Extra gitignore-style patterns from settings
+  ignorePatterns?: string[]
+  // Turn, output and timeout limits; unset means the `normal` preset
+  budget?: CodeSearchBudget
+  // Called after each finished turn by multi-turn backends
+  onProgress?: (turn: CodeSearchProgressTurn) => void
+  maxAttempts?: number
+  runId?: string
+  debugMessages?: boolean
+}
+
+/**
+ * Carries the partial trace of a failed search so the run log can still show what happened.
+ */
+export class CodeSearchError extends Error {
+  readonly trace: SearchTraceEntry[]
+
+  constructor(message: string, trace: SearchTraceEntry[]) {
+    super(message)
+    this.name = 'CodeSearchError'
+    this.trace = trace
+  }
+}
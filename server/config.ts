@@ -0,0 +1,180 @@
+import { existsSync, readFileSync } from 'node:fs'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import type { SecretScope } from '../shared/secrets.js'
+
+const CONFIG_FILE_NAME = 'spexflow.config.json'
+const DEFAULT_PORT = 3001
+const DEFAULT_HOST = '127.0.0.1'
+const PROVIDER_KEY_ENV_PREFIXES: Record<SecretScope, string> = {
+  llm: 'SPEXFLOW_LLM_KEY_',
+  'code-search': 'SPEXFLOW_CODE_SEARCH_KEY_',
+}
+
+export type ServerPaths = {
+  dataFile: string
+  secretsFile: string
+  masterKeyFile: string
+  // Legacy single-key fallbacks for Relace and the OpenRouter default
+  relaceKeyFile: string
+  llmKeyFile: string
+  canvasesDir: string
+  logsDir: string
+  cacheDir: string
+}
+
+export type ServerConfig = {
+  port: number
+  host: string
+  // Everything the server writes lives here, so several instances can run side by side
+  dataDir: string
+  // Base for relative repo paths in nodes
+  repoBaseDir: string
+  // Base for relative mock response files
+  mockResponsesDir: string
+  paths: ServerPaths
+  // From SPEXFLOW_SECRET_PASSPHRASE only; a command line would leak it to `ps`
+  secretPassphrase?: string
+  // Provider id (normalized by `providerKeyEnvSuffix`) → key, from SPEXFLOW_LLM_KEY_* / SPEXFLOW_CODE_SEARCH_KEY_*
+  providerKeys: Record<SecretScope, Map<string, string>>
+  // The config file that was read, if any
+  configFile: string | null
+}
+
+type ConfigFile = {
+  port?: number
+  host?: string
+  dataDir?: string
+  repoBaseDir?: string
+  mockResponsesDir?: string
+}
+
+/**
+ * `openai` → `OPENAI`, `provider-1712` → `PROVIDER_1712`: the env var suffix that supplies a provider's key.
+ */
+export function providerKeyEnvSuffix(providerId: string) {
+  return providerId.toUpperCase().replace(/[^A-Z0-9]/g, '_')
+}
+
+function parsePort(raw: unknown, source: string): number {
+  const n = typeof raw === 'string' && raw.trim() ? Number(raw) : raw
+  if (typeof n !== 'number' || !Number.isInteger(n) || n < 0 || n > 65535) {
+    throw new Error(`Invalid port from ${source}: ${String(raw)}`)
+  }
+  return n
+}
+
+function readConfigFile(filePath: string): ConfigFile {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf-8'))
+  } catch (err: unknown) {
+    throw new Error(`Cannot read ${filePath}: ${err instanceof Error ? err.message : String(err)}`)
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error(`${filePath} must hold a JSON object`)
+  const obj = parsed as Record<string, unknown>
+  const known = new Set(['port', 'host', 'dataDir', 'repoBaseDir', 'mockResponsesDir'])
+  const unknownKeys = Object.keys(obj).filter((k) => !known.has(k))
+  if (unknownKeys.length > 0) throw new Error(`${filePath}: unknown setting(s) ${unknownKeys.join(', ')}`)
+  for (const key of ['host', 'dataDir', 'repoBaseDir', 'mockResponsesDir'] as const) {
+    if (obj[key] !== undefined && typeof obj[key] !== 'string') throw new Error(`${filePath}: ${key} must be a string`)
+  }
+  return obj as ConfigFile
+}
+
+function readProviderKeys(env: NodeJS.ProcessEnv): Record<SecretScope, Map<string, string>> {
+  const keys: Record<SecretScope, Map<string, string>> = { llm: new Map(), 'code-search': new Map() }
+  for (const [name, value] of Object.entries(env)) {
+    if (!value?.trim()) continue
+    for (const scope of Object.keys(PROVIDER_KEY_ENV_PREFIXES) as SecretScope[]) {
+      const prefix = PROVIDER_KEY_ENV_PREFIXES[scope]
+      if (name.startsWith(prefix) && name.length > prefix.length) keys[scope].set(name.slice(prefix.length), value.trim())
+    }
+  }
+  return keys
+}
+
+/**
+ * Resolves the server configuration: CLI flags win over SPEXFLOW_* env vars, which win over
+ * `spexflow.config.json` (from `--config`, SPEXFLOW_CONFIG or the working directory), which wins over defaults.
+ * Relative paths resolve against the working directory, or against the config file's directory for its own values.
+ */
+export function loadServerConfig(argv = process.argv.slice(2), env = process.env, cwd = process.cwd()): ServerConfig {
+  const { values: flags } = parseArgs({
+    args: argv,
+    options: {
+      port: { type: 'string' },
+      host: { type: 'string' },
+      'data-dir': { type: 'string' },
+      'repo-base-dir': { type: 'string' },
+      'mock-responses-dir': { type: 'string' },
+      config: { type: 'string' },
+    },
+    allowPositionals: true,
+  })
+
+  const explicitConfig = flags.config ?? env.SPEXFLOW_CONFIG
+  const configFile = explicitConfig
+    ? path.resolve(cwd, explicitConfig)
+    : existsSync(path.join(cwd, CONFIG_FILE_NAME))
+      ? path.join(cwd, CONFIG_FILE_NAME)
+      : null
+  const fileValues = configFile ? readConfigFile(configFile) : {}
+  const fileDir = configFile ? path.dirname(configFile) : cwd
+
+  const pickDir = (flag: string | undefined, envValue: string | undefined, fileValue: string | undefined, fallback: string) => {
+    if (flag) return path.resolve(cwd, flag)
+    if (envValue) return path.resolve(cwd, envValue)
+    if (fileValue) return path.resolve(fileDir, fileValue)
+    return fallback
+  }
+
+  const port =
+    flags.port !== undefined
+      ? parsePort(flags.port, '--port')
+      : env.SPEXFLOW_PORT
+        ? parsePort(env.SPEXFLOW_PORT, 'SPEXFLOW_PORT')
+        : fileValues.port !== undefined
+          ? parsePort(fileValues.port, configFile ?? CONFIG_FILE_NAME)
+          : DEFAULT_PORT
+  const host = flags.host || env.SPEXFLOW_HOST || fileValues.host || DEFAULT_HOST
+
+  const dataDir = pickDir(flags['data-dir'], env.SPEXFLOW_DATA_DIR, fileValues.dataDir, cwd)
+  const repoBaseDir = pickDir(flags['repo-base-dir'], env.SPEXFLOW_REPO_BASE_DIR, fileValues.repoBaseDir, cwd)
+  const mockResponsesDir = pickDir(
+    flags['mock-responses-dir'],
+    env.SPEXFLOW_MOCK_RESPONSES_DIR,
+    fileValues.mockResponsesDir,
+    dataDir,
+  )
+
+  return {
+    port,
+    host,
+    dataDir,
+    repoBaseDir,
+    mockResponsesDir,
+    paths: {
+      dataFile: path.join(dataDir, 'data.json'),
+      secretsFile: path.join(dataDir, 'secrets.json'),
+      masterKeyFile: path.join(dataDir, '.secretkey'),
+      relaceKeyFile: path.join(dataDir, '.apikey'),
+      llmKeyFile: path.join(dataDir, '.llmkey'),
+      canvasesDir: path.join(dataDir, 'canvases'),
+      logsDir: path.join(dataDir, 'logs'),
+      cacheDir: path.join(dataDir, 'cache'),
+    },
+    secretPassphrase: env.SPEXFLOW_SECRET_PASSPHRASE || undefined,
+    providerKeys: readProviderKeys(env),
+    configFile,
+  }
+}
+
+export const config = loadServerConfig()
+
+/**
+ * Key supplied through the environment for a provider; takes precedence over the encrypted secret store.
+ */
+export function getEnvProviderKey(scope: SecretScope, providerId: string): string | null {
+  return config.providerKeys[scope].get(providerKeyEnvSuffix(providerId)) ?? null
+}
@@ -1,4 +1,6 @@
 import type { APISettings } from '../shared/appDataTypes.js'
+import { RESPONSE_CACHE_TTL_HOURS } from '../shared/responseCache.js'
+import { DEFAULT_IGNORE_PATTERNS } from './ignoreRules.js'
 import type { AppData, Canvas } from './appData.js'
 
 function nowIso() {
@@ -10,14 +12,20 @@ export function defaultAPISettings(): APISettings {
     codeSearch: {
       activeProvider: 'relace',
       providers: [
-        { id: 'relace', name: 'Relace', apiKey: '' },
+        { id: 'relace', name: 'Relace', kind: 'relace', apiKey: '' },
+        { id: 'morph', name: 'Morph WarpGrep', kind: 'warpgrep', apiKey: '' },
+        { id: 'llm-agent', name: 'LLM agent (configured model)', kind: 'llm', apiKey: '' },
+        { id: 'local', name: 'Local (keyword search)', kind: 'local', apiKey: '' },
+        { id: 'mock', name: 'Mock (offline grep)', kind: 'mock', apiKey: '' },
       ],
+      ignorePatterns: [...DEFAULT_IGNORE_PATTERNS],
     },
     llm: {
       providers: [
         {
           id: 'openai',
           name: 'OpenAI',
+          kind: 'openai',
           endpoint: 'https://api.openai.com/v1',
           apiKey: '',
           models: [
@@ -28,6 +36,7 @@ export function defaultAPISettings(): APISettings {
         {
           id: 'openrouter',
           name: 'OpenRouter',
+          kind: 'openai',
           endpoint: 'https://openrouter.ai/api/v1',
           apiKey: '',
           models: [
@@ -37,8 +46,18 @@ export function defaultAPISettings(): APISettings {
             { id: 'deepseek/deepseek-v3.2', name: 'deepseek/deepseek-v3.2' },
           ],
         },
+        {
+          id: 'mock',
+          name: 'Mock (offline)',
+          kind: 'mock',
+          endpoint: '',
+          apiKey: '',
+          models: [{ id: 'mock-echo', name: 'mock-echo' }],
+          mockRules: [],
+        },
       ],
     },
+    cache: { ttlHours: RESPONSE_CACHE_TTL_HOURS.default },
   }
 }
 
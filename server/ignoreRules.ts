@@ -0,0 +1,199 @@
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+
+// Seeded into settings for new data; mirrors the build/vendor dirs the repo fingerprint walk skips
+export const DEFAULT_IGNORE_PATTERNS = ['node_modules/', 'dist/', 'build/', '.next/', '.venv/', '__pycache__/']
+
+type IgnoreRule = {
+  regex: RegExp
+  negated: boolean
+  dirOnly: boolean
+  // Patterns with a slash match the path relative to their .gitignore; others match the name at any depth
+  anchored: boolean
+}
+
+type RuleSet = {
+  // Repo-relative directory the rules are relative to ('' for the root)
+  base: string
+  rules: IgnoreRule[]
+}
+
+export type RepoIgnore = {
+  isIgnored: (relPath: string, isDir: boolean) => Promise<boolean>
+}
+
+function escapeRegexChar(ch: string) {
+  return /[.*+?^${}()|[\]\\/]/.test(ch) ? `\\${ch}` : ch
+}
+
+// @@@gitignore-glob - `*`/`?`/`[...]` stay within one path segment; `**` only spans segments as a whole segment
+function globToRegexSource(glob: string) {
+  let out = ''
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]
+    if (ch === '*') {
+      let j = i
+      while (glob[j] === '*') j++
+      const wholeSegment = j - i >= 2 && (i === 0 || glob[i - 1] === '/') && (j === glob.length || glob[j] === '/')
+      if (wholeSegment && j === glob.length) {
+        out += '.*'
+      } else if (wholeSegment) {
+        out += '(?:.*/)?'
+        j++
+      } else {
+        out += '[^/]*'
+      }
+      i = j - 1
+      continue
+    }
+    if (ch === '?') {
+      out += '[^/]'
+      continue
+    }
+    if (ch === '\\' && i + 1 < glob.length) {
+      out += escapeRegexChar(glob[++i])
+      continue
+    }
+    if (ch === '[') {
+      let j = i + 1
+      if (glob[j] === '!' || glob[j] === '^') j++
+      if (glob[j] === ']') j++
+      while (j < glob.length && glob[j] !== ']') j++
+      if (j < glob.length) {
+        const body = glob.slice(i + 1, j)
+        const negated = body.startsWith('!') || body.startsWith('^')
+        const members = (negated ? body.slice(1) : body).replace(/[\\\]^]/g, '\\$&')
+        out += negated ? `[^/${members}]` : `[${members}]`
+        i = j
+        continue
+      }
+    }
+    out += escapeRegexChar(ch)
+  }
+  return out
+}
+
+function parseIgnoreLine(line: string): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, '')
+  if (!pattern || pattern.startsWith('#')) return null
+  const negated = pattern.startsWith('!')
+  if (negated) pattern = pattern.slice(1)
+  const dirOnly = pattern.endsWith('/')
+  if (dirOnly) pattern = pattern.slice(0, -1)
+  const anchored = pattern.includes('/')
+  if (pattern.startsWith('/')) pattern = pattern.slice(1)
+  if (!pattern) return null
+  return { regex: new RegExp(`^${globToRegexSource(pattern)}$`), negated, dirOnly, anchored }
+}
+
+function parseIgnoreLines(lines: string[]) {
+  return lines.map(parseIgnoreLine).filter((r): r is IgnoreRule => r !== null)
+}
+
+async function readIgnoreFile(filePath: string) {
+  try {
+    return (await readFile(filePath, 'utf-8')).split(/\r?\n/)
+  } catch {
+    return []
+  }
+}
+
+// Later rules win, so the last matching rule decides; null when no rule matches
+function matchRuleSet(ruleSet: RuleSet, relPath: string, isDir: boolean): boolean | null {
+  if (ruleSet.base && !relPath.startsWith(`${ruleSet.base}/`)) return null
+  const rel = ruleSet.base ? relPath.slice(ruleSet.base.length + 1) : relPath
+  const name = rel.slice(rel.lastIndexOf('/') + 1)
+  for (let i = ruleSet.rules.length - 1; i >= 0; i--) {
+    const rule = ruleSet.rules[i]
+    if (rule.dirOnly && !isDir) continue
+    if (rule.regex.test(rule.anchored ? rel : name)) return !rule.negated
+  }
+  return null
+}
+
+/**
+ * Ignore matcher for one repo with git's precedence: nested .gitignore files over the root one, over
+ * .git/info/exclude, over the extra patterns from settings. `.git` itself is always ignored. Like git, nothing
+ * inside an ignored directory can be re-included. Paths are repo-relative with `/` separators.
+ */
+export function createRepoIgnore(repoRoot: string, extraPatterns: readonly string[] = []): RepoIgnore {
+  const gitignoreCache = new Map<string, Promise<RuleSet>>()
+  const dirCache = new Map<string, Promise<boolean>>()
+
+  const baseRuleSets = (async (): Promise<RuleSet[]> => {
+    const exclude = await readIgnoreFile(path.join(repoRoot, '.git', 'info', 'exclude'))
+    return [
+      { base: '', rules: parseIgnoreLines([...extraPatterns]) },
+      { base: '', rules: parseIgnoreLines(exclude) },
+    ]
+  })()
+
+  function gitignoreRules(dirRel: string) {
+    let cached = gitignoreCache.get(dirRel)
+    if (!cached) {
+      const filePath = path.join(repoRoot, ...dirRel.split('/').filter(Boolean), '.gitignore')
+      cached = readIgnoreFile(filePath).then((lines) => ({ base: dirRel, rules: parseIgnoreLines(lines) }))
+      gitignoreCache.set(dirRel, cached)
+    }
+    return cached
+  }
+
+  async function matchOwnRules(relPath: string, isDir: boolean) {
+    const parts = relPath.split('/')
+    // The root and every ancestor directory may hold a .gitignore
+    const dirs = parts.map((_, i) => parts.slice(0, i).join('/'))
+    const ruleSets = [...(await baseRuleSets), ...(await Promise.all(dirs.map(gitignoreRules)))]
+    for (let i = ruleSets.length - 1; i >= 0; i--) {
+      const verdict = matchRuleSet(ruleSets[i], relPath, isDir)
+      if (verdict !== null) return verdict
+    }
+    return false
+  }
+
+  function isDirIgnored(dirRel: string): Promise<boolean> {
+    let cached = dirCache.get(dirRel)
+    if (!cached) {
+      const parent = dirRel.includes('/') ? dirRel.slice(0, dirRel.lastIndexOf('/')) : ''
+      cached = (parent ? isDirIgnored(parent) : Promise.resolve(false)).then((parentIgnored) =>
+        parentIgnored ? true : matchOwnRules(dirRel, true),
+      )
+      dirCache.set(dirRel, cached)
+    }
+    return cached
+  }
+
+  return {
+    async isIgnored(relPath, isDir) {
+      const normalized = relPath.replace(/^\/+|\/+$/g, '')
+      if (!normalized || normalized === '.') return false
+      if (normalized.split('/').includes('.git')) return true
+      if (isDir) return isDirIgnored(normalized)
+      const parent = normalized.includes('/') ? normalized.slice(0, normalized.lastIndexOf('/')) : ''
+      if (parent && (await isDirIgnored(parent))) return true
+      return matchOwnRules(normalized, false)
+    },
+  }
+}
+
+/**
+ * ripgrep flags that line its filtering up with `createRepoIgnore`: .gitignore and .git/info/exclude apply even
+ * outside a git checkout, the user's global excludes do not, and the extra patterns become exclude globs.
+ * rg globs cannot re-include files, so negated extra patterns are left out.
+ */
+export function ripgrepIgnoreArgs(extraPatterns: readonly string[] = []) {
+  const args = ['--no-require-git', '--no-ignore-global']
+  for (const pattern of extraPatterns) {
+    const trimmed = pattern.trim()
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('!')) continue
+    args.push('--glob', `!${trimmed}`)
+  }
+  return args
+}
+
+/**
+ * The extra ignore list from settings with blank lines dropped; data saved before the setting existed gets the defaults.
+ */
+export function normalizeIgnorePatterns(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [...DEFAULT_IGNORE_PATTERNS]
+  return raw.filter((p): p is string => typeof p === 'string').map((p) => p.trim()).filter(Boolean)
+}
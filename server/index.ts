@@ -1,19 +1,52 @@
 import express from 'express'
 import { mkdir, readFile, readdir, stat, unlink, writeFile } from 'node:fs/promises'
 import path from 'node:path'
-import { runRelaceSearch } from './relaceSearch.js'
-import { loadAppData, saveAppData, getCodeSearchApiKey } from './appData.js'
+import { CodeSearchError, type CodeSearchRunResult } from './codeSearchTypes.js'
+import { getCodeSearchBackend } from './codeSearchProviders.js'
+import {
+  loadAppDataForClient,
+  saveAppData,
+  getCodeSearchProviderConfig,
+  getLLMProviderById,
+  getLLMProviderByModel,
+  getLLMModelById,
+  getResponseCacheTtlMs,
+  getRepoIgnorePatterns,
+  normalizeContextSources,
+  normalizeLLMTransport,
+} from './appData.js'
 import { buildRepoContext } from './repoContext.js'
-import { runOpenRouterChat } from './openRouter.js'
-import { appendSearchRunLog, readRecentSearchRunLogs, readSearchRunDump } from './searchRunLog.js'
+import { expandRangesToSyntax } from './syntaxRanges.js'
+import { listProviderModels, runOpenRouterChat, streamOpenRouterChat } from './openRouter.js'
+import { appendSearchRunLog, readRecentSearchRunLogs, readSearchRunDump, searchRunDumpPath } from './searchRunLog.js'
+import { readRecentLLMCallLogs } from './llmCallLog.js'
+import {
+  clearCachedResponses,
+  listCachedResponses,
+  readCachedResponse,
+  responseCacheKey,
+  writeCachedResponse,
+  type ResponseCacheKind,
+} from './responseCache.js'
+import { computeRepoFingerprint } from './repoFingerprint.js'
+import { setSecrets } from './secrets.js'
+import { MASKED_SECRET, isMaskedSecret } from '../shared/secrets.js'
 import { listRepoDir, resolveManualImport } from './repoBrowser.js'
+import { startSse, writeSseEvent } from './sse.js'
+import { assertJsonSchema } from './jsonSchema.js'
+import { runStructuredChat } from './structuredOutput.js'
+import { parseGenerationParams } from '../shared/generationParams.js'
+import { DEFAULT_CODE_SEARCH_BUDGET, parseCodeSearchBudget } from '../shared/codeSearchBudget.js'
+import { STRUCTURED_OUTPUT_ATTEMPTS } from '../shared/structuredOutput.js'
+import type { CodeSearchProgressTurn } from '../shared/appDataTypes.js'
+import { config } from './config.js'
+import { runPromptPreflight, type PromptContextSegment } from './tokenBudget.js'
 
 const app = express()
-const PORT = 3001
 
 app.use(express.json({ limit: '10mb' }))
 
-const CANVASES_DIR = path.join(process.cwd(), 'canvases')
+const CANVASES_DIR = config.paths.canvasesDir
 
 async function ensureCanvasesDir() {
   await mkdir(CANVASES_DIR, { recursive: true })
@@ -26,37 +59,108 @@ app.get('/api/health', (_req, res) => {
 function resolveRepoRoot(repoPathRaw: string) {
   return path.isAbsolute(repoPathRaw)
     ? repoPathRaw
-    : path.join(process.cwd(), repoPathRaw)
+    : path.join(config.repoBaseDir, repoPathRaw)
 }
 
 async function readApiKeyFromDotfile() {
-  const keyPath = path.join(process.cwd(), '.apikey')
-  const key = (await readFile(keyPath, 'utf-8')).trim()
+  const key = (await readFile(config.paths.relaceKeyFile, 'utf-8')).trim()
   if (!key) throw new Error('Empty .apikey')
   return key
 }
 
-app.post('/api/relace-search', async (req, res) => {
+// Persisted settings first; the .apikey file only ever held a Relace key
+async function resolveCodeSearchApiKey(codeSearchConfig: { providerId: string; kind: string; apiKey: string | null }) {
+  if (codeSearchConfig.apiKey) return codeSearchConfig.apiKey
+  if (codeSearchConfig.kind === 'relace') return readApiKeyFromDotfile()
+  throw new Error(`No API key configured for code search provider: ${codeSearchConfig.providerId}`)
+}
+
+// @@@client-abort - `close` before the response finished means the browser went away (e.g. chain cancelled)
+function abortOnClientClose(res: express.Response) {
+  const controller = new AbortController()
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort()
+  })
+  return controller.signal
+}
+
+type CodeSearchResponse = CodeSearchRunResult & { cached?: boolean; cachedAt?: string }
+
+// @@@code-search-request - shared by the JSON and SSE endpoints: cache lookup, backend run, run log and cache write
+async function handleCodeSearchRequest(
+  body: Record<string, unknown> | undefined,
+  signal: AbortSignal,
+  onProgress?: (turn: CodeSearchProgressTurn) => void,
+): Promise<CodeSearchResponse> {
   const startedAt = new Date()
   const id = globalThis.crypto?.randomUUID?.() ?? `run_${Date.now()}`
+  // Filled in once the provider resolves so failed runs are logged with it too (the history can re-create the node)
+  const logTarget: { provider?: string; model?: string } = {}
   try {
-    const repoPathRaw = typeof req.body?.repoPath === 'string' ? req.body.repoPath : 'examples/example-repo'
-    const query = typeof req.body?.query === 'string' ? req.body.query : 'How is user authentication handled in this codebase?'
-    const debugMessages = typeof req.body?.debugMessages === 'boolean' ? req.body.debugMessages : false
+    const repoPathRaw = typeof body?.repoPath === 'string' ? body.repoPath : 'examples/example-repo'
+    const query = typeof body?.query === 'string' ? body.query : 'How is user authentication handled in this codebase?'
+    const debugMessages = typeof body?.debugMessages === 'boolean' ? body.debugMessages : false
+    const bypassCache = body?.bypassCache === true
+    const providerId = typeof body?.providerId === 'string' && body.providerId ? body.providerId : undefined
+    const nodeModel = typeof body?.model === 'string' && body.model.trim() ? body.model.trim() : undefined
+    const { budget: requestedBudget, errors: budgetErrors } = parseCodeSearchBudget(body?.budget)
+    if (budgetErrors.length > 0) throw new Error(`Invalid budget: ${budgetErrors.join('; ')}`)
+    const budget = requestedBudget ?? DEFAULT_CODE_SEARCH_BUDGET
 
     const repoRoot = resolveRepoRoot(repoPathRaw)
 
-    // Try to get API key from persisted settings first, fall back to .apikey file
-    const settingsApiKey = await getCodeSearchApiKey()
-    const apiKey = settingsApiKey ?? await readApiKeyFromDotfile()
-    const result = await runRelaceSearch({
-      apiKey,
+    const codeSearchConfig = await getCodeSearchProviderConfig(providerId)
+    const backend = getCodeSearchBackend(codeSearchConfig.kind)
+    const model = codeSearchConfig.kind === 'llm' ? nodeModel ?? codeSearchConfig.model : undefined
+    logTarget.provider = codeSearchConfig.providerId
+    logTarget.model = model
+
+    // @@@search-cache - the repo fingerprint keeps hits from surviving edits to the searched repo; free backends (mock) are never cached
+    const ttlMs = await getResponseCacheTtlMs()
+    const cacheKey =
+      ttlMs > 0 && backend.cacheable
+        ? responseCacheKey('code-search', {
+            provider: codeSearchConfig.providerId,
+            model,
+            allowBash: codeSearchConfig.allowBash,
+            ignorePatterns: codeSearchConfig.ignorePatterns,
+            budget,
+            repoRoot,
+            query,
+            fingerprint: await computeRepoFingerprint(repoRoot),
+          })
+        : null
+    const hit = cacheKey && !bypassCache ? await readCachedResponse<CodeSearchRunResult>(cacheKey, ttlMs) : null
+    if (hit) {
+      await appendSearchRunLog({
+        id,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        repoPath: repoPathRaw,
+        query,
+        provider: codeSearchConfig.providerId,
+        model,
+        ok: true,
+        cached: true,
+        reportFilesCount: Object.keys(hit.value.report.files ?? {}).length,
+      })
+      return { ...hit.value, cached: true, cachedAt: hit.createdAt }
+    }
+
+    const result = await backend.run({
+      apiKey: backend.requiresApiKey ? await resolveCodeSearchApiKey(codeSearchConfig) : '',
+      endpoint: codeSearchConfig.endpoint,
+      model,
+      allowBash: codeSearchConfig.allowBash,
+      ignorePatterns: codeSearchConfig.ignorePatterns,
+      budget,
+      maxAttempts: codeSearchConfig.maxAttempts,
+      signal,
       repoRoot,
       userQuery: query,
       debugMessages,
       runId: id,
-      dumpMessages: debugMessages,
-      dumpOnError: true,
+      onProgress,
     })
     await appendSearchRunLog({
       id,
@@ -64,30 +168,68 @@ app.post('/api/relace-search', async (req, res) => {
       durationMs: Date.now() - startedAt.getTime(),
       repoPath: repoPathRaw,
       query,
+      provider: codeSearchConfig.providerId,
+      model,
       ok: true,
       trace: result.trace,
       reportFilesCount: Object.keys(result.report.files ?? {}).length,
       messageDumpPath: result.messageDumpPath,
       messageStats: result.messageStats,
     })
-    res.json(result)
+    if (cacheKey) {
+      await writeCachedResponse({
+        key: cacheKey,
+        kind: 'code-search',
+        summary: `${repoPathRaw}: ${query.slice(0, 200)}`,
+        value: { report: result.report, trace: result.trace },
+      })
+    }
+    return result
   } catch (err: unknown) {
-    console.error(err)
-    const message = err instanceof Error ? err.message : String(err)
+    const cancelled = signal.aborted
+    if (!cancelled) console.error(err)
+    const message = cancelled ? 'Cancelled by client' : err instanceof Error ? err.message : String(err)
     await appendSearchRunLog({
       id,
       startedAt: startedAt.toISOString(),
       durationMs: Date.now() - startedAt.getTime(),
-      repoPath: typeof req.body?.repoPath === 'string' ? req.body.repoPath : 'examples/example-repo',
-      query: typeof req.body?.query === 'string' ? req.body.query : '',
+      repoPath: typeof body?.repoPath === 'string' ? body.repoPath : 'examples/example-repo',
+      query: typeof body?.query === 'string' ? body.query : '',
+      ...logTarget,
       ok: false,
       error: message,
-      messageDumpPath: `logs/relace-search-runs/${id}.json`,
+      ...(cancelled ? { cancelled } : {}),
+      trace: err instanceof CodeSearchError ? err.trace : undefined,
+      messageDumpPath: searchRunDumpPath(id),
     })
+    throw new Error(message)
+  }
+}
+
+app.post('/api/relace-search', async (req, res) => {
+  const signal = abortOnClientClose(res)
+  try {
+    res.json(await handleCodeSearchRequest(req.body, signal))
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err)
     res.status(500).json({ error: message })
   }
 })
 
+// @@@search-stream - same request as /api/relace-search; `progress` events per finished turn, then `done` or `error`
+app.post('/api/relace-search/stream', async (req, res) => {
+  const signal = abortOnClientClose(res)
+  startSse(res)
+  try {
+    const result = await handleCodeSearchRequest(req.body, signal, (turn) => writeSseEvent(res, { type: 'progress', turn }))
+    writeSseEvent(res, { type: 'done', ...result })
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err)
+    writeSseEvent(res, { type: 'error', error: message })
+  }
+  res.end()
+})
+
 app.get('/api/relace-search/logs', async (req, res) => {
   try {
     const limitRaw = typeof req.query?.limit === 'string' ? Number(req.query.limit) : 50
@@ -106,6 +248,10 @@ app.get('/api/relace-search/logs/:id', async (req, res) => {
     const runId = req.params.id
     if (typeof runId !== 'string' || !runId.trim()) throw new Error('Missing id')
     const dump = await readSearchRunDump(runId)
+    if (dump === null) {
+      res.status(404).json({ error: `No message dump for run ${runId}; dumps are kept for failed runs and runs with Debug Messages on` })
+      return
+    }
     res.json({ dump })
   } catch (err: unknown) {
     console.error(err)
@@ -114,9 +260,22 @@ app.get('/api/relace-search/logs/:id', async (req, res) => {
   }
 })
 
+app.get('/api/llm/logs', async (req, res) => {
+  try {
+    const limitRaw = typeof req.query?.limit === 'string' ? Number(req.query.limit) : 50
+    const limit = Number.isFinite(limitRaw) ? limitRaw : 50
+    const entries = await readRecentLLMCallLogs(limit)
+    res.json({ entries })
+  } catch (err: unknown) {
+    console.error(err)
+    const message = err instanceof Error ? err.message : String(err)
+    res.status(500).json({ error: message })
+  }
+})
+
 app.get('/api/app-data', async (_req, res) => {
   try {
-    res.json(await loadAppData())
+    res.json(await loadAppDataForClient())
   } catch (err: unknown) {
     console.error(err)
     const message = err instanceof Error ? err.message : String(err)
@@ -135,6 +294,25 @@ app.put('/api/app-data', async (req, res) => {
   }
 })
 
+// @@@set-secret - the only way API keys reach the server; an empty value removes the stored key
+app.put('/api/secrets', async (req, res) => {
+  try {
+    const scope = req.body?.scope
+    const providerId = typeof req.body?.providerId === 'string' ? req.body.providerId.trim() : ''
+    const value = typeof req.body?.value === 'string' ? req.body.value.trim() : null
+    if (scope !== 'llm' && scope !== 'code-search') throw new Error('scope must be "llm" or "code-search"')
+    if (!providerId) throw new Error('providerId is required')
+    if (value === null) throw new Error('value must be a string')
+    if (isMaskedSecret(value)) throw new Error('value is the masked placeholder, not a key')
+    await setSecrets([{ scope, providerId, value }])
+    res.json({ apiKey: value ? MASKED_SECRET : '' })
+  } catch (err: unknown) {
+    console.error(err)
+    const message = err instanceof Error ? err.message : String(err)
+    res.status(500).json({ error: message })
+  }
+})
+
 app.get('/api/canvases', async (_req, res) => {
   try {
     await ensureCanvasesDir()
@@ -237,13 +415,31 @@ app.post('/api/repo-context', async (req, res) => {
   }
 })
 
+app.post('/api/repo-context/expand', async (req, res) => {
+  try {
+    const repoPathRaw = req.body?.repoPath
+    const files = req.body?.files
+
+    if (typeof repoPathRaw !== 'string') throw new Error('repoPath must be a string')
+    if (!files || typeof files !== 'object') throw new Error('files must be an object')
+
+    const repoRoot = resolveRepoRoot(repoPathRaw)
+
+    res.json({ files: await expandRangesToSyntax(repoRoot, files) })
+  } catch (err: unknown) {
+    console.error(err)
+    const message = err instanceof Error ? err.message : String(err)
+    res.status(500).json({ error: message })
+  }
+})
+
 app.get('/api/repo-dir', async (req, res) => {
   try {
     const repoPathRaw = typeof req.query?.repoPath === 'string' ? req.query.repoPath : ''
     const dir = typeof req.query?.dir === 'string' ? req.query.dir : ''
     if (!repoPathRaw.trim()) throw new Error('repoPath is required')
     const repoRoot = resolveRepoRoot(repoPathRaw)
-    const result = await listRepoDir({ repoRoot, dir })
+    const result = await listRepoDir({ repoRoot, dir, ignorePatterns: await getRepoIgnorePatterns() })
     res.json(result)
   } catch (err: unknown) {
     console.error(err)
@@ -260,7 +456,7 @@ app.post('/api/manual-import/resolve', async (req, res) => {
     if (!Array.isArray(items)) throw new Error('items must be an array')
 
     const repoRoot = resolveRepoRoot(repoPathRaw)
-    const report = await resolveManualImport({ repoRoot, items })
+    const report = await resolveManualImport({ repoRoot, items, ignorePatterns: await getRepoIgnorePatterns() })
     res.json({ report })
   } catch (err: unknown) {
     console.error(err)
@@ -270,20 +466,251 @@ app.post('/api/manual-import/resolve', async (req, res) => {
 })
 
 app.post('/api/llm', async (req, res) => {
+  const signal = abortOnClientClose(res)
   try {
     const model = req.body?.model
     const systemPrompt = req.body?.systemPrompt
     const query = req.body?.query
     const context = req.body?.context
+    const stream = req.body?.stream === true
+    const bypassCache = req.body?.bypassCache === true
 
     if (typeof model !== 'string') throw new Error('model must be a string')
     if (typeof systemPrompt !== 'string') throw new Error('systemPrompt must be a string')
     if (typeof query !== 'string') throw new Error('query must be a string')
     if (typeof context !== 'string') throw new Error('context must be a string')
+    const provider = await getLLMProviderByModel(model)
+    const { params, errors: paramErrors } = parseGenerationParams(req.body?.params, provider?.kind)
+    if (paramErrors.length > 0) throw new Error(`Invalid params: ${paramErrors.join('; ')}`)
 
     const userPrompt = [context.trimEnd(), '', '---', '', query].join('\n')
-    const output = await runOpenRouterChat({ model, systemPrompt, userPrompt })
-    res.json({ output })
+
+    const jsonSchema = req.body?.jsonSchema
+    const structured = jsonSchema !== undefined && jsonSchema !== null
+    const jsonMaxAttempts = req.body?.jsonMaxAttempts ?? STRUCTURED_OUTPUT_ATTEMPTS.default
+    if (structured) {
+      assertJsonSchema(jsonSchema)
+      if (stream) throw new Error('stream is not supported together with jsonSchema')
+      if (
+        !Number.isInteger(jsonMaxAttempts) ||
+        jsonMaxAttempts < STRUCTURED_OUTPUT_ATTEMPTS.min ||
+        jsonMaxAttempts > STRUCTURED_OUTPUT_ATTEMPTS.max
+      ) {
+        throw new Error(
+          `jsonMaxAttempts must be an integer between ${STRUCTURED_OUTPUT_ATTEMPTS.min} and ${STRUCTURED_OUTPUT_ATTEMPTS.max}`,
+        )
+      }
+    }
+
+    // @@@llm-cache - keyed by everything that shapes the reply; streamed and non-streamed plain calls share entries.
+    // Mock replies cost nothing and caching them would hide edits to their response files.
+    const ttlMs = await getResponseCacheTtlMs()
+    const cacheKey =
+      ttlMs > 0 && provider?.kind !== 'mock'
+        ? responseCacheKey('llm', {
+            provider: provider ? { kind: provider.kind, endpoint: provider.endpoint } : 'openrouter-dotfile',
+            model,
+            systemPrompt,
+            userPrompt,
+            params,
+            ...(structured ? { jsonSchema, jsonMaxAttempts } : {}),
+          })
+        : null
+    const hit = cacheKey && !bypassCache ? await readCachedResponse<Record<string, unknown>>(cacheKey, ttlMs) : null
+    const saveToCache = async (value: Record<string, unknown>) => {
+      if (!cacheKey) return
+      await writeCachedResponse({ key: cacheKey, kind: 'llm', summary: `${model}: ${query.slice(0, 200)}`, value })
+    }
+
+    if (structured) {
+      if (hit) {
+        res.json({ ...hit.value, cached: true, cachedAt: hit.createdAt })
+        return
+      }
+      const result = await runStructuredChat({
+        model,
+        systemPrompt,
+        userPrompt,
+        params,
+        schema: jsonSchema,
+        maxAttempts: jsonMaxAttempts,
+        signal,
+      })
+      await saveToCache(result)
+      res.json(result)
+      return
+    }
+
+    if (!stream) {
+      if (hit) {
+        res.json({ ...hit.value, cached: true, cachedAt: hit.createdAt })
+        return
+      }
+      const { output, usage } = await runOpenRouterChat({ model, systemPrompt, userPrompt, params, signal })
+      await saveToCache({ output, usage })
+      res.json({ output, usage })
+      return
+    }
+
+    // @@@llm-stream - once SSE headers are sent, failures travel as `error` events instead of HTTP 500
+    startSse(res)
+    if (hit) {
+      writeSseEvent(res, { type: 'delta', text: hit.value.output })
+      writeSseEvent(res, { type: 'done', ...hit.value, cached: true, cachedAt: hit.createdAt })
+      res.end()
+      return
+    }
+    try {
+      const { output, usage } = await streamOpenRouterChat({
+        model,
+        systemPrompt,
+        userPrompt,
+        params,
+        signal,
+        onDelta: (text) => writeSseEvent(res, { type: 'delta', text }),
+      })
+      await saveToCache({ output, usage })
+      writeSseEvent(res, { type: 'done', output, usage })
+    } catch (err: unknown) {
+      console.error(err)
+      const message = err instanceof Error ? err.message : String(err)
+      writeSseEvent(res, { type: 'error', error: message })
+    }
+    res.end()
+  } catch (err: unknown) {
+    console.error(err)
+    const message = err instanceof Error ? err.message : String(err)
+    res.status(500).json({ error: message })
+  }
+})
+
+app.post('/api/llm/preflight', async (req, res) => {
+  try {
+    const model = req.body?.model
+    const systemPrompt = req.body?.systemPrompt
+    const query = req.body?.query
+    const segmentsRaw = req.body?.segments
+    const strategy = req.body?.strategy ?? 'block'
+
+    if (typeof model !== 'string') throw new Error('model must be a string')
+    if (typeof systemPrompt !== 'string') throw new Error('systemPrompt must be a string')
+    if (typeof query !== 'string') throw new Error('query must be a string')
+    if (!Array.isArray(segmentsRaw)) throw new Error('segments must be an array')
+    if (strategy !== 'block' && strategy !== 'drop-files') throw new Error('strategy must be "block" or "drop-files"')
+    // Same provider-specific limits as /api/llm, so preflight never passes params the run would reject
+    const provider = await getLLMProviderByModel(model)
+    const { params, errors: paramErrors } = parseGenerationParams(req.body?.params, provider?.kind)
+    if (paramErrors.length > 0) throw new Error(`Invalid params: ${paramErrors.join('; ')}`)
+
+    const segments: PromptContextSegment[] = segmentsRaw.map((raw: unknown, i: number) => {
+      const segment = raw as { text?: unknown; sources?: unknown; fullFile?: unknown } | null
+      if (typeof segment?.text !== 'string') throw new Error(`segments[${i}].text must be a string`)
+      return {
+        text: segment.text,
+        sources: normalizeContextSources(segment.sources),
+        fullFile: segment.fullFile === true,
+      }
+    })
+
+    const result = await runPromptPreflight({
+      model,
+      contextWindow: (await getLLMModelById(model))?.contextWindow,
+      systemPrompt,
+      query,
+      segments,
+      maxTokens: params?.maxTokens,
+      strategy,
+      build: ({ repoPath, ...rest }) => buildRepoContext({ repoRoot: resolveRepoRoot(repoPath), ...rest }),
+    })
+    res.json(result)
+  } catch (err: unknown) {
+    console.error(err)
+    const message = err instanceof Error ? err.message : String(err)
+    res.status(500).json({ error: message })
+  }
+})
+
+app.post('/api/llm/models', async (req, res) => {
+  const signal = abortOnClientClose(res)
+  try {
+    const providerId = typeof req.body?.providerId === 'string' ? req.body.providerId : ''
+    const saved = providerId ? await getLLMProviderById(providerId) : null
+    const kind = req.body?.kind ?? saved?.kind
+    if (kind !== 'openai' && kind !== 'anthropic') throw new Error('kind must be "openai" or "anthropic"')
+    const endpoint = (typeof req.body?.endpoint === 'string' ? req.body.endpoint : (saved?.endpoint ?? '')).trim()
+    // The modal sends its `transport` edits; a bare request uses the saved ones
+    const savedTransport = normalizeLLMTransport(saved ?? {})
+    const transport = req.body?.transport !== undefined ? normalizeLLMTransport(req.body.transport) : savedTransport
+    // @@@models-saved-key - the settings modal may hold unsaved edits; an empty or masked key falls back to the saved
+    // one, but only while the key would go to the saved destination; otherwise any caller could send it to its own host.
+    // Header values are secrets rather than part of the destination, so only header names are compared
+    const destinationOf = (t: typeof transport) =>
+      JSON.stringify({ ...t, customHeaders: t.customHeaders?.map(h => h.name.trim().toLowerCase()) })
+    const sameDestination =
+      !!saved &&
+      kind === saved.kind &&
+      endpoint === (saved.endpoint ?? '').trim() &&
+      destinationOf(transport) === destinationOf(savedTransport)
+    const bodyKey = typeof req.body?.apiKey === 'string' ? req.body.apiKey.trim() : ''
+    const apiKey = (isMaskedSecret(bodyKey) ? '' : bodyKey) || (sameDestination ? saved.apiKey.trim() : '')
+    const customHeaders = transport.customHeaders?.map(h => {
+      if (!isMaskedSecret(h.value)) return h
+      const savedHeader = sameDestination
+        ? savedTransport.customHeaders?.find(s => s.name.trim().toLowerCase() === h.name.trim().toLowerCase())
+        : undefined
+      if (!savedHeader) throw new Error(`Header ${h.name}: the saved value is only used with the saved endpoint and transport settings`)
+      return savedHeader
+    })
+    if (!endpoint) throw new Error('endpoint is required')
+    if (!apiKey && transport.authScheme !== 'none') {
+      throw new Error(
+        saved && !sameDestination
+          ? 'apiKey is required: the saved key is only used with the saved endpoint and transport settings'
+          : 'apiKey is required',
+      )
+    }
+    const models = await listProviderModels(
+      { kind, endpoint, apiKey, ...transport, customHeaders, maxAttempts: saved?.maxAttempts, timeoutSec: saved?.timeoutSec },
+      signal,
+    )
+    res.json({ models, checkedAt: new Date().toISOString() })
+  } catch (err: unknown) {
+    console.error(err)
+    const message = err instanceof Error ? err.message : String(err)
+    res.status(500).json({ error: message })
+  }
+})
+
+app.get('/api/cache', async (_req, res) => {
+  try {
+    const entries = await listCachedResponses(await getResponseCacheTtlMs())
+    res.json({ entries, totalBytes: entries.reduce((sum, e) => sum + e.sizeBytes, 0) })
+  } catch (err: unknown) {
+    console.error(err)
+    const message = err instanceof Error ? err.message : String(err)
+    res.status(500).json({ error: message })
+  }
+})
+
+app.delete('/api/cache', async (req, res) => {
+  try {
+    const kindRaw = req.query?.kind
+    if (kindRaw !== undefined && kindRaw !== 'llm' && kindRaw !== 'code-search') {
+      throw new Error('kind must be "llm" or "code-search"')
+    }
+    const removed = await clearCachedResponses({ kind: kindRaw as ResponseCacheKind | undefined })
+    res.json({ removed })
+  } catch (err: unknown) {
+    console.error(err)
+    const message = err instanceof Error ? err.message : String(err)
+    res.status(500).json({ error: message })
+  }
+})
+
+app.delete('/api/cache/:key', async (req, res) => {
+  try {
+    const removed = await clearCachedResponses({ key: req.params.key })
+    res.json({ removed })
   } catch (err: unknown) {
     console.error(err)
     const message = err instanceof Error ? err.message : String(err)
@@ -291,6 +718,8 @@ app.post('/api/llm', async (req, res) => {
   }
 })
 
-app.listen(PORT, () => {
-  console.log(`Server running at http://localhost:${PORT}`)
+await mkdir(config.dataDir, { recursive: true })
+app.listen(config.port, config.host, () => {
+  console.log(`Server running at http://${config.host}:${config.port} (data: ${config.dataDir})`)
+  if (config.configFile) console.log(`Config loaded from ${config.configFile}`)
 })
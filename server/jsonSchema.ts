@@ -0,0 +1,136 @@
+/**
+ * Minimal JSON Schema validator for LLM structured output.
+ * Supports the subset models are usually asked for: type, enum, const, properties, required,
+ * additionalProperties, items, min/max(Length|Items), minimum/maximum, pattern, anyOf, oneOf, allOf.
+ * Unknown keywords are ignored.
+ */
+
+type Schema = Record<string, unknown>
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function typeOfJson(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string) {
+  const actual = typeOfJson(value)
+  if (type === 'number') return actual === 'number' || actual === 'integer'
+  return actual === type
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function pointer(path: string) {
+  return path || '/'
+}
+
+function validateAt(value: unknown, schema: unknown, path: string, errors: string[]) {
+  if (schema === true || schema === undefined) return
+  if (schema === false) {
+    errors.push(`${pointer(path)}: no value is allowed here`)
+    return
+  }
+  if (!isPlainObject(schema)) return
+  const s = schema as Schema
+
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? (s.type as string[]) : [s.type as string]
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push(`${pointer(path)}: expected ${types.join(' | ')}, got ${typeOfJson(value)}`)
+      return
+    }
+  }
+
+  if (Array.isArray(s.enum) && !s.enum.some((e) => deepEqual(e, value))) {
+    errors.push(`${pointer(path)}: must be one of ${JSON.stringify(s.enum)}`)
+  }
+  if ('const' in s && !deepEqual(s.const, value)) {
+    errors.push(`${pointer(path)}: must equal ${JSON.stringify(s.const)}`)
+  }
+
+  if (typeof value === 'string') {
+    if (typeof s.minLength === 'number' && value.length < s.minLength) {
+      errors.push(`${pointer(path)}: must be at least ${s.minLength} characters`)
+    }
+    if (typeof s.maxLength === 'number' && value.length > s.maxLength) {
+      errors.push(`${pointer(path)}: must be at most ${s.maxLength} characters`)
+    }
+    if (typeof s.pattern === 'string') {
+      let re: RegExp | null = null
+      try {
+        re = new RegExp(s.pattern, 'u')
+      } catch {
+        re = null
+      }
+      if (re && !re.test(value)) errors.push(`${pointer(path)}: must match pattern ${s.pattern}`)
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof s.minimum === 'number' && value < s.minimum) errors.push(`${pointer(path)}: must be >= ${s.minimum}`)
+    if (typeof s.maximum === 'number' && value > s.maximum) errors.push(`${pointer(path)}: must be <= ${s.maximum}`)
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof s.minItems === 'number' && value.length < s.minItems) {
+      errors.push(`${pointer(path)}: must have at least ${s.minItems} items`)
+    }
+    if (typeof s.maxItems === 'number' && value.length > s.maxItems) {
+      errors.push(`${pointer(path)}: must have at most ${s.maxItems} items`)
+    }
+    if (s.items !== undefined) {
+      value.forEach((item, i) => validateAt(item, s.items, `${path}/${i}`, errors))
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = isPlainObject(s.properties) ? s.properties : {}
+    if (Array.isArray(s.required)) {
+      for (const key of s.required) {
+        if (typeof key === 'string' && !(key in value)) errors.push(`${pointer(path)}: missing required property "${key}"`)
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (key in properties) {
+        validateAt(child, properties[key], `${path}/${key}`, errors)
+      } else if (s.additionalProperties === false) {
+        errors.push(`${pointer(path)}: unexpected property "${key}"`)
+      } else if (isPlainObject(s.additionalProperties)) {
+        validateAt(child, s.additionalProperties, `${path}/${key}`, errors)
+      }
+    }
+  }
+
+  if (Array.isArray(s.allOf)) {
+    for (const sub of s.allOf) validateAt(value, sub, path, errors)
+  }
+  if (Array.isArray(s.anyOf)) {
+    const ok = s.anyOf.some((sub) => validateJsonSchema(value, sub).length === 0)
+    if (!ok) errors.push(`${pointer(path)}: must match at least one schema in anyOf`)
+  }
+  if (Array.isArray(s.oneOf)) {
+    const matches = s.oneOf.filter((sub) => validateJsonSchema(value, sub).length === 0).length
+    if (matches !== 1) errors.push(`${pointer(path)}: must match exactly one schema in oneOf (matched ${matches})`)
+  }
+}
+
+/**
+ * Returns human-readable errors (`/path: message`); an empty array means the value is valid.
+ */
+export function validateJsonSchema(value: unknown, schema: unknown): string[] {
+  const errors: string[] = []
+  validateAt(value, schema, '', errors)
+  return errors
+}
+
+export function assertJsonSchema(schema: unknown): asserts schema is Record<string, unknown> {
+  if (!isPlainObject(schema)) throw new Error('jsonSchema must be a JSON object')
+}
@@ -0,0 +1,323 @@
+import type {
+  DiscoveredLLMModel,
+  LLMGenerationParams,
+  LLMProviderKind,
+  ReasoningEffort,
+} from '../shared/appDataTypes.js'
+import type { LLMTokenCounts } from '../shared/llmUsage.js'
+import { buildChatUrl, buildModelsUrl, buildProviderHeaders, type ProviderTransport } from './providerRequest.js'
+
+export type LLMChatMessage = { role: 'user' | 'assistant'; content: string }
+
+// OpenAI extensions that not every OpenAI-compatible provider accepts
+export type LLMOptionalField = 'response_format' | 'stream_options'
+
+export type LLMChatRequest = {
+  model: string
+  systemPrompt: string
+  messages: LLMChatMessage[]
+  params?: LLMGenerationParams
+  // JSON Schema the reply must follow; only OpenAI-compatible adapters can enforce it natively
+  responseSchema?: Record<string, unknown>
+  stream: boolean
+  // Optional fields the provider rejected before; the adapter leaves them out of the body
+  omitFields?: readonly LLMOptionalField[]
+}
+
+export type LLMProviderTarget = ProviderTransport & {
+  kind: LLMProviderKind
+}
+
+export type LLMStreamEvent = {
+  delta?: string
+  usage?: Partial<LLMTokenCounts>
+  done?: boolean
+} | null
+
+/**
+ * Translates the provider-neutral chat request into one provider's wire format.
+ * `parseStreamEvent` receives each `data:` payload of the provider's SSE stream.
+ * `buildModelsRequest` / `parseModelsResponse` cover the provider's model listing (`GET /models`).
+ */
+export type LLMProviderAdapter = {
+  buildRequest(target: LLMProviderTarget, req: LLMChatRequest): { url: string; init: RequestInit }
+  parseResponse(data: unknown): { output: string; usage: LLMTokenCounts | null }
+  parseStreamEvent(data: string): LLMStreamEvent
+  buildModelsRequest(target: LLMProviderTarget): { url: string; init: RequestInit }
+  parseModelsResponse(data: unknown): DiscoveredLLMModel[]
+}
+
+const ANTHROPIC_VERSION = '2023-06-01'
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 8192
+
+// Extended-thinking budget used for each reasoning effort level on Anthropic models
+const ANTHROPIC_THINKING_BUDGETS: Record<ReasoningEffort, number> = {
+  low: 1024,
+  medium: 4096,
+  high: 16384,
+}
+
+function endpointHostname(endpoint: string) {
+  try {
+    return new URL(endpoint).hostname
+  } catch {
+    return ''
+  }
+}
+
+function isOpenRouterEndpoint(endpoint: string) {
+  return endpointHostname(endpoint) === 'openrouter.ai'
+}
+
+function openAIGenerationFields(endpoint: string, params: LLMGenerationParams | undefined) {
+  if (!params) return {}
+  const fields: Record<string, unknown> = {}
+  if (params.temperature !== undefined) fields.temperature = params.temperature
+  if (params.topP !== undefined) fields.top_p = params.topP
+  if (params.stop) fields.stop = params.stop
+  if (params.maxTokens !== undefined) {
+    // @@@max-completion-tokens - api.openai.com rejects `max_tokens` for reasoning models; compatible servers only know `max_tokens`
+    fields[endpointHostname(endpoint) === 'api.openai.com' ? 'max_completion_tokens' : 'max_tokens'] = params.maxTokens
+  }
+  if (params.reasoningEffort) {
+    if (isOpenRouterEndpoint(endpoint)) fields.reasoning = { effort: params.reasoningEffort }
+    else fields.reasoning_effort = params.reasoningEffort
+  }
+  return fields
+}
+
+function anthropicGenerationFields(params: LLMGenerationParams | undefined) {
+  const fields: Record<string, unknown> = {}
+  if (params?.temperature !== undefined) fields.temperature = params.temperature
+  if (params?.topP !== undefined) fields.top_p = params.topP
+  if (params?.stop) fields.stop_sequences = params.stop
+
+  if (!params?.reasoningEffort) {
+    fields.max_tokens = params?.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS
+    return fields
+  }
+
+  // @@@anthropic-thinking - the thinking budget counts against max_tokens, so it must stay strictly below it
+  const budget = ANTHROPIC_THINKING_BUDGETS[params.reasoningEffort]
+  const maxTokens = params.maxTokens ?? budget + ANTHROPIC_DEFAULT_MAX_TOKENS
+  if (maxTokens <= budget) {
+    throw new Error(
+      `maxTokens must be greater than ${budget} when reasoningEffort is "${params.reasoningEffort}" on Anthropic models`,
+    )
+  }
+  fields.max_tokens = maxTokens
+  fields.thinking = { type: 'enabled', budget_tokens: budget }
+  return fields
+}
+
+function readModelList(data: unknown) {
+  const list = (data as { data?: unknown } | null)?.data
+  if (!Array.isArray(list)) throw new Error(`Unexpected model list response: ${JSON.stringify(data).slice(0, 1000)}`)
+  return list.filter((m): m is Record<string, unknown> => !!m && typeof m === 'object' && typeof m.id === 'string')
+}
+
+function readTokenCount(value: unknown) {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined
+}
+
+function parseStreamJson(data: string): Record<string, unknown> {
+  try {
+    return JSON.parse(data) as Record<string, unknown>
+  } catch {
+    throw new Error(`Unexpected LLM stream chunk: ${data.slice(0, 500)}`)
+  }
+}
+
+function openAIHeaders(target: LLMProviderTarget) {
+  // Add OpenRouter-specific headers only for OpenRouter
+  const extra: Record<string, string> = isOpenRouterEndpoint(target.endpoint)
+    ? { 'HTTP-Referer': 'http://localhost:5173', 'X-Title': 'SpecFlow' }
+    : {}
+  return buildProviderHeaders(target, 'bearer', extra)
+}
+
+function anthropicHeaders(target: LLMProviderTarget) {
+  return buildProviderHeaders(target, 'x-api-key', { 'anthropic-version': ANTHROPIC_VERSION })
+}
+
+const openAIAdapter: LLMProviderAdapter = {
+  buildRequest(target, req) {
+    const headers = openAIHeaders(target)
+    return {
+      // Ensure endpoint ends with /chat/completions for OpenAI-compatible APIs
+      url: buildChatUrl(target, '/chat/completions', req.model),
+      init: {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: req.model,
+          messages: [{ role: 'system', content: req.systemPrompt }, ...req.messages],
+          ...openAIGenerationFields(target.endpoint, req.params),
+          ...(req.responseSchema && !req.omitFields?.includes('response_format')
+            ? {
+                response_format: {
+                  type: 'json_schema',
+                  json_schema: { name: 'structured_output', schema: req.responseSchema, strict: false },
+                },
+              }
+            : {}),
+          // @@@stream-usage - usage arrives in a final chunk with empty `choices` only when asked for
+          ...(req.stream ? { stream: true } : {}),
+          ...(req.stream && !req.omitFields?.includes('stream_options') ? { stream_options: { include_usage: true } } : {}),
+        }),
+      },
+    }
+  },
+
+  parseResponse(data) {
+    const body = data as {
+      choices?: { message?: { content?: unknown } }[]
+      usage?: { prompt_tokens?: unknown; completion_tokens?: unknown }
+    } | null
+    const content = body?.choices?.[0]?.message?.content
+    if (typeof content !== 'string') {
+      throw new Error(`Unexpected LLM API response: ${JSON.stringify(data)}`)
+    }
+    const promptTokens = readTokenCount(body?.usage?.prompt_tokens)
+    const completionTokens = readTokenCount(body?.usage?.completion_tokens)
+    return {
+      output: content,
+      usage: promptTokens !== undefined && completionTokens !== undefined ? { promptTokens, completionTokens } : null,
+    }
+  },
+
+  parseStreamEvent(data) {
+    if (data === '[DONE]') return { done: true }
+    const chunk = parseStreamJson(data) as {
+      choices?: { delta?: { content?: unknown } }[]
+      usage?: { prompt_tokens?: unknown; completion_tokens?: unknown } | null
+      error?: unknown
+    }
+    if (chunk.error) throw new Error(`LLM API error: ${JSON.stringify(chunk.error)}`)
+    const content = chunk.choices?.[0]?.delta?.content
+    const delta = typeof content === 'string' && content ? content : undefined
+    const usage = chunk.usage
+      ? {
+          promptTokens: readTokenCount(chunk.usage.prompt_tokens),
+          completionTokens: readTokenCount(chunk.usage.completion_tokens),
+        }
+      : undefined
+    if (!delta && !usage) return null
+    return { delta, usage }
+  },
+
+  buildModelsRequest(target) {
+    return { url: buildModelsUrl(target), init: { method: 'GET', headers: openAIHeaders(target) } }
+  },
+
+  parseModelsResponse(data) {
+    return readModelList(data).map((m) => {
+      // @@@context-window-fields - OpenRouter reports `context_length`; other compatible servers vary
+      const topProvider = m.top_provider as { context_length?: unknown } | undefined
+      const contextWindow = [m.context_length, m.context_window, m.max_context_length, topProvider?.context_length]
+        .map(readTokenCount)
+        .find((n) => n !== undefined && n > 0)
+      return {
+        id: m.id as string,
+        ...(typeof m.name === 'string' && m.name ? { name: m.name } : {}),
+        ...(contextWindow ? { contextWindow } : {}),
+      }
+    })
+  },
+}
+
+const anthropicAdapter: LLMProviderAdapter = {
+  buildRequest(target, req) {
+    return {
+      url: buildChatUrl(target, '/messages', req.model),
+      init: {
+        method: 'POST',
+        headers: anthropicHeaders(target),
+        body: JSON.stringify({
+          model: req.model,
+          // @@@anthropic-system - Messages API takes the system prompt as a top-level field, not a message
+          ...(req.systemPrompt ? { system: req.systemPrompt } : {}),
+          messages: req.messages,
+          ...anthropicGenerationFields(req.params),
+          ...(req.stream ? { stream: true } : {}),
+        }),
+      },
+    }
+  },
+
+  parseResponse(data) {
+    const body = data as { content?: unknown; usage?: { input_tokens?: unknown; output_tokens?: unknown } } | null
+    const content = body?.content
+    if (!Array.isArray(content)) {
+      throw new Error(`Unexpected LLM API response: ${JSON.stringify(data)}`)
+    }
+    const output = content
+      .filter((block): block is { type: 'text'; text: string } => block?.type === 'text' && typeof block.text === 'string')
+      .map((block) => block.text)
+      .join('')
+    const promptTokens = readTokenCount(body?.usage?.input_tokens)
+    const completionTokens = readTokenCount(body?.usage?.output_tokens)
+    return {
+      output,
+      usage: promptTokens !== undefined && completionTokens !== undefined ? { promptTokens, completionTokens } : null,
+    }
+  },
+
+  parseStreamEvent(data) {
+    const event = parseStreamJson(data) as {
+      type?: unknown
+      delta?: { type?: unknown; text?: unknown }
+      message?: { usage?: { input_tokens?: unknown; output_tokens?: unknown } }
+      usage?: { output_tokens?: unknown }
+      error?: unknown
+    }
+    if (event.type === 'error') throw new Error(`LLM API error: ${JSON.stringify(event.error)}`)
+    if (event.type === 'message_stop') return { done: true }
+    // @@@anthropic-stream-usage - input tokens come with message_start, the cumulative output count with message_delta
+    if (event.type === 'message_start') {
+      const usage = event.message?.usage
+      return {
+        usage: {
+          promptTokens: readTokenCount(usage?.input_tokens),
+          completionTokens: readTokenCount(usage?.output_tokens),
+        },
+      }
+    }
+    if (event.type === 'message_delta') {
+      return { usage: { completionTokens: readTokenCount(event.usage?.output_tokens) } }
+    }
+    if (event.type !== 'content_block_delta') return null
+    if (event.delta?.type !== 'text_delta' || typeof event.delta.text !== 'string' || !event.delta.text) return null
+    return { delta: event.delta.text }
+  },
+
+  buildModelsRequest(target) {
+    return {
+      url: buildModelsUrl(target, { limit: '1000' }),
+      init: { method: 'GET', headers: anthropicHeaders(target) },
+    }
+  },
+
+  parseModelsResponse(data) {
+    return readModelList(data).map((m) => {
+      const contextWindow = readTokenCount(m.max_input_tokens)
+      return {
+        id: m.id as string,
+        ...(typeof m.display_name === 'string' && m.display_name ? { name: m.display_name } : {}),
+        ...(contextWindow ? { contextWindow } : {}),
+      }
+    })
+  },
+}
+
+// `mock` providers have no wire format; openRouter.ts answers them before an adapter is needed
+const ADAPTERS: Partial<Record<LLMProviderKind, LLMProviderAdapter>> = {
+  openai: openAIAdapter,
+  anthropic: anthropicAdapter,
+}
+
+export function getLLMProviderAdapter(kind: LLMProviderKind): LLMProviderAdapter {
+  const adapter = ADAPTERS[kind]
+  if (!adapter) throw new Error(`Unsupported LLM provider kind: ${kind}`)
+  return adapter
+}
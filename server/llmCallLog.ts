@@ -0,0 +1,44 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { LLMUsage } from '../shared/appDataTypes.js'
+import type { RetryAttempt } from './retry.js'
+import { config } from './config.js'
+
+export type LLMCallLogEntry = {
+  id: string
+  startedAt: string
+  durationMs: number
+  model: string
+  endpoint: string
+  stream: boolean
+  ok: boolean
+  error?: string
+  cancelled?: boolean
+  usage?: LLMUsage | null
+  attempts: RetryAttempt[]
+}
+
+const logDir = config.paths.logsDir
+const logPath = path.join(logDir, 'llm-calls.jsonl')
+
+export async function appendLLMCallLog(entry: LLMCallLogEntry) {
+  await mkdir(logDir, { recursive: true })
+  await appendFile(logPath, `${JSON.stringify(entry)}\n`, 'utf-8')
+}
+
+export async function readRecentLLMCallLogs(limit: number) {
+  const n = Math.max(1, Math.min(200, limit))
+  const raw = await readFile(logPath, 'utf-8').catch(() => '')
+  if (!raw.trim()) return []
+  const lines = raw.trimEnd().split('\n')
+  const tail = lines.slice(Math.max(0, lines.length - n))
+  return tail
+    .map((line) => {
+      try {
+        return JSON.parse(line) as LLMCallLogEntry
+      } catch {
+        return null
+      }
+    })
+    .filter(Boolean) as LLMCallLogEntry[]
+}
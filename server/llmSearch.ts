@@ -0,0 +1,62 @@
+import { DEFAULT_CODE_SEARCH_BUDGET } from '../shared/codeSearchBudget.js'
+import { getLLMProviderByModel, type LLMProviderConfig } from './appData.js'
+import type { CodeSearchRunArgs, CodeSearchRunResult } from './codeSearchTypes.js'
+import { buildChatUrl, buildProviderHeaders } from './providerRequest.js'
+import { postToolModelRequest, runSearchAgent, type SearchAgentMessage, type SearchAgentTool } from './searchAgent.js'
+
+type ToolModelTarget = NonNullable<LLMProviderConfig>
+
+// Relace accepts the strict tool schemas as-is; OpenAI's strict mode rejects the open-ended `files` map, so send them non-strict
+function nonStrictTools(tools: readonly SearchAgentTool[]) {
+  return tools.map((tool) => ({ ...tool, function: { ...tool.function, strict: false } }))
+}
+
+function callToolModelOnce(
+  target: ToolModelTarget,
+  model: string,
+  messages: SearchAgentMessage[],
+  tools: readonly SearchAgentTool[],
+  timeoutMs: number,
+  signal?: AbortSignal,
+) {
+  return postToolModelRequest({
+    label: 'LLM',
+    url: buildChatUrl(target, '/chat/completions', model),
+    headers: buildProviderHeaders(target, 'bearer', {}),
+    body: { model, messages, tools: nonStrictTools(tools), tool_choice: 'auto' },
+    timeoutMs,
+    signal,
+  })
+}
+
+/**
+ * Runs the agentic search loop (the one Relace uses) against a configured LLM model with tool calling.
+ * Only OpenAI-compatible providers are supported; the model's provider supplies endpoint, key and retries.
+ */
+export async function runLLMAgentSearch(args: CodeSearchRunArgs): Promise<CodeSearchRunResult> {
+  const model = args.model?.trim()
+  if (!model) throw new Error('LLM agent search needs a model: pick one on the Code Search node or in API settings')
+  const target = await getLLMProviderByModel(model)
+  if (!target) throw new Error(`No LLM provider with an endpoint and API key is configured for model: ${model}`)
+  if (target.kind !== 'openai') {
+    throw new Error(`LLM agent search needs an OpenAI-compatible provider with tool calling; ${model} is served by a ${target.kind} provider`)
+  }
+
+  const budget = args.budget ?? DEFAULT_CODE_SEARCH_BUDGET
+  return runSearchAgent({
+    provider: `llm:${model}`,
+    callModel: (messages, tools, signal) => callToolModelOnce(target, model, messages, tools, budget.callTimeoutSec * 1000, signal),
+    repoRoot: args.repoRoot,
+    userQuery: args.userQuery,
+    budget,
+    maxAttempts: target.maxAttempts,
+    signal: args.signal,
+    allowBash: args.allowBash,
+    ignorePatterns: args.ignorePatterns,
+    onProgress: args.onProgress,
+    debugMessages: args.debugMessages,
+    runId: args.runId,
+    dumpMessages: args.debugMessages,
+    dumpOnError: true,
+  })
+}
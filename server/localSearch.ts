@@ -0,0 +1,304 @@
+import { readFile, stat } from 'node:fs/promises'
+import path from 'node:path'
+import { execFile } from 'node:child_process'
+import { promisify } from 'node:util'
+import { ripgrepIgnoreArgs } from './ignoreRules.js'
+import { mergeRanges, type LineRange } from './rangeUtils.js'
+import type { CodeSearchRunArgs, CodeSearchRunResult } from './codeSearchTypes.js'
+
+const execFileAsync = promisify(execFile)
+
+const MAX_TERMS = 12
+const MAX_FILES = 8
+const MAX_RANGES_PER_FILE = 6
+const HIT_CONTEXT_LINES = 4
+// Nearby hits closer than this are reported as one range
+const RANGE_JOIN_GAP = 6
+// Files that only match by path get their head, where imports and declarations live
+const PATH_ONLY_HEAD_LINES = 40
+const MAX_FILE_BYTES = '1M'
+
+// BM25 parameters (the usual defaults)
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+// Identifier-like terms (`fooBar`, `foo_bar`, `Foo.bar`, backticked) say more than plain words
+const IDENTIFIER_WEIGHT = 2
+const PATH_NAME_BOOST = 1.5
+const PATH_DIR_BOOST = 0.5
+const TEST_PATH_FACTOR = 0.5
+const GENERATED_PATH_FACTOR = 0.2
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'code', 'codebase', 'do', 'does', 'done', 'file', 'files',
+  'find', 'for', 'from', 'get', 'handle', 'handled', 'handles', 'how', 'implemented', 'in', 'into', 'is', 'it', 'its',
+  'logic', 'look', 'of', 'on', 'or', 'show', 'that', 'the', 'their', 'there', 'this', 'to', 'used', 'uses', 'what',
+  'when', 'where', 'which', 'who', 'why', 'with', 'work', 'works',
+])
+
+const TEST_PATH_RE = /(^|\/)(tests?|__tests__|spec|specs|fixtures?|__mocks__)\/|\.(test|spec)\.[^/]+$/i
+const GENERATED_PATH_RE = /(^|\/)(dist|build|out|coverage|vendor)\/|\.min\.[^/]+$|\.map$|(^|\/)(package-lock\.json|pnpm-lock\.yaml|yarn\.lock)$/i
+
+type QueryTerm = { text: string; weight: number }
+
+type FileHits = {
+  // Per term: number of matching lines
+  termLines: Map<string, number>
+  lines: number[]
+}
+
+type ScoredFile = {
+  path: string
+  score: number
+  matchedTerms: string[]
+  lines: number[]
+}
+
+function splitIdentifier(identifier: string) {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .map((part) => part.toLowerCase())
+}
+
+function isIdentifierLike(token: string) {
+  return /[a-z][A-Z]|_|\.|^[A-Z][a-z]+[A-Z]/.test(token)
+}
+
+/**
+ * Keywords of a natural-language query: identifiers are kept whole (and weighted up) and also split into their
+ * camelCase / snake_case parts, so `getUserById` finds both the exact symbol and prose about "user".
+ */
+export function extractQueryTerms(query: string): QueryTerm[] {
+  const terms = new Map<string, number>()
+  const add = (text: string, weight: number) => {
+    const key = text.toLowerCase()
+    if (key.length < 3 || STOPWORDS.has(key)) return
+    terms.set(key, Math.max(terms.get(key) ?? 0, weight))
+  }
+
+  for (const m of query.matchAll(/`([^`]+)`/g)) {
+    add(m[1].trim(), IDENTIFIER_WEIGHT)
+    for (const part of splitIdentifier(m[1])) add(part, 1)
+  }
+  for (const token of query.replace(/`[^`]*`/g, ' ').match(/[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*/g) ?? []) {
+    if (isIdentifierLike(token)) {
+      add(token, IDENTIFIER_WEIGHT)
+      for (const part of splitIdentifier(token)) add(part, 1)
+    } else {
+      add(token, 1)
+    }
+  }
+
+  // @@@term-cap - keep the heaviest terms; Map order keeps query order among equals
+  return [...terms.entries()]
+    .map(([text, weight]) => ({ text, weight }))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_TERMS)
+}
+
+async function runRipgrep(repoRoot: string, rgArgs: string[], signal?: AbortSignal) {
+  try {
+    const { stdout } = await execFileAsync('rg', rgArgs, { cwd: repoRoot, maxBuffer: 32 * 1024 * 1024, signal })
+    return stdout
+  } catch (err: unknown) {
+    // rg exits 1 when nothing matched
+    if ((err as { code?: unknown }).code === 1) return ''
+    signal?.throwIfAborted()
+    if ((err as { code?: unknown }).code === 'ENOENT') {
+      throw new Error('Local search needs ripgrep (`rg`) on the PATH')
+    }
+    const stderr = (err as { stderr?: unknown }).stderr
+    const details = typeof stderr === 'string' ? stderr.trim() : ''
+    throw new Error(`Local search ripgrep failed: ${details || (err instanceof Error ? err.message : String(err))}`)
+  }
+}
+
+// rg honours .gitignore, the configured ignore patterns and skips hidden files, so the candidate set matches what
+// a developer would search; BM25 document counts come from this list too
+async function listRepoFiles(repoRoot: string, ignorePatterns?: string[], signal?: AbortSignal) {
+  const stdout = await runRipgrep(
+    repoRoot,
+    ['--files', '--max-filesize', MAX_FILE_BYTES, ...ripgrepIgnoreArgs(ignorePatterns)],
+    signal,
+  )
+  return stdout.split('\n').filter(Boolean).map((p) => p.split(path.sep).join('/'))
+}
+
+async function collectHits(repoRoot: string, terms: QueryTerm[], ignorePatterns?: string[], signal?: AbortSignal) {
+  const rgArgs = [
+    '--line-number',
+    '--no-heading',
+    '--color',
+    'never',
+    '--ignore-case',
+    '--fixed-strings',
+    '--max-columns',
+    '400',
+    '--max-filesize',
+    MAX_FILE_BYTES,
+    ...ripgrepIgnoreArgs(ignorePatterns),
+    ...terms.flatMap((term) => ['-e', term.text]),
+  ]
+  const stdout = await runRipgrep(repoRoot, rgArgs, signal)
+
+  const hits = new Map<string, FileHits>()
+  for (const line of stdout.split('\n')) {
+    const m = /^(.+?):(\d+):(.*)$/.exec(line)
+    if (!m) continue
+    const [, relPath, lineNo, text] = m
+    const filePath = relPath.split(path.sep).join('/')
+    const entry = hits.get(filePath) ?? { termLines: new Map<string, number>(), lines: [] }
+    entry.lines.push(Number(lineNo))
+    const lower = text.toLowerCase()
+    for (const term of terms) {
+      if (lower.includes(term.text)) entry.termLines.set(term.text, (entry.termLines.get(term.text) ?? 0) + 1)
+    }
+    hits.set(filePath, entry)
+  }
+  return hits
+}
+
+function pathScore(filePath: string, terms: QueryTerm[], idf: Map<string, number>) {
+  const lower = filePath.toLowerCase()
+  const base = path.posix.basename(lower)
+  const dir = path.posix.dirname(lower)
+  let score = 0
+  const matched: string[] = []
+  for (const term of terms) {
+    const weight = term.weight * (idf.get(term.text) ?? 0)
+    if (base.includes(term.text)) {
+      score += PATH_NAME_BOOST * weight
+      matched.push(term.text)
+    } else if (dir.includes(term.text)) {
+      score += PATH_DIR_BOOST * weight
+      matched.push(term.text)
+    }
+  }
+  return { score, matched }
+}
+
+// @@@local-search-rank - BM25 over matching lines (document length = file size), plus path matches,
+// scaled by how many distinct terms a file covers and damped for tests and generated files
+async function rankFiles(
+  repoRoot: string,
+  repoFiles: string[],
+  hits: Map<string, FileHits>,
+  terms: QueryTerm[],
+  mentionsTests: boolean,
+): Promise<ScoredFile[]> {
+  const totalDocs = Math.max(repoFiles.length, hits.size, 1)
+  const idf = new Map<string, number>()
+  for (const term of terms) {
+    let df = 0
+    for (const entry of hits.values()) if (entry.termLines.has(term.text)) df++
+    for (const filePath of repoFiles) if (!hits.has(filePath) && filePath.toLowerCase().includes(term.text)) df++
+    idf.set(term.text, Math.log(1 + (totalDocs - df + 0.5) / (df + 0.5)))
+  }
+
+  const candidates = new Set(hits.keys())
+  for (const filePath of repoFiles) {
+    if (pathScore(filePath, terms, idf).score > 0) candidates.add(filePath)
+  }
+
+  const sizes = new Map<string, number>()
+  await Promise.all(
+    [...candidates].map(async (filePath) => {
+      const info = await stat(path.join(repoRoot, filePath)).catch(() => null)
+      sizes.set(filePath, Math.max(info?.size ?? 1, 1))
+    }),
+  )
+  const avgSize = [...sizes.values()].reduce((a, b) => a + b, 0) / Math.max(sizes.size, 1)
+
+  const scored: ScoredFile[] = []
+  for (const filePath of candidates) {
+    const entry = hits.get(filePath)
+    const norm = 1 - BM25_B + BM25_B * ((sizes.get(filePath) ?? avgSize) / avgSize)
+    let score = 0
+    const matched = new Set<string>()
+    for (const term of terms) {
+      const tf = entry?.termLines.get(term.text) ?? 0
+      if (tf === 0) continue
+      matched.add(term.text)
+      score += term.weight * (idf.get(term.text) ?? 0) * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm))
+    }
+    const byPath = pathScore(filePath, terms, idf)
+    score += byPath.score
+    for (const term of byPath.matched) matched.add(term)
+
+    score *= 1 + matched.size / terms.length
+    if (!mentionsTests && TEST_PATH_RE.test(filePath)) score *= TEST_PATH_FACTOR
+    if (GENERATED_PATH_RE.test(filePath)) score *= GENERATED_PATH_FACTOR
+    if (score <= 0) continue
+    scored.push({ path: filePath, score, matchedTerms: [...matched], lines: entry?.lines ?? [] })
+  }
+
+  return scored.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path)).slice(0, MAX_FILES)
+}
+
+// Counted the way pathValidator counts them, so reported ranges never end past the last line
+async function countLines(filePath: string) {
+  const content = await readFile(filePath, 'utf-8').catch(() => null)
+  if (content === null) return null
+  if (content === '') return 0
+  const lines = content.split('\n').length
+  return content.endsWith('\n') ? lines - 1 : lines
+}
+
+// Hits widened by a few lines of context; the densest ranges win when a file has too many
+function hitRanges(lines: number[], lineCount: number | null): LineRange[] {
+  // An empty file has no line to point at; `[1, -1]` is the whole-file range pathValidator accepts for it
+  if (lineCount === 0) return [[1, -1]]
+  const clampEnd = (end: number) => (lineCount === null ? end : Math.min(end, lineCount))
+  if (lines.length === 0) return [[1, clampEnd(PATH_ONLY_HEAD_LINES)]]
+
+  // Padding each range by the join gap lets mergeRanges join near neighbours; the padding is removed afterwards
+  const widened = lines.map((n): LineRange => [Math.max(1, n - HIT_CONTEXT_LINES), n + HIT_CONTEXT_LINES + RANGE_JOIN_GAP])
+  const merged = mergeRanges(widened).map(([start, end]): LineRange => [start, Math.max(start, clampEnd(end - RANGE_JOIN_GAP))])
+  const density = (r: LineRange) => lines.filter((n) => n >= r[0] && n <= r[1]).length
+  return merged
+    .map((r) => ({ r, hits: density(r) }))
+    .sort((a, b) => b.hits - a.hits || a.r[0] - b.r[0])
+    .slice(0, MAX_RANGES_PER_FILE)
+    .map((x) => x.r)
+    .sort((a, b) => a[0] - b[0])
+}
+
+/**
+ * Fully local code search: ripgrep for the query's keywords and identifiers, BM25-style file ranking with path
+ * heuristics, and hits expanded into line ranges. Nothing leaves the machine and no API key is needed.
+ */
+export async function runLocalSearch(args: CodeSearchRunArgs): Promise<CodeSearchRunResult> {
+  const info = await stat(args.repoRoot).catch(() => null)
+  if (!info?.isDirectory()) throw new Error(`Repo path is not a directory: ${args.repoRoot}`)
+
+  const terms = extractQueryTerms(args.userQuery)
+  if (terms.length === 0) {
+    return { report: { explanation: 'Local search: the query has no searchable keywords.', files: {} }, trace: [] }
+  }
+  const trace = [{ turn: 1, toolCalls: [`rg --files`, `rg ${terms.map((t) => t.text).join(' ')}`] }]
+
+  const [repoFiles, hits] = await Promise.all([
+    listRepoFiles(args.repoRoot, args.ignorePatterns, args.signal),
+    collectHits(args.repoRoot, terms, args.ignorePatterns, args.signal),
+  ])
+  const mentionsTests = terms.some((t) => /^(test|tests|spec|specs)$/.test(t.text))
+  const ranked = await rankFiles(args.repoRoot, repoFiles, hits, terms, mentionsTests)
+
+  const files: Record<string, LineRange[]> = {}
+  for (const file of ranked) {
+    files[file.path] = hitRanges(file.lines, await countLines(path.join(args.repoRoot, file.path)))
+  }
+
+  const termList = terms.map((t) => t.text).join(', ')
+  const explanation =
+    ranked.length === 0
+      ? `Local search: no files matched any of: ${termList}.`
+      : [
+          `Local keyword search (BM25) for: ${termList}.`,
+          '',
+          ...ranked.map((f) => `- ${f.path} (score ${f.score.toFixed(2)}; matched ${f.matchedTerms.join(', ')})`),
+        ].join('\n')
+
+  return { report: { explanation, files }, trace }
+}
@@ -0,0 +1,153 @@
+import { readFile, stat } from 'node:fs/promises'
+import path from 'node:path'
+import { execFile } from 'node:child_process'
+import { promisify } from 'node:util'
+import type { MockLLMRule } from '../shared/appDataTypes.js'
+import type { LLMTokenCounts } from '../shared/llmUsage.js'
+import type { LLMChatMessage } from './llmAdapters.js'
+import { mergeRanges, type LineRange } from './rangeUtils.js'
+import type { CodeSearchRunResult, SearchTraceEntry } from './codeSearchTypes.js'
+import { validateReportedFiles } from './pathValidator.js'
+import { config } from './config.js'
+import { estimateTokens } from './tokenBudget.js'
+
+const execFileAsync = promisify(execFile)
+
+const MOCK_SEARCH_MAX_TERMS = 8
+const MOCK_SEARCH_MAX_FILES = 8
+const MOCK_SEARCH_MAX_RANGES_PER_FILE = 5
+const MOCK_SEARCH_CONTEXT_LINES = 3
+
+const QUERY_STOPWORDS = new Set([
+  'and', 'are', 'the', 'this', 'that', 'what', 'where', 'which', 'with', 'how', 'does', 'for', 'from',
+  'into', 'codebase', 'code', 'handled', 'find', 'show', 'when', 'why', 'who', 'all', 'any',
+])
+
+async function pickMockReply(rules: MockLLMRule[], prompt: string): Promise<string | null> {
+  for (const rule of rules) {
+    if (!rule.pattern || !rule.responseFile) continue
+    let re: RegExp
+    try {
+      re = new RegExp(rule.pattern, 'i')
+    } catch (err: unknown) {
+      throw new Error(`Invalid mock rule pattern /${rule.pattern}/: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    if (!re.test(prompt)) continue
+    const filePath = path.resolve(config.mockResponsesDir, rule.responseFile)
+    // @@@mock-file-containment - rules come from settings, so a response file must not reach outside the mock dir
+    const relative = path.relative(config.mockResponsesDir, filePath)
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Mock response file for /${rule.pattern}/ must be inside ${config.mockResponsesDir}: ${rule.responseFile}`)
+    }
+    try {
+      return await readFile(filePath, 'utf-8')
+    } catch (err: unknown) {
+      throw new Error(`Mock response file for /${rule.pattern}/ not readable (${rule.responseFile}): ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  return null
+}
+
+/**
+ * Deterministic stand-in for a chat model: the first rule matching the latest user message answers with its
+ * response file (re-read on every call, so edits apply immediately); without a match the message is echoed back.
+ */
+export async function runMockChat(args: {
+  rules?: MockLLMRule[]
+  systemPrompt: string
+  messages: LLMChatMessage[]
+}): Promise<{ output: string; usage: LLMTokenCounts }> {
+  const prompt = [...args.messages].reverse().find(m => m.role === 'user')?.content ?? ''
+  const output = (await pickMockReply(args.rules ?? [], prompt)) ?? prompt
+  const promptText = [args.systemPrompt, ...args.messages.map(m => m.content)].join('\n')
+  return { output, usage: { promptTokens: estimateTokens(promptText), completionTokens: estimateTokens(output) } }
+}
+
+/**
+ * Splits a mock reply into word-sized deltas so streaming UIs see more than one chunk.
+ */
+export function splitMockStream(output: string): string[] {
+  return output.match(/\S+\s*|\s+/g) ?? []
+}
+
+function queryTerms(query: string) {
+  const words = query.toLowerCase().match(/[a-z_][a-z0-9_]{2,}/g) ?? []
+  return [...new Set(words.filter(w => !QUERY_STOPWORDS.has(w)))].slice(0, MOCK_SEARCH_MAX_TERMS)
+}
+
+async function grepRepo(repoRoot: string, terms: string[], signal?: AbortSignal) {
+  // A missing cwd would otherwise surface as a confusing `spawn grep ENOENT`
+  const info = await stat(repoRoot).catch(() => null)
+  if (!info?.isDirectory()) throw new Error(`Repo path is not a directory: ${repoRoot}`)
+  const grepArgs = [
+    '-rnIiF',
+    '--exclude-dir=.git',
+    '--exclude-dir=node_modules',
+    ...terms.flatMap(term => ['-e', term]),
+    '.',
+  ]
+  try {
+    const { stdout } = await execFileAsync('grep', grepArgs, { cwd: repoRoot, maxBuffer: 16 * 1024 * 1024, signal })
+    return stdout
+  } catch (err: unknown) {
+    // grep exits 1 when nothing matched
+    if ((err as { code?: unknown }).code === 1) return ''
+    signal?.throwIfAborted()
+    const stderr = (err as { stderr?: unknown }).stderr
+    const details = typeof stderr === 'string' ? stderr.trim() : ''
+    throw new Error(`Mock search grep failed: ${details || (err instanceof Error ? err.message : String(err))}`)
+  }
+}
+
+/**
+ * Offline stand-in for Relace search: greps the repo for the query's words and reports the files that
+ * mention the most distinct words, with a few lines of context around each hit.
+ */
+export async function runMockSearch(args: {
+  repoRoot: string
+  userQuery: string
+  signal?: AbortSignal
+}): Promise<CodeSearchRunResult> {
+  const terms = queryTerms(args.userQuery)
+  if (terms.length === 0) {
+    return { report: { explanation: 'Mock search: the query has no searchable words.', files: {} }, trace: [] }
+  }
+  const trace: SearchTraceEntry[] = [{ turn: 1, toolCalls: [`grep ${terms.join(' ')}`] }]
+
+  const stdout = await grepRepo(args.repoRoot, terms, args.signal)
+  const hits = new Map<string, { lines: number[]; terms: Set<string> }>()
+  for (const line of stdout.split('\n')) {
+    const m = /^\.\/(.+?):(\d+):(.*)$/.exec(line)
+    if (!m) continue
+    const [, relPath, lineNo, text] = m
+    const entry = hits.get(relPath) ?? { lines: [], terms: new Set<string>() }
+    entry.lines.push(Number(lineNo))
+    const lower = text.toLowerCase()
+    for (const term of terms) if (lower.includes(term)) entry.terms.add(term)
+    hits.set(relPath, entry)
+  }
+
+  // @@@mock-search-rank - distinct words first, then hit count, then path so equal inputs give equal reports
+  const ranked = [...hits.entries()]
+    .sort(([aPath, a], [bPath, b]) =>
+      b.terms.size - a.terms.size || b.lines.length - a.lines.length || aPath.localeCompare(bPath))
+    .slice(0, MOCK_SEARCH_MAX_FILES)
+
+  const files: Record<string, LineRange[]> = {}
+  for (const [relPath, entry] of ranked) {
+    const ranges = entry.lines.map((n): LineRange => [
+      Math.max(1, n - MOCK_SEARCH_CONTEXT_LINES),
+      n + MOCK_SEARCH_CONTEXT_LINES,
+    ])
+    files[relPath] = mergeRanges(ranges).slice(0, MOCK_SEARCH_MAX_RANGES_PER_FILE)
+  }
+  // Context past the last line is clamped the same way real providers' reports are
+  const validation = await validateReportedFiles(args.repoRoot, files)
+  if (validation.rangeCorrections.length > 0) trace[0].rangeCorrections = validation.rangeCorrections
+
+  const explanation =
+    ranked.length === 0
+      ? `Mock search: no files mention ${terms.join(', ')}.`
+      : `Mock search: ${ranked.length} of ${hits.size} matching files for ${terms.join(', ')}.`
+  return { report: { explanation, files: validation.files }, trace }
+}
@@ -1,84 +1,301 @@
 import { readFile } from 'node:fs/promises'
-import path from 'node:path'
-import { getLLMProviderByModel } from './appData.js'
+import { getLLMProviderByModel, type LLMProviderConfig } from './appData.js'
+import {
+  getLLMProviderAdapter,
+  type LLMChatMessage,
+  type LLMOptionalField,
+  type LLMProviderAdapter,
+  type LLMProviderTarget,
+} from './llmAdapters.js'
+import { priceLLMUsage, type LLMTokenCounts } from '../shared/llmUsage.js'
+import type { DiscoveredLLMModel, LLMGenerationParams, LLMPricing, LLMUsage } from '../shared/appDataTypes.js'
+import { appendLLMCallLog } from './llmCallLog.js'
+import { runMockChat, splitMockStream } from './mockProviders.js'
+import {
+  attemptSignal,
+  HttpStatusError,
+  normalizeTimeoutMs,
+  parseRetryAfter,
+  withRetry,
+  type RetryAttempt,
+} from './retry.js'
+import { readSseBody } from './sse.js'
+import { config } from './config.js'
 
 const OPENROUTER_BASE_ENDPOINT = 'https://openrouter.ai/api/v1'
-
-function isOpenRouterEndpoint(endpoint: string) {
-  try {
-    return new URL(endpoint).hostname === 'openrouter.ai'
-  } catch {
-    return false
-  }
-}
+const MOCK_ENDPOINT = 'mock://local'
 
 async function readKeyFromDotfile() {
-  const keyPath = path.join(process.cwd(), '.llmkey')
-  const key = (await readFile(keyPath, 'utf-8')).trim()
+  const key = (await readFile(config.paths.llmKeyFile, 'utf-8')).trim()
   if (!key) throw new Error('Empty .llmkey')
   return key
 }
 
-export async function runOpenRouterChat(args: {
+export type ChatArgs = {
   model: string
   systemPrompt: string
   userPrompt: string
-}) {
-  // Try to get provider config from settings first
-  const providerConfig = await getLLMProviderByModel(args.model)
-  
-  let endpoint: string
-  let apiKey: string
-  let modelId: string
-  
-  if (providerConfig) {
-    // Use provider config from settings
-    endpoint = providerConfig.endpoint
-    apiKey = providerConfig.apiKey
-    modelId = args.model
-  } else {
-    // Fall back to OpenRouter with .llmkey file
-    endpoint = OPENROUTER_BASE_ENDPOINT
-    apiKey = await readKeyFromDotfile()
-    modelId = args.model
-  }
+  params?: LLMGenerationParams
+  // Extra turns after the user prompt, e.g. a rejected reply plus a repair request
+  followUp?: LLMChatMessage[]
+  responseSchema?: Record<string, unknown>
+  // Aborts the upstream request (including retry waits) when the client goes away
+  signal?: AbortSignal
+}
 
-  // Ensure endpoint ends with /chat/completions for OpenAI-compatible APIs
-  const chatEndpoint = endpoint.endsWith('/chat/completions')
-    ? endpoint
-    : endpoint.replace(/\/?$/, '/chat/completions')
+export type ChatResult = {
+  output: string
+  usage: LLMUsage | null
+}
 
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${apiKey}`,
-    'Content-Type': 'application/json',
-  }
+type ChatTarget = NonNullable<LLMProviderConfig>
 
-  // Add OpenRouter-specific headers only for OpenRouter
-  if (isOpenRouterEndpoint(endpoint)) {
-    headers['HTTP-Referer'] = 'http://localhost:5173'
-    headers['X-Title'] = 'SpecFlow'
+async function resolveChatTarget(model: string): Promise<ChatTarget> {
+  // Try to get provider config from settings first, otherwise fall back to OpenRouter with .llmkey file
+  return (await getLLMProviderByModel(model)) ?? {
+    kind: 'openai',
+    endpoint: OPENROUTER_BASE_ENDPOINT,
+    apiKey: await readKeyFromDotfile(),
   }
+}
 
-  const res = await fetch(chatEndpoint, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify({
-      model: modelId,
-      messages: [
-        { role: 'system', content: args.systemPrompt },
-        { role: 'user', content: args.userPrompt },
-      ],
-    }),
+function chatMessages(args: ChatArgs): LLMChatMessage[] {
+  return [{ role: 'user', content: args.userPrompt }, ...(args.followUp ?? [])]
+}
+
+type ChatRequest = {
+  adapter: LLMProviderAdapter
+  pricing?: LLMPricing
+  maxAttempts?: number
+  timeoutMs: number
+  url: string
+  init: RequestInit
+}
+
+function buildChatRequest(
+  args: ChatArgs,
+  target: ChatTarget,
+  stream: boolean,
+  omitFields: readonly LLMOptionalField[] = [],
+): ChatRequest {
+  const adapter = getLLMProviderAdapter(target.kind)
+  const { url, init } = adapter.buildRequest(target, {
+    model: args.model,
+    systemPrompt: args.systemPrompt,
+    messages: chatMessages(args),
+    params: args.params,
+    responseSchema: args.responseSchema,
+    stream,
+    omitFields,
   })
+  return {
+    adapter,
+    pricing: target.pricing,
+    maxAttempts: target.maxAttempts,
+    timeoutMs: normalizeTimeoutMs(target.timeoutSec),
+    url,
+    init,
+  }
+}
 
-  const data = await res.json().catch(() => ({}))
-  if (!res.ok) {
-    throw new Error(`LLM API error: ${JSON.stringify(data)}`)
+// @@@optional-field-fallback - chat URL -> optional fields that endpoint answered 400 for, so later calls skip them
+const rejectedOptionalFields = new Map<string, Set<LLMOptionalField>>()
+
+function sentOptionalFields(args: ChatArgs, target: ChatTarget, stream: boolean): LLMOptionalField[] {
+  if (target.kind !== 'openai') return []
+  return [
+    ...(args.responseSchema ? (['response_format'] as const) : []),
+    ...(stream ? (['stream_options'] as const) : []),
+  ]
+}
+
+/**
+ * Runs `send` with the chat request for `target`. When an OpenAI-compatible provider answers 400 and
+ * names an optional field we sent (`response_format`, `stream_options`), the field is remembered for
+ * that endpoint and the call is repeated without it; structured output then relies on the prompt
+ * and repair turns alone, and a stream may end without usage.
+ */
+async function sendWithOptionalFieldFallback<T>(
+  args: ChatArgs,
+  target: ChatTarget,
+  stream: boolean,
+  send: (request: ChatRequest) => Promise<T>,
+): Promise<T> {
+  const url = buildChatRequest(args, target, stream).url
+  const rejected = rejectedOptionalFields.get(url) ?? new Set<LLMOptionalField>()
+  for (;;) {
+    try {
+      return await send(buildChatRequest(args, target, stream, [...rejected]))
+    } catch (err: unknown) {
+      const field =
+        err instanceof HttpStatusError && err.status === 400
+          ? sentOptionalFields(args, target, stream).find((f) => !rejected.has(f) && err.message.includes(f))
+          : undefined
+      if (!field) throw err
+      rejected.add(field)
+      rejectedOptionalFields.set(url, rejected)
+    }
   }
+}
 
-  const content = data?.choices?.[0]?.message?.content
-  if (typeof content !== 'string') {
-    throw new Error(`Unexpected LLM API response: ${JSON.stringify(data)}`)
+async function throwForStatus(res: Response) {
+  const data = await res.json().catch(() => ({}))
+  throw new HttpStatusError(
+    `LLM API error: ${JSON.stringify(data)}`,
+    res.status,
+    parseRetryAfter(res.headers.get('retry-after')),
+  )
+}
+
+/**
+ * Wraps one logical model call: records every retry attempt and appends a line to the LLM call log.
+ */
+async function loggedCall<T extends ChatResult>(
+  args: ChatArgs,
+  meta: { url: string; stream: boolean },
+  run: (onAttempt: (attempt: RetryAttempt) => void) => Promise<T>,
+): Promise<T> {
+  const startedAt = new Date()
+  const attempts: RetryAttempt[] = []
+  const base = {
+    id: globalThis.crypto?.randomUUID?.() ?? `llm_${Date.now()}`,
+    startedAt: startedAt.toISOString(),
+    model: args.model,
+    endpoint: meta.url,
+    stream: meta.stream,
+    attempts,
+  }
+  try {
+    const result = await run((attempt) => attempts.push(attempt))
+    await appendLLMCallLog({ ...base, durationMs: Date.now() - startedAt.getTime(), ok: true, usage: result.usage })
+    return result
+  } catch (err: unknown) {
+    const cancelled = args.signal?.aborted === true
+    const message = cancelled ? 'Cancelled by client' : err instanceof Error ? err.message : String(err)
+    await appendLLMCallLog({
+      ...base,
+      durationMs: Date.now() - startedAt.getTime(),
+      ok: false,
+      error: message,
+      ...(cancelled ? { cancelled } : {}),
+    })
+    throw err
   }
-  return content
+}
+
+// @@@mock-provider - offline replies still go through the call log so runs look the same as real ones
+function runMockTarget(args: ChatArgs, target: ChatTarget, onDelta?: (text: string) => void): Promise<ChatResult> {
+  return loggedCall(args, { url: MOCK_ENDPOINT, stream: onDelta !== undefined }, async () => {
+    args.signal?.throwIfAborted()
+    const { output, usage } = await runMockChat({
+      rules: target.mockRules,
+      systemPrompt: args.systemPrompt,
+      messages: chatMessages(args),
+    })
+    if (onDelta) for (const chunk of splitMockStream(output)) onDelta(chunk)
+    return { output, usage: priceLLMUsage(usage, target.pricing) }
+  })
+}
+
+export async function runOpenRouterChat(args: ChatArgs): Promise<ChatResult> {
+  const target = await resolveChatTarget(args.model)
+  if (target.kind === 'mock') return runMockTarget(args, target)
+  const { url } = buildChatRequest(args, target, false)
+
+  return loggedCall(args, { url, stream: false }, (onAttempt) =>
+    sendWithOptionalFieldFallback(args, target, false, ({ adapter, pricing, maxAttempts, timeoutMs, url, init }) =>
+      withRetry(
+        async () => {
+          const attempt = attemptSignal(timeoutMs, args.signal)
+          try {
+            const res = await fetch(url, { ...init, signal: attempt.signal })
+            if (!res.ok) await throwForStatus(res)
+            const data = await res.json().catch(() => ({}))
+            // A timeout while reading the body must stay retryable rather than look like a malformed reply
+            attempt.signal.throwIfAborted()
+            const { output, usage } = adapter.parseResponse(data)
+            return { output, usage: usage ? priceLLMUsage(usage, pricing) : null }
+          } finally {
+            attempt.clear()
+          }
+        },
+        { maxAttempts, onAttempt, signal: args.signal },
+      ),
+    ),
+  )
+}
+
+/**
+ * Same request as `runOpenRouterChat` with `stream: true`; `onDelta` receives each content fragment.
+ * Resolves with the full concatenated output and the usage reported by the stream, if any.
+ * Only opening the stream is retried; a failure after the first delta is surfaced as-is.
+ */
+export async function streamOpenRouterChat(args: ChatArgs & { onDelta: (text: string) => void }): Promise<ChatResult> {
+  const target = await resolveChatTarget(args.model)
+  if (target.kind === 'mock') return runMockTarget(args, target, args.onDelta)
+  const { url } = buildChatRequest(args, target, true)
+
+  return loggedCall(args, { url, stream: true }, async (onAttempt) => {
+    const { adapter, pricing, res } = await sendWithOptionalFieldFallback(args, target, true, (request) =>
+      withRetry(
+        async () => {
+          // @@@stream-timeout - the timeout covers opening the stream; the body is only cut off by the client signal
+          const attempt = attemptSignal(request.timeoutMs, args.signal)
+          try {
+            const res = await fetch(request.url, { ...request.init, signal: attempt.signal })
+            if (!res.ok) await throwForStatus(res)
+            return { adapter: request.adapter, pricing: request.pricing, res }
+          } finally {
+            attempt.clear()
+          }
+        },
+        { maxAttempts: request.maxAttempts, onAttempt, signal: args.signal },
+      ),
+    )
+    if (!res.body) throw new Error('LLM API error: empty stream body')
+
+    let output = ''
+    const tokens: Partial<LLMTokenCounts> = {}
+    await readSseBody(res.body, (data) => {
+      const event = adapter.parseStreamEvent(data)
+      if (!event) return
+      if (event.usage?.promptTokens !== undefined) tokens.promptTokens = event.usage.promptTokens
+      if (event.usage?.completionTokens !== undefined) tokens.completionTokens = event.usage.completionTokens
+      if (!event.delta) return
+      output += event.delta
+      args.onDelta(event.delta)
+    })
+    const usage =
+      tokens.promptTokens !== undefined && tokens.completionTokens !== undefined
+        ? priceLLMUsage({ promptTokens: tokens.promptTokens, completionTokens: tokens.completionTokens }, pricing)
+        : null
+    return { output, usage }
+  })
+}
+
+/**
+ * Lists the models a provider currently serves (`GET /models`), sorted by id.
+ */
+export async function listProviderModels(
+  target: LLMProviderTarget & { maxAttempts?: number; timeoutSec?: number },
+  signal?: AbortSignal,
+): Promise<DiscoveredLLMModel[]> {
+  const adapter = getLLMProviderAdapter(target.kind)
+  const { url, init } = adapter.buildModelsRequest(target)
+  const data = await withRetry(
+    async () => {
+      const attempt = attemptSignal(normalizeTimeoutMs(target.timeoutSec), signal)
+      try {
+        const res = await fetch(url, { ...init, signal: attempt.signal })
+        if (!res.ok) await throwForStatus(res)
+        const data: unknown = await res.json().catch(() => null)
+        attempt.signal.throwIfAborted()
+        return data
+      } finally {
+        attempt.clear()
+      }
+    },
+    { maxAttempts: target.maxAttempts, signal },
+  )
+  return adapter.parseModelsResponse(data).sort((a, b) => a.id.localeCompare(b.id))
 }
@@ -0,0 +1,165 @@
+import { readdir } from 'node:fs/promises'
+import path from 'node:path'
+import type { PathCorrection } from '../shared/appDataTypes.js'
+import type { RepoIgnore } from './ignoreRules.js'
+import { validateFilePaths } from './pathValidator.js'
+import type { LineRange } from './rangeUtils.js'
+
+const MAX_INDEX_FILES = 50_000
+// Paths further apart than this are different files, not typos
+const MAX_EDIT_DISTANCE = 3
+// Ambiguous matches listed back to the model as suggestions
+const MAX_SUGGESTIONS = 5
+
+// Extensions a model plausibly mixes up; a swap stays within one family
+const EXTENSION_FAMILIES = [
+  ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'],
+  ['.py', '.pyi'],
+  ['.c', '.h', '.cc', '.cpp', '.cxx', '.hpp', '.hh'],
+  ['.md', '.mdx', '.markdown'],
+  ['.yml', '.yaml'],
+  ['.json', '.jsonc', '.json5'],
+  ['.htm', '.html'],
+  ['.css', '.scss', '.sass', '.less'],
+]
+
+export type PathResolution =
+  | { resolved: string; match: PathCorrection['match'] }
+  | { resolved: null; candidates: string[] }
+
+export type PathCorrectionResult = {
+  files: Record<string, LineRange[]>
+  corrections: PathCorrection[]
+  // Unresolved paths with more than one plausible match, for the feedback message
+  suggestions: Record<string, string[]>
+}
+
+/**
+ * Lazily lists every file in the repo (repo-relative, `/`-separated) once per search run, skipping ignored paths.
+ * Capped at MAX_INDEX_FILES; paths past the cap are simply not candidates.
+ */
+export function createRepoFileIndex(repoRoot: string, repoIgnore: RepoIgnore) {
+  let index: Promise<string[]> | null = null
+
+  async function build() {
+    const files: string[] = []
+    const walk = async (relDir: string): Promise<void> => {
+      const entries = await readdir(path.join(repoRoot, relDir), { withFileTypes: true }).catch(() => [])
+      for (const entry of entries) {
+        if (files.length >= MAX_INDEX_FILES) return
+        const relPath = relDir ? `${relDir}/${entry.name}` : entry.name
+        if (await repoIgnore.isIgnored(relPath, entry.isDirectory())) continue
+        if (entry.isDirectory()) await walk(relPath)
+        else if (entry.isFile()) files.push(relPath)
+      }
+    }
+    await walk('')
+    return files
+  }
+
+  return () => (index ??= build())
+}
+
+function stripExtension(relPath: string) {
+  const ext = path.posix.extname(relPath)
+  return { stem: ext ? relPath.slice(0, -ext.length) : relPath, ext }
+}
+
+function extensionFamily(ext: string) {
+  return EXTENSION_FAMILIES.find((family) => family.includes(ext)) ?? null
+}
+
+// Levenshtein distance, giving up (Infinity) once every cell of a row exceeds `max`
+function boundedEditDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return Number.POSITIVE_INFINITY
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost)
+      rowMin = Math.min(rowMin, row[j])
+    }
+    if (rowMin > max) return Number.POSITIVE_INFINITY
+    prev = row
+  }
+  return prev[b.length]
+}
+
+// @@@path-resolve-stages - looser stages only run when stricter ones found nothing; more than one match at any
+// stage is ambiguous and stops there, since guessing between real files is worse than asking the model
+export function resolveReportedPath(reported: string, index: readonly string[]): PathResolution {
+  const lower = reported.toLowerCase()
+
+  const caseMatches = index.filter((p) => p.toLowerCase() === lower)
+  if (caseMatches.length === 1) return { resolved: caseMatches[0], match: 'case' }
+  if (caseMatches.length > 1) return { resolved: null, candidates: caseMatches }
+
+  const { stem, ext } = stripExtension(lower)
+  const family = extensionFamily(ext)
+  if (family) {
+    const extensionMatches = index.filter((p) => {
+      const other = stripExtension(p.toLowerCase())
+      return other.stem === stem && family.includes(other.ext)
+    })
+    if (extensionMatches.length === 1) return { resolved: extensionMatches[0], match: 'extension' }
+    if (extensionMatches.length > 1) return { resolved: null, candidates: extensionMatches }
+  }
+
+  // Short names are too easy to confuse: `c.ts` is one edit from `a.ts` but hardly a typo of it
+  const maxDistance = Math.min(MAX_EDIT_DISTANCE, Math.floor(path.posix.basename(stem).length / 3))
+  if (maxDistance === 0) return { resolved: null, candidates: [] }
+  let best = Number.POSITIVE_INFINITY
+  let nearest: string[] = []
+  for (const candidate of index) {
+    const distance = boundedEditDistance(lower, candidate.toLowerCase(), Math.min(maxDistance, best))
+    if (distance < best) {
+      best = distance
+      nearest = [candidate]
+    } else if (distance === best && distance !== Number.POSITIVE_INFINITY) {
+      nearest.push(candidate)
+    }
+  }
+  if (nearest.length === 1) return { resolved: nearest[0], match: 'edit-distance' }
+  return { resolved: null, candidates: nearest }
+}
+
+/**
+ * Rewrites reported paths that do not exist to the single repo file they plausibly meant (case, extension or a
+ * small typo away). Paths with no match or several matches are left as reported for the caller's validation.
+ */
+export async function correctReportedPaths(
+  repoRoot: string,
+  files: Record<string, LineRange[]>,
+  loadIndex: () => Promise<string[]>,
+): Promise<PathCorrectionResult> {
+  const { invalid } = await validateFilePaths(repoRoot, Object.keys(files))
+  if (invalid.length === 0) return { files, corrections: [], suggestions: {} }
+
+  const index = await loadIndex()
+  const out: Record<string, LineRange[]> = {}
+  const corrections: PathCorrection[] = []
+  const suggestions: Record<string, string[]> = {}
+  for (const [relPath, reported] of Object.entries(files)) {
+    // Malformed range lists are kept as entries for validateReportedFiles to reject
+    const ranges: LineRange[] = Array.isArray(reported) ? reported : [reported]
+    if (!invalid.includes(relPath)) {
+      out[relPath] = [...(out[relPath] ?? []), ...ranges]
+      continue
+    }
+    const resolution = resolveReportedPath(relPath, index)
+    if (resolution.resolved === null) {
+      if (resolution.candidates.length > 0) suggestions[relPath] = resolution.candidates.slice(0, MAX_SUGGESTIONS)
+      out[relPath] = ranges
+      continue
+    }
+    corrections.push({ from: relPath, to: resolution.resolved, match: resolution.match })
+    out[resolution.resolved] = [...(out[resolution.resolved] ?? []), ...ranges]
+  }
+  return { files: out, corrections, suggestions }
+}
+
+export function formatPathCorrections(corrections: PathCorrection[]) {
+  return corrections.map((c) => `${c.from} -> ${c.to}`).join(', ')
+}
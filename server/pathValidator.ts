@@ -1,11 +1,30 @@
-import { stat } from 'node:fs/promises'
+import { readFile, stat } from 'node:fs/promises'
 import path from 'node:path'
+import type { RangeCorrection } from '../shared/appDataTypes.js'
+import type { LineRange } from './rangeUtils.js'
 
 export type PathValidationResult = {
   valid: string[]
   invalid: string[]
 }
 
+export type ReportValidationResult = PathValidationResult & {
+  // Existing files with their ranges clamped; files whose every range was rejected are left out
+  files: Record<string, LineRange[]>
+  rangeCorrections: RangeCorrection[]
+}
+
+function resolveRepoFile(normalizedRoot: string, filePath: string) {
+  if (path.isAbsolute(filePath)) return null
+
+  const resolved = path.resolve(normalizedRoot, filePath)
+  const relative = path.relative(normalizedRoot, resolved)
+
+  // @@@path-escape-check - ensure resolved paths stay within the repo root
+  if (relative.startsWith('..') || path.isAbsolute(relative)) return null
+  return resolved
+}
+
 /**
  * Validates that all file paths exist relative to the repository root.
  *
@@ -21,15 +40,8 @@ export async function validateFilePaths(
   const results = await Promise.all(
     filePaths.map(async (filePath) => {
       try {
-        if (path.isAbsolute(filePath)) return { path: filePath, exists: false }
-
-        const resolved = path.resolve(normalizedRoot, filePath)
-        const relative = path.relative(normalizedRoot, resolved)
-
-        // @@@path-escape-check - ensure resolved paths stay within the repo root
-        if (relative.startsWith('..') || path.isAbsolute(relative)) {
-          return { path: filePath, exists: false }
-        }
+        const resolved = resolveRepoFile(normalizedRoot, filePath)
+        if (!resolved) return { path: filePath, exists: false }
 
         const stats = await stat(resolved)
         return { path: filePath, exists: stats.isFile() }
@@ -45,12 +57,143 @@ export async function validateFilePaths(
   }
 }
 
+function countLines(content: string) {
+  if (content === '') return 0
+  const lines = content.split('\n').length
+  return content.endsWith('\n') ? lines - 1 : lines
+}
+
+function isRangePair(value: unknown): value is LineRange {
+  return Array.isArray(value) && value.length === 2
+}
+
+// @@@range-clamp - zero-based starts and ends past EOF have an obvious fix; inverted or out-of-file ranges do not.
+// Reports come from models with non-strict schemas, so an entry may not even be a pair
+function checkRange(
+  filePath: string,
+  entry: unknown,
+  lineCount: number,
+): { range: LineRange | null; correction?: RangeCorrection } {
+  if (!isRangePair(entry)) {
+    const reason = `a range must be a [start, end] pair of line numbers, got ${JSON.stringify(entry) ?? String(entry)}`
+    return { range: null, correction: { path: filePath, range: null, lineCount, action: 'rejected', reason } }
+  }
+  const range = entry
+  const [start, end] = range
+  const reject = (reason: string) => ({
+    range: null,
+    correction: { path: filePath, range, lineCount, action: 'rejected' as const, reason },
+  })
+
+  if (!Number.isInteger(start) || !Number.isInteger(end)) return reject('line numbers must be whole numbers')
+  if (start < 0 || (end < 0 && end !== -1)) return reject('line numbers must not be negative')
+
+  const reasons: string[] = []
+  let from = start
+  let to = end
+  if (from === 0 || to === 0) {
+    reasons.push('line numbers start at 1')
+    from = Math.max(1, from)
+    if (to === 0) to = 1
+  }
+  if (to !== -1 && to < from) return reject('end is before start')
+  // An empty file has no line to clamp to, but reporting it is still valid: the range becomes the whole file
+  if (lineCount === 0) {
+    if (start === 1 && end === -1) return { range }
+    const corrected: LineRange = [1, -1]
+    return {
+      range: corrected,
+      correction: { path: filePath, range, lineCount, action: 'clamped', corrected, reason: 'the file is empty' },
+    }
+  }
+  if (from > lineCount) return reject(`starts after the last line (the file has ${lineCount} lines)`)
+  if (to > lineCount) {
+    reasons.push(`the file has ${lineCount} lines`)
+    to = lineCount
+  }
+
+  if (reasons.length === 0) return { range }
+  const corrected: LineRange = [from, to]
+  return {
+    range: corrected,
+    correction: { path: filePath, range, lineCount, action: 'clamped', corrected, reason: reasons.join('; ') },
+  }
+}
+
+/**
+ * Validates a reported `files` map: every path must be a file in the repo, and every range must be 1-based,
+ * ordered and inside the file (`-1` as the end means "to the end of the file"). Fixable ranges are clamped;
+ * the rest are rejected so the caller can send them back to the model.
+ */
+export async function validateReportedFiles(
+  repoRoot: string,
+  files: Record<string, LineRange[]>,
+): Promise<ReportValidationResult> {
+  const normalizedRoot = path.resolve(repoRoot)
+  const results = await Promise.all(
+    Object.entries(files).map(async ([filePath, ranges]) => {
+      const resolved = resolveRepoFile(normalizedRoot, filePath)
+      let content: string
+      try {
+        if (!resolved) return { path: filePath, exists: false as const }
+        content = await readFile(resolved, 'utf-8')
+      } catch {
+        return { path: filePath, exists: false as const }
+      }
+
+      const lineCount = countLines(content)
+      // A bare value where the list of ranges belongs is checked (and rejected) as one entry
+      const entries: unknown[] = Array.isArray(ranges) ? ranges : [ranges]
+      const checked = entries.map((entry) => checkRange(filePath, entry, lineCount))
+      return {
+        path: filePath,
+        exists: true as const,
+        ranges: checked.flatMap((c) => (c.range ? [c.range] : [])),
+        corrections: checked.flatMap((c) => (c.correction ? [c.correction] : [])),
+      }
+    }),
+  )
+
+  const out: ReportValidationResult = { valid: [], invalid: [], files: {}, rangeCorrections: [] }
+  for (const result of results) {
+    if (!result.exists) {
+      out.invalid.push(result.path)
+      continue
+    }
+    out.valid.push(result.path)
+    out.rangeCorrections.push(...result.corrections)
+    if (result.ranges.length > 0) out.files[result.path] = result.ranges
+  }
+  return out
+}
+
+export function formatRangeCorrection(c: RangeCorrection) {
+  const target = c.corrected ? ` -> [${c.corrected[0]}, ${c.corrected[1]}]` : ''
+  const range = c.range ? ` [${c.range[0]}, ${c.range[1]}]` : ''
+  return `${c.path}${range}${target}: ${c.reason}`
+}
+
 /**
- * Formats a feedback message for the agent when invalid paths are detected.
+ * Formats a feedback message for the agent when invalid paths or rejected line ranges are detected.
+ * `suggestions` lists the repo files an invalid path could have meant, when there was more than one.
  */
-export function formatPathValidationFeedback(invalidPaths: string[]): string {
-  const pathList = invalidPaths.map((p) => `  - "${p}"`).join('\n')
-  return `ERROR: The following file paths you provided do not exist in the repository:
+export function formatPathValidationFeedback(
+  invalidPaths: string[],
+  rejectedRanges: RangeCorrection[] = [],
+  suggestions: Record<string, string[]> = {},
+): string {
+  const sections: string[] = []
+
+  if (invalidPaths.length > 0) {
+    const pathList = invalidPaths
+      .map((p) => {
+        const candidates = suggestions[p] ?? []
+        return candidates.length > 0
+          ? `  - "${p}" (did you mean one of: ${candidates.map((c) => `"${c}"`).join(', ')}?)`
+          : `  - "${p}"`
+      })
+      .join('\n')
+    sections.push(`ERROR: The following file paths you provided do not exist in the repository:
 
 ${pathList}
 
@@ -58,7 +201,19 @@ Please correct your response. Double-check the exact file paths by:
 1. Verifying the directory structure exists
 2. Checking for typos in file names
 3. Ensuring you're using the correct file extensions
-4. Using paths relative to the repository root
+4. Using paths relative to the repository root`)
+  }
+
+  if (rejectedRanges.length > 0) {
+    const rangeList = rejectedRanges.map((c) => `  - ${formatRangeCorrection(c)}`).join('\n')
+    sections.push(`ERROR: The following line ranges do not fit their files:
+
+${rangeList}
+
+Line ranges are [start, end] with 1-based, inclusive line numbers; start must not be after end, and both must lie within the file. View the file again if you are unsure of its length.`)
+  }
+
+  return `${sections.join('\n\n')}
 
-Provide a corrected list of files with valid paths only.`
+Provide a corrected list of files with valid paths and line ranges only.`
 }
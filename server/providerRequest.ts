@@ -0,0 +1,99 @@
+import type { LLMAuthScheme, LLMHttpHeader } from '../shared/appDataTypes.js'
+
+/**
+ * The transport half of a provider's settings: where requests go and how they authenticate.
+ * Adapters decide the body and the default path/auth; these settings override them per provider.
+ */
+export type ProviderTransport = {
+  endpoint: string
+  apiKey: string
+  authScheme?: LLMAuthScheme
+  customHeaders?: LLMHttpHeader[]
+  urlTemplate?: string
+  apiVersion?: string
+}
+
+// Header(s) each auth scheme puts the API key in
+const AUTH_HEADER_BUILDERS: Record<LLMAuthScheme, (apiKey: string) => Record<string, string>> = {
+  bearer: (apiKey) => ({ Authorization: `Bearer ${apiKey}` }),
+  'api-key': (apiKey) => ({ 'api-key': apiKey }),
+  'x-api-key': (apiKey) => ({ 'x-api-key': apiKey }),
+  none: () => ({}),
+}
+
+// Endpoints are stored either as a base URL or with the chat path already appended
+function endpointBase(endpoint: string) {
+  return endpoint.replace(/\/+$/, '').replace(/\/(chat\/completions|messages)$/, '')
+}
+
+function withPathSuffix(endpoint: string, suffix: string) {
+  return endpoint.endsWith(suffix) ? endpoint : endpoint.replace(/\/?$/, suffix)
+}
+
+function withQuery(url: string, query: Record<string, string>) {
+  const entries = Object.entries(query)
+  if (entries.length === 0) return url
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new Error(`Invalid provider URL: ${url}`)
+  }
+  for (const [name, value] of entries) parsed.searchParams.set(name, value)
+  return parsed.toString()
+}
+
+/**
+ * Chat URL: the provider's `urlTemplate` when set (`{endpoint}`, `{model}`, `{apiVersion}` placeholders),
+ * otherwise the endpoint with the adapter's chat path. `apiVersion` is added as `?api-version=` unless the
+ * template already places it.
+ */
+export function buildChatUrl(target: ProviderTransport, chatPath: string, model: string) {
+  const template = target.urlTemplate?.trim()
+  const apiVersion = target.apiVersion?.trim() ?? ''
+  // @@@url-template - Azure-style deployment URLs carry the model in the path, so the template replaces the whole URL
+  const url = template
+    ? template
+        .replaceAll('{endpoint}', endpointBase(target.endpoint))
+        .replaceAll('{model}', encodeURIComponent(model))
+        .replaceAll('{apiVersion}', encodeURIComponent(apiVersion))
+    : withPathSuffix(target.endpoint, chatPath)
+  return withQuery(url, apiVersion && !template?.includes('{apiVersion}') ? { 'api-version': apiVersion } : {})
+}
+
+/**
+ * Model listing URL (`<endpoint base>/models`); the URL template only describes chat calls, so it is ignored here.
+ */
+export function buildModelsUrl(target: ProviderTransport, query: Record<string, string> = {}) {
+  const apiVersion = target.apiVersion?.trim()
+  return withQuery(`${endpointBase(target.endpoint)}/models`, {
+    ...query,
+    ...(apiVersion ? { 'api-version': apiVersion } : {}),
+  })
+}
+
+/**
+ * Request headers: the key under the provider's auth scheme (or the adapter's default), the adapter's own
+ * headers, then the provider's custom headers, which replace any earlier header of the same name.
+ */
+export function buildProviderHeaders(
+  target: ProviderTransport,
+  defaultScheme: LLMAuthScheme,
+  adapterHeaders: Record<string, string> = {},
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    ...AUTH_HEADER_BUILDERS[target.authScheme ?? defaultScheme](target.apiKey),
+    'Content-Type': 'application/json',
+    ...adapterHeaders,
+  }
+  for (const header of target.customHeaders ?? []) {
+    const name = header.name.trim()
+    if (!name) continue
+    // Header names are case-insensitive; a plain object would otherwise send both spellings
+    for (const existing of Object.keys(headers)) {
+      if (existing.toLowerCase() === name.toLowerCase()) delete headers[existing]
+    }
+    headers[name] = header.value
+  }
+  return headers
+}
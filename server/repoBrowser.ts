@@ -1,6 +1,7 @@
 import { readdir, stat } from 'node:fs/promises'
 import path from 'node:path'
 import type { ManualImportItem, CodeSearchOutput } from '../shared/appDataTypes.js'
+import { createRepoIgnore, type RepoIgnore } from './ignoreRules.js'
 
 export type RepoDirEntry = {
   kind: 'file' | 'dir'
@@ -64,7 +65,7 @@ function joinPosix(a: string, b: string) {
   return path.posix.normalize(`${left}/${right}`)
 }
 
-export async function listRepoDir(args: { repoRoot: string; dir: string }) {
+export async function listRepoDir(args: { repoRoot: string; dir: string; ignorePatterns?: string[] }) {
   const dirRel = normalizeRelPath(args.dir)
   const dirAbs = joinInRepo(args.repoRoot, dirRel)
   const st = await stat(dirAbs).catch((e: unknown) => {
@@ -74,6 +75,7 @@ export async function listRepoDir(args: { repoRoot: string; dir: string }) {
   })
   if (!st.isDirectory()) throw new Error(`Not a directory: ${dirRel || '.'}`)
 
+  const repoIgnore = createRepoIgnore(args.repoRoot, args.ignorePatterns)
   const entries = await readdir(dirAbs, { withFileTypes: true })
   const out: RepoDirEntry[] = []
   for (const entry of entries) {
@@ -82,6 +84,7 @@ export async function listRepoDir(args: { repoRoot: string; dir: string }) {
     if (name.startsWith('.')) continue
 
     const relPath = joinPosix(dirRel, name)
+    if (await repoIgnore.isIgnored(relPath, entry.isDirectory())) continue
     if (entry.isDirectory()) {
       out.push({ kind: 'dir', name, relPath })
       continue
@@ -103,7 +106,7 @@ export async function listRepoDir(args: { repoRoot: string; dir: string }) {
   }
 }
 
-async function listDirOneLevelTrustedFiles(repoRoot: string, dirRel: string) {
+async function listDirOneLevelTrustedFiles(repoRoot: string, dirRel: string, repoIgnore: RepoIgnore) {
   const abs = joinInRepo(repoRoot, dirRel)
   const entries = await readdir(abs, { withFileTypes: true })
   const files: string[] = []
@@ -113,6 +116,7 @@ async function listDirOneLevelTrustedFiles(repoRoot: string, dirRel: string) {
     if (!entry.name || entry.name.startsWith('.')) continue
     const relPath = joinPosix(dirRel, entry.name)
     if (!isTrustedFile(relPath)) continue
+    if (await repoIgnore.isIgnored(relPath, false)) continue
     files.push(relPath)
   }
 
@@ -120,9 +124,14 @@ async function listDirOneLevelTrustedFiles(repoRoot: string, dirRel: string) {
   return files
 }
 
-export async function resolveManualImport(args: { repoRoot: string; items: ManualImportItem[] }): Promise<CodeSearchOutput> {
+export async function resolveManualImport(args: {
+  repoRoot: string
+  items: ManualImportItem[]
+  ignorePatterns?: string[]
+}): Promise<CodeSearchOutput> {
   if (!Array.isArray(args.items) || args.items.length === 0) throw new Error('No items selected')
 
+  const repoIgnore = createRepoIgnore(args.repoRoot, args.ignorePatterns)
   const files = new Set<string>()
   const touchedDirs: string[] = []
   const touchedFiles: string[] = []
@@ -138,6 +147,9 @@ export async function resolveManualImport(args: { repoRoot: string; items: Manua
       if (code === 'ENOENT') throw new Error(`Path not found: ${relPath}`)
       throw e
     })
+    if (await repoIgnore.isIgnored(relPath, st.isDirectory())) {
+      throw new Error(`Path is ignored by .gitignore or the ignore patterns in settings: ${relPath}`)
+    }
 
     if (kind === 'file') {
       if (!st.isFile()) throw new Error(`Not a file: ${relPath}`)
@@ -150,7 +162,7 @@ export async function resolveManualImport(args: { repoRoot: string; items: Manua
     if (kind === 'dir') {
       if (!st.isDirectory()) throw new Error(`Not a directory: ${relPath}`)
       touchedDirs.push(relPath)
-      const directFiles = await listDirOneLevelTrustedFiles(args.repoRoot, relPath)
+      const directFiles = await listDirOneLevelTrustedFiles(args.repoRoot, relPath, repoIgnore)
       for (const f of directFiles) files.add(f)
       continue
     }
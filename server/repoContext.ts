@@ -1,7 +1,7 @@
 import { readFile } from 'node:fs/promises'
 import path from 'node:path'
 
-function resolveInRepo(repoRoot: string, filePath: string) {
+export function resolveInRepo(repoRoot: string, filePath: string) {
   const normalized = path.posix.normalize(filePath)
   if (normalized.startsWith('..')) {
     throw new Error(`Invalid file path (escapes repo): ${filePath}`)
@@ -0,0 +1,62 @@
+import { createHash } from 'node:crypto'
+import { execFile } from 'node:child_process'
+import { readdir, stat } from 'node:fs/promises'
+import path from 'node:path'
+import { promisify } from 'node:util'
+
+const execFileAsync = promisify(execFile)
+
+const MAX_WALK_FILES = 50_000
+const WALK_SKIP_DIRS = new Set(['.git', 'node_modules', 'dist', 'build', '.next', '.venv', '__pycache__'])
+
+/**
+ * Cheap content fingerprint of a repo for cache keys: git HEAD plus size/mtime of every dirty or
+ * untracked file. Outside git, falls back to size/mtime of all files (capped at MAX_WALK_FILES).
+ */
+export async function computeRepoFingerprint(repoRoot: string): Promise<string> {
+  const hash = createHash('sha256')
+  const usedGit = await hashGitState(repoRoot, hash).then(
+    () => true,
+    () => false,
+  )
+  if (!usedGit) await hashFileTree(repoRoot, hash)
+  return hash.digest('hex')
+}
+
+async function hashGitState(repoRoot: string, hash: ReturnType<typeof createHash>) {
+  const { stdout: head } = await execFileAsync('git', ['-C', repoRoot, 'rev-parse', 'HEAD'])
+  const { stdout: dirty } = await execFileAsync(
+    'git',
+    ['-C', repoRoot, 'ls-files', '--modified', '--others', '--exclude-standard', '-z'],
+    { maxBuffer: 16 * 1024 * 1024 },
+  )
+  hash.update(`git:${head.trim()}\n`)
+  const relPaths = [...new Set(dirty.split('\0').filter(Boolean))].sort()
+  for (const relPath of relPaths) {
+    const info = await stat(path.join(repoRoot, relPath)).catch(() => null)
+    hash.update(info ? `${relPath}\0${info.size}\0${info.mtimeMs}\n` : `${relPath}\0deleted\n`)
+  }
+}
+
+async function hashFileTree(repoRoot: string, hash: ReturnType<typeof createHash>) {
+  hash.update('walk\n')
+  let count = 0
+  const walk = async (relDir: string): Promise<void> => {
+    const entries = await readdir(path.join(repoRoot, relDir), { withFileTypes: true }).catch(() => [])
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+    for (const entry of entries) {
+      if (count >= MAX_WALK_FILES) return
+      const relPath = relDir ? `${relDir}/${entry.name}` : entry.name
+      if (entry.isDirectory()) {
+        if (!WALK_SKIP_DIRS.has(entry.name)) await walk(relPath)
+        continue
+      }
+      if (!entry.isFile()) continue
+      const info = await stat(path.join(repoRoot, relPath)).catch(() => null)
+      if (!info) continue
+      hash.update(`${relPath}\0${info.size}\0${info.mtimeMs}\n`)
+      count += 1
+    }
+  }
+  await walk('')
+}
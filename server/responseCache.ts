@@ -0,0 +1,134 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { config } from './config.js'
+
+export type ResponseCacheKind = 'llm' | 'code-search'
+
+export type ResponseCacheEntry<T = unknown> = {
+  key: string
+  kind: ResponseCacheKind
+  createdAt: string
+  // Short human-readable description (model / query) shown by the inspect endpoint
+  summary: string
+  value: T
+}
+
+export type ResponseCacheListItem = Omit<ResponseCacheEntry, 'value'> & {
+  expiresAt: string | null
+  sizeBytes: number
+}
+
+const cacheDir = path.join(config.paths.cacheDir, 'responses')
+const KEY_RE = /^[0-9a-f]{64}$/
+
+// Object keys are sorted so `{a, b}` and `{b, a}` hash to the same entry
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+export function responseCacheKey(kind: ResponseCacheKind, parts: Record<string, unknown>) {
+  return createHash('sha256').update(stableStringify({ kind, parts })).digest('hex')
+}
+
+function entryPath(key: string) {
+  if (!KEY_RE.test(key)) throw new Error(`Invalid cache key: ${key}`)
+  return path.join(cacheDir, `${key}.json`)
+}
+
+function expiresAt(createdAt: string, ttlMs: number) {
+  const created = Date.parse(createdAt)
+  return Number.isNaN(created) ? 0 : created + ttlMs
+}
+
+/**
+ * Returns the cached entry for `key`, or null when missing or older than `ttlMs` (expired entries are removed).
+ */
+export async function readCachedResponse<T>(key: string, ttlMs: number): Promise<ResponseCacheEntry<T> | null> {
+  const file = entryPath(key)
+  const raw = await readFile(file, 'utf-8').catch(() => null)
+  if (raw === null) return null
+  let entry: ResponseCacheEntry<T>
+  try {
+    entry = JSON.parse(raw) as ResponseCacheEntry<T>
+  } catch {
+    await rm(file, { force: true })
+    return null
+  }
+  if (expiresAt(entry.createdAt, ttlMs) <= Date.now()) {
+    await rm(file, { force: true })
+    return null
+  }
+  return entry
+}
+
+export async function writeCachedResponse<T>(entry: Omit<ResponseCacheEntry<T>, 'createdAt'>) {
+  await mkdir(cacheDir, { recursive: true })
+  const full: ResponseCacheEntry<T> = { ...entry, createdAt: new Date().toISOString() }
+  await writeFile(entryPath(entry.key), JSON.stringify(full), 'utf-8')
+}
+
+export async function listCachedResponses(ttlMs: number): Promise<ResponseCacheListItem[]> {
+  const names = await readdir(cacheDir).catch(() => [] as string[])
+  const items: ResponseCacheListItem[] = []
+  for (const name of names) {
+    const key = name.replace(/\.json$/, '')
+    if (!KEY_RE.test(key)) continue
+    const file = path.join(cacheDir, name)
+    const [raw, info] = await Promise.all([readFile(file, 'utf-8').catch(() => null), stat(file).catch(() => null)])
+    if (raw === null || !info) continue
+    try {
+      const { kind, createdAt, summary } = JSON.parse(raw) as ResponseCacheEntry
+      items.push({
+        key,
+        kind,
+        createdAt,
+        summary,
+        expiresAt: ttlMs > 0 ? new Date(expiresAt(createdAt, ttlMs)).toISOString() : null,
+        sizeBytes: info.size,
+      })
+    } catch {
+      continue
+    }
+  }
+  return items.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Deletes one entry when `key` is given, otherwise every entry (optionally only of `kind`). Returns the number removed.
+ */
+export async function clearCachedResponses(opts: { key?: string; kind?: ResponseCacheKind } = {}) {
+  if (opts.key) {
+    const file = entryPath(opts.key)
+    const existed = await stat(file).then(() => true, () => false)
+    await rm(file, { force: true })
+    return existed ? 1 : 0
+  }
+  const names = await readdir(cacheDir).catch(() => [] as string[])
+  let removed = 0
+  for (const name of names) {
+    if (!KEY_RE.test(name.replace(/\.json$/, ''))) continue
+    const file = path.join(cacheDir, name)
+    if (opts.kind) {
+      const raw = await readFile(file, 'utf-8').catch(() => null)
+      let kind: ResponseCacheKind | undefined
+      try {
+        kind = raw ? (JSON.parse(raw) as Partial<ResponseCacheEntry>).kind : undefined
+      } catch {
+        // Unparseable entries can never be read back (readCachedResponse drops them too), so they go with any clear
+        kind = opts.kind
+      }
+      if (kind !== opts.kind) continue
+    }
+    await rm(file, { force: true })
+    removed += 1
+  }
+  return removed
+}
@@ -0,0 +1,132 @@
+import { setTimeout as sleep } from 'node:timers/promises'
+import { PROVIDER_MAX_ATTEMPTS, PROVIDER_TIMEOUT_SEC } from '../shared/retryPolicy.js'
+
+const BASE_DELAY_MS = 500
+const MAX_DELAY_MS = 20_000
+// A Retry-After longer than this is treated as "not transient" and fails immediately
+const MAX_RETRY_AFTER_MS = 60_000
+
+export type RetryAttempt = {
+  attempt: number
+  startedAt: string
+  durationMs: number
+  ok: boolean
+  status?: number
+  error?: string
+  // Wait before the next attempt; absent on the last attempt
+  retryInMs?: number
+}
+
+/**
+ * Thrown for a non-2xx upstream response so the retry policy can look at the status code.
+ */
+export class HttpStatusError extends Error {
+  readonly status: number
+  readonly retryAfterMs?: number
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message)
+    this.name = 'HttpStatusError'
+    this.status = status
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/**
+ * Parses a `Retry-After` header (delta-seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+  const trimmed = header.trim()
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number(trimmed) * 1000)
+  const date = Date.parse(trimmed)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, date - Date.now())
+}
+
+function isRetryableStatus(status: number) {
+  return status === 408 || status === 425 || status === 429 || status >= 500
+}
+
+function isRetryableError(err: unknown) {
+  if (err instanceof HttpStatusError) {
+    if (!isRetryableStatus(err.status)) return false
+    return err.retryAfterMs === undefined || err.retryAfterMs <= MAX_RETRY_AFTER_MS
+  }
+  if (!(err instanceof Error)) return false
+  // Per-attempt timeouts abort the fetch; undici reports connection failures as TypeError('fetch failed')
+  return err.name === 'AbortError' || err.name === 'TimeoutError' || (err.name === 'TypeError' && /fetch failed/i.test(err.message))
+}
+
+function backoffDelay(attempt: number, err: unknown) {
+  const exp = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1))
+  // @@@jitter - "equal jitter": keep half the exponential delay, randomize the other half
+  const jittered = exp / 2 + Math.random() * (exp / 2)
+  const retryAfter = err instanceof HttpStatusError ? err.retryAfterMs : undefined
+  return Math.round(retryAfter !== undefined ? Math.max(retryAfter, jittered) : jittered)
+}
+
+export function normalizeMaxAttempts(value: number | undefined) {
+  if (value === undefined || !Number.isInteger(value)) return PROVIDER_MAX_ATTEMPTS.default
+  return Math.min(PROVIDER_MAX_ATTEMPTS.max, Math.max(PROVIDER_MAX_ATTEMPTS.min, value))
+}
+
+export function normalizeTimeoutMs(timeoutSec: number | undefined) {
+  if (timeoutSec === undefined || !Number.isInteger(timeoutSec)) return PROVIDER_TIMEOUT_SEC.default * 1000
+  return Math.min(PROVIDER_TIMEOUT_SEC.max, Math.max(PROVIDER_TIMEOUT_SEC.min, timeoutSec)) * 1000
+}
+
+/**
+ * Signal for one attempt: aborts with a `TimeoutError` after `timeoutMs`, or when `signal` aborts.
+ * `clear` stops the timer, e.g. once a stream has opened and may run longer than one attempt.
+ */
+export function attemptSignal(timeoutMs: number, signal?: AbortSignal): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController()
+  const timer = setTimeout(
+    () => controller.abort(new DOMException(`Request timed out after ${timeoutMs / 1000}s`, 'TimeoutError')),
+    timeoutMs,
+  )
+  return {
+    signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
+    clear: () => clearTimeout(timer),
+  }
+}
+
+/**
+ * Runs `fn` until it succeeds, a non-transient error is thrown, or `maxAttempts` is reached.
+ * Retries 408/425/429/5xx, timeouts and connection failures with exponential backoff, honouring Retry-After.
+ * Every attempt (successful or not) is reported through `onAttempt`.
+ * Once `signal` is aborted nothing is retried and a pending backoff wait rejects immediately.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  opts: { maxAttempts?: number; onAttempt?: (attempt: RetryAttempt) => void; signal?: AbortSignal },
+): Promise<T> {
+  const maxAttempts = normalizeMaxAttempts(opts.maxAttempts)
+  for (let attempt = 1; ; attempt++) {
+    opts.signal?.throwIfAborted()
+    const startedAt = new Date()
+    try {
+      const result = await fn(attempt)
+      opts.onAttempt?.({ attempt, startedAt: startedAt.toISOString(), durationMs: Date.now() - startedAt.getTime(), ok: true })
+      return result
+    } catch (err: unknown) {
+      const willRetry = attempt < maxAttempts && !opts.signal?.aborted && isRetryableError(err)
+      const retryInMs = willRetry ? backoffDelay(attempt, err) : undefined
+      opts.onAttempt?.({
+        attempt,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        ok: false,
+        ...(err instanceof HttpStatusError ? { status: err.status } : {}),
+        error: err instanceof Error ? err.message : String(err),
+        ...(retryInMs !== undefined ? { retryInMs } : {}),
+      })
+      if (retryInMs === undefined) {
+        if (attempt > 1 && err instanceof Error) err.message = `${err.message} (after ${attempt} attempts)`
+        throw err
+      }
+      await sleep(retryInMs, undefined, { signal: opts.signal })
+    }
+  }
+}
@@ -1,5 +1,8 @@
 import { appendFile, mkdir, readFile, writeFile } from 'node:fs/promises'
 import path from 'node:path'
+import type { PathCorrection, RangeCorrection } from '../shared/appDataTypes.js'
+import type { RetryAttempt } from './retry.js'
+import { config } from './config.js'
 
 export type SearchRunLogEntry = {
   id: string
@@ -7,15 +10,32 @@ export type SearchRunLogEntry = {
   durationMs: number
   repoPath: string
   query: string
+  // Code search provider id; absent in entries written before providers were selectable
+  provider?: string
+  // LLM model of `llm` providers
+  model?: string
   ok: boolean
   error?: string
-  trace?: { turn: number; toolCalls: string[]; pathValidationRetry?: boolean; invalidPaths?: string[] }[]
+  // Client disconnected (e.g. chain cancelled) before the search finished
+  cancelled?: boolean
+  // Served from the response cache; no provider call was made
+  cached?: boolean
+  trace?: {
+    turn: number
+    toolCalls: string[]
+    pathValidationRetry?: boolean
+    invalidPaths?: string[]
+    rangeCorrections?: RangeCorrection[]
+    pathCorrections?: PathCorrection[]
+    apiAttempts?: RetryAttempt[]
+    rejectedCommands?: { command: string; reason: string }[]
+  }[]
   reportFilesCount?: number
   messageDumpPath?: string
   messageStats?: { turn: number; messagesChars: number; messagesCount: number }[]
 }
 
-const logDir = path.join(process.cwd(), 'logs')
+const logDir = config.paths.logsDir
 const logPath = path.join(logDir, 'relace-search.jsonl')
 const dumpDir = path.join(logDir, 'relace-search-runs')
 
@@ -41,15 +61,28 @@ export async function readRecentSearchRunLogs(limit: number) {
     .filter(Boolean) as SearchRunLogEntry[]
 }
 
+// Where the message dump of a run is (or would be) written
+export function searchRunDumpPath(runId: string) {
+  return path.join(dumpDir, `${runId}.json`)
+}
+
 export async function writeSearchRunDump(runId: string, dump: unknown) {
   await mkdir(dumpDir, { recursive: true })
-  const p = path.join(dumpDir, `${runId}.json`)
+  const p = searchRunDumpPath(runId)
   await writeFile(p, `${JSON.stringify(dump, null, 2)}\n`, 'utf-8')
   return p
 }
 
+/**
+ * The message dump of a run, or null when none was written (successful runs without `debugMessages`).
+ */
 export async function readSearchRunDump(runId: string) {
-  const p = path.join(dumpDir, `${runId}.json`)
-  const raw = await readFile(p, 'utf-8')
-  return JSON.parse(raw) as unknown
+  // Run ids are UUIDs (or `run_<ms>`); anything else could walk out of the dump directory
+  if (!/^[\w-]+$/.test(runId)) throw new Error(`Invalid run id: ${runId}`)
+  const p = searchRunDumpPath(runId)
+  const raw = await readFile(p, 'utf-8').catch((e: unknown) => {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw e
+  })
+  return raw === null ? null : (JSON.parse(raw) as unknown)
 }
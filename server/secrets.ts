@@ -0,0 +1,149 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'node:crypto'
+import { readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { promisify } from 'node:util'
+import type { SecretScope } from '../shared/secrets.js'
+import { config } from './config.js'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+const SECRETS_PATH = config.paths.secretsFile
+const MASTER_KEY_PATH = config.paths.masterKeyFile
+const CIPHER = 'aes-256-gcm'
+const KEY_BYTES = 32
+const IV_BYTES = 12
+
+// Provider API keys, plus LLM provider custom header values (`llm-header`, keyed `<providerId>:<header name>`)
+export type SecretStoreScope = SecretScope | 'llm-header'
+
+type SecretStore = {
+  version: 1
+  // Only used to derive the master key from a passphrase
+  salt: string
+  // `<scope>:<providerId>` → `v1:<iv>:<tag>:<ciphertext>` (base64 parts)
+  entries: Record<string, string>
+}
+
+function secretId(scope: SecretStoreScope, providerId: string) {
+  return `${scope}:${providerId}`
+}
+
+async function readStore(): Promise<SecretStore> {
+  let raw: string
+  try {
+    raw = await readFile(SECRETS_PATH, 'utf-8')
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    return { version: 1, salt: randomBytes(16).toString('base64'), entries: {} }
+  }
+  const parsed = JSON.parse(raw) as Partial<SecretStore>
+  if (typeof parsed.salt !== 'string' || !parsed.entries || typeof parsed.entries !== 'object') {
+    throw new Error(`Malformed ${path.basename(SECRETS_PATH)}`)
+  }
+  return { version: 1, salt: parsed.salt, entries: { ...parsed.entries } }
+}
+
+async function writeStore(store: SecretStore) {
+  await writeFile(SECRETS_PATH, JSON.stringify(store, null, 2), { encoding: 'utf-8', mode: 0o600 })
+}
+
+const derivedKeys = new Map<string, Promise<Buffer>>()
+
+async function readMasterKeyFile(): Promise<Buffer | null> {
+  let raw: string
+  try {
+    raw = await readFile(MASTER_KEY_PATH, 'utf-8')
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw err
+  }
+  const key = Buffer.from(raw.trim(), 'base64')
+  if (key.length !== KEY_BYTES) throw new Error(`${path.basename(MASTER_KEY_PATH)} must hold ${KEY_BYTES} base64-encoded bytes`)
+  return key
+}
+
+// @@@master-key - a passphrase in the environment wins; otherwise a random key file is created next to data.json
+async function loadMasterKey(salt: string): Promise<Buffer> {
+  const passphrase = config.secretPassphrase
+  if (passphrase) {
+    const cacheKey = `${salt}\n${passphrase}`
+    let derived = derivedKeys.get(cacheKey)
+    if (!derived) {
+      derived = scryptAsync(passphrase, Buffer.from(salt, 'base64'), KEY_BYTES)
+      derivedKeys.set(cacheKey, derived)
+    }
+    return derived
+  }
+
+  const existing = await readMasterKeyFile()
+  if (existing) return existing
+  const key = randomBytes(KEY_BYTES)
+  try {
+    await writeFile(MASTER_KEY_PATH, `${key.toString('base64')}\n`, { encoding: 'utf-8', mode: 0o600, flag: 'wx' })
+  } catch (err: unknown) {
+    // Another request created it first; use theirs so both encrypt with the same key
+    if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err
+    const winner = await readMasterKeyFile()
+    if (!winner) throw new Error(`${path.basename(MASTER_KEY_PATH)} vanished while it was being created`)
+    return winner
+  }
+  return key
+}
+
+function encrypt(key: Buffer, plaintext: string) {
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv(CIPHER, key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()])
+  return ['v1', iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':')
+}
+
+function decrypt(key: Buffer, blob: string, id: string) {
+  const [version, iv, tag, ciphertext] = blob.split(':')
+  if (version !== 'v1' || !iv || !tag || ciphertext === undefined) throw new Error(`Malformed stored secret: ${id}`)
+  try {
+    const decipher = createDecipheriv(CIPHER, key, Buffer.from(iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(tag, 'base64'))
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf-8')
+  } catch {
+    throw new Error(`Cannot decrypt the stored secret ${id}; the master key changed? Enter the key or header value again in Settings.`)
+  }
+}
+
+export async function getSecret(scope: SecretStoreScope, providerId: string): Promise<string | null> {
+  const store = await readStore()
+  const id = secretId(scope, providerId)
+  const blob = store.entries[id]
+  if (!blob) return null
+  return decrypt(await loadMasterKey(store.salt), blob, id)
+}
+
+/**
+ * Which providers of a scope have a stored key, without decrypting anything.
+ */
+export async function listSecretProviderIds(scope: SecretStoreScope): Promise<Set<string>> {
+  const store = await readStore()
+  const prefix = `${scope}:`
+  return new Set(Object.keys(store.entries).filter((id) => id.startsWith(prefix)).map((id) => id.slice(prefix.length)))
+}
+
+// @@@secret-write-queue - read-modify-write of secrets.json; concurrent saves would otherwise drop each other's keys
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+/**
+ * Stores (or, for an empty value, removes) several keys in one write.
+ */
+export function setSecrets(updates: { scope: SecretStoreScope; providerId: string; value: string }[]): Promise<void> {
+  if (updates.length === 0) return Promise.resolve()
+  const run = writeQueue.catch(() => {}).then(async () => {
+    const store = await readStore()
+    const key = await loadMasterKey(store.salt)
+    for (const { scope, providerId, value } of updates) {
+      const id = secretId(scope, providerId)
+      if (value) store.entries[id] = encrypt(key, value)
+      else delete store.entries[id]
+    }
+    await writeStore(store)
+  })
+  writeQueue = run
+  return run
+}
@@ -0,0 +1,30 @@
+import type { Response } from 'express'
+import { createSseParser } from '../shared/sseParser.js'
+
+export function startSse(res: Response) {
+  res.status(200)
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('Connection', 'keep-alive')
+  res.flushHeaders()
+}
+
+export function writeSseEvent(res: Response, event: unknown) {
+  res.write(`data: ${JSON.stringify(event)}\n\n`)
+}
+
+/**
+ * Reads an upstream SSE response body and hands each `data:` payload to `onData`.
+ */
+export async function readSseBody(body: ReadableStream<Uint8Array>, onData: (data: string) => void) {
+  const parser = createSseParser(onData)
+  const decoder = new TextDecoder()
+  const reader = body.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    parser.push(decoder.decode(value, { stream: true }))
+  }
+  parser.push(decoder.decode())
+  parser.flush()
+}
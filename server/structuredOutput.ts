@@ -0,0 +1,83 @@
+import { runOpenRouterChat, type ChatArgs } from './openRouter.js'
+import { validateJsonSchema } from './jsonSchema.js'
+import type { LLMChatMessage } from './llmAdapters.js'
+import { extractJsonObject } from '../shared/structuredOutput.js'
+import { sumLLMUsage } from '../shared/llmUsage.js'
+import type { LLMUsage } from '../shared/appDataTypes.js'
+
+export type StructuredChatResult = {
+  output: string
+  json: unknown
+  usage: LLMUsage | null
+  attempts: number
+}
+
+function schemaInstruction(schema: Record<string, unknown>) {
+  return [
+    'Respond with a single JSON value that validates against this JSON Schema.',
+    'Return ONLY the JSON (no markdown fences, no commentary).',
+    '',
+    JSON.stringify(schema, null, 2),
+  ].join('\n')
+}
+
+function repairPrompt(errors: string[]) {
+  return [
+    'Your previous reply did not validate against the JSON Schema:',
+    ...errors.slice(0, 20).map((e) => `- ${e}`),
+    '',
+    'Return the corrected JSON only.',
+  ].join('\n')
+}
+
+function parseReply(raw: string): { json: unknown; errors: string[] } {
+  try {
+    return { json: JSON.parse(extractJsonObject(raw)) as unknown, errors: [] }
+  } catch (err: unknown) {
+    return { json: undefined, errors: [`reply is not valid JSON: ${err instanceof Error ? err.message : String(err)}`] }
+  }
+}
+
+/**
+ * Runs a chat call whose reply must validate against `schema`. A failing reply is sent back with the
+ * validation errors as a repair turn; after `maxAttempts` failed calls the last errors are thrown.
+ */
+export async function runStructuredChat(
+  args: Omit<ChatArgs, 'followUp' | 'responseSchema'> & { schema: Record<string, unknown>; maxAttempts: number },
+): Promise<StructuredChatResult> {
+  const systemPrompt = [args.systemPrompt.trim(), schemaInstruction(args.schema)].filter(Boolean).join('\n\n')
+  const followUp: LLMChatMessage[] = []
+  const usages: Array<LLMUsage | null> = []
+  let lastErrors: string[] = []
+
+  for (let attempt = 1; attempt <= args.maxAttempts; attempt++) {
+    const { output: raw, usage } = await runOpenRouterChat({
+      model: args.model,
+      systemPrompt,
+      userPrompt: args.userPrompt,
+      params: args.params,
+      followUp,
+      responseSchema: args.schema,
+      signal: args.signal,
+    })
+    usages.push(usage)
+
+    const parsed = parseReply(raw)
+    lastErrors = parsed.errors.length > 0 ? parsed.errors : validateJsonSchema(parsed.json, args.schema)
+    if (lastErrors.length === 0) {
+      return {
+        output: JSON.stringify(parsed.json, null, 2),
+        json: parsed.json,
+        usage: sumLLMUsage(usages),
+        attempts: attempt,
+      }
+    }
+
+    // @@@json-repair - keep the whole exchange so the model sees what it produced and why it was rejected
+    followUp.push({ role: 'assistant', content: raw }, { role: 'user', content: repairPrompt(lastErrors) })
+  }
+
+  throw new Error(
+    `Structured output failed schema validation after ${args.maxAttempts} attempt(s): ${lastErrors.slice(0, 5).join('; ')}`,
+  )
+}
@@ -0,0 +1,125 @@
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import type TypeScript from 'typescript'
+import { mergeRanges, type LineRange } from './rangeUtils.js'
+import { resolveInRepo, type FileRefs } from './repoContext.js'
+
+// An enclosing unit longer than this is not worth pulling in whole; that end of the range stays as reported
+const MAX_UNIT_LINES = 400
+
+type SyntaxUnit = { start: number; end: number }
+
+type FileSyntax = {
+  // Functions, methods, classes, declarations and top-level statements, as 1-based inclusive line spans
+  units: SyntaxUnit[]
+  // The span from the first import to the last, or null when the file imports nothing
+  imports: SyntaxUnit | null
+}
+
+// null when the language support is not installed; the file then keeps its ranges as reported
+type SyntaxParser = (relPath: string, content: string) => Promise<FileSyntax | null>
+
+let typescriptModule: Promise<typeof TypeScript | null> | null = null
+
+// @@@lazy-typescript - the compiler is large; only load it once a node asks for expansion. It is a devDependency,
+// so a production install may lack it: expansion then degrades to the reported ranges instead of failing the node
+function loadTypeScript() {
+  typescriptModule ??= import('typescript')
+    .then((m) => m.default)
+    .catch((err: unknown) => {
+      console.warn(
+        `typescript is not installed; TS/JS ranges are kept unexpanded: ${err instanceof Error ? err.message : String(err)}`,
+      )
+      return null
+    })
+  return typescriptModule
+}
+
+const parseTypeScript: SyntaxParser = async (relPath, content) => {
+  const ts = await loadTypeScript()
+  if (!ts) return null
+  const ext = path.extname(relPath).toLowerCase()
+  const scriptKind = ext === '.tsx' ? ts.ScriptKind.TSX : ext === '.jsx' ? ts.ScriptKind.JSX : ext.endsWith('ts') ? ts.ScriptKind.TS : ts.ScriptKind.JS
+  const sourceFile = ts.createSourceFile(relPath, content, ts.ScriptTarget.Latest, true, scriptKind)
+  const lineOf = (pos: number) => sourceFile.getLineAndCharacterOfPosition(pos).line + 1
+  // Leading JSDoc belongs to the declaration it documents
+  const spanOf = (node: TypeScript.Node): SyntaxUnit => ({ start: lineOf(node.getStart(sourceFile, true)), end: lineOf(node.getEnd()) })
+
+  const units: SyntaxUnit[] = []
+  const visit = (node: TypeScript.Node) => {
+    const isUnit =
+      node.parent === sourceFile ||
+      ts.isFunctionLike(node) ||
+      ts.isClassLike(node) ||
+      ts.isInterfaceDeclaration(node) ||
+      ts.isTypeAliasDeclaration(node) ||
+      ts.isEnumDeclaration(node) ||
+      ts.isModuleDeclaration(node)
+    if (isUnit) units.push(spanOf(node))
+    ts.forEachChild(node, visit)
+  }
+  sourceFile.statements.forEach(visit)
+
+  const importSpans = sourceFile.statements
+    .filter((s) => ts.isImportDeclaration(s) || ts.isImportEqualsDeclaration(s))
+    .map(spanOf)
+  const imports = importSpans.length > 0 ? { start: importSpans[0].start, end: importSpans[importSpans.length - 1].end } : null
+
+  return { units, imports }
+}
+
+// @@@syntax-parsers - one parser per language; files in other languages keep their ranges as reported
+const PARSERS: Record<string, SyntaxParser> = {
+  '.ts': parseTypeScript,
+  '.tsx': parseTypeScript,
+  '.mts': parseTypeScript,
+  '.cts': parseTypeScript,
+  '.js': parseTypeScript,
+  '.jsx': parseTypeScript,
+  '.mjs': parseTypeScript,
+  '.cjs': parseTypeScript,
+}
+
+// Innermost unit around `line` that reaches outside the range; units wholly inside the range need no widening
+function enclosingUnit(units: SyntaxUnit[], line: number, range: LineRange) {
+  let best: SyntaxUnit | null = null
+  for (const unit of units) {
+    if (unit.start > line || unit.end < line) continue
+    if (unit.start >= range[0] && unit.end <= range[1]) continue
+    if (!best || unit.end - unit.start < best.end - best.start) best = unit
+  }
+  return best && best.end - best.start + 1 <= MAX_UNIT_LINES ? best : null
+}
+
+function expandRange(syntax: FileSyntax, range: LineRange): LineRange {
+  if (range[1] === -1) return range
+  const startUnit = enclosingUnit(syntax.units, range[0], range)
+  const endUnit = enclosingUnit(syntax.units, range[1], range)
+  return [Math.min(range[0], startUnit?.start ?? range[0]), Math.max(range[1], endUnit?.end ?? range[1])]
+}
+
+/**
+ * Widens every range to the functions, methods, classes or declarations it cuts through, adds the file's imports,
+ * and re-merges. Only files with a parser (TS/JS) change; whole-file ranges, other languages and TS/JS without
+ * the typescript package installed pass through.
+ */
+export async function expandRangesToSyntax(repoRoot: string, files: FileRefs): Promise<FileRefs> {
+  const out: FileRefs = {}
+  for (const [relPath, ranges] of Object.entries(files)) {
+    const parser = PARSERS[path.extname(relPath).toLowerCase()]
+    if (!parser || ranges.length === 0 || ranges.some(([, end]) => end === -1)) {
+      out[relPath] = mergeRanges(ranges)
+      continue
+    }
+    const content = await readFile(resolveInRepo(repoRoot, relPath), 'utf-8')
+    const syntax = await parser(relPath, content)
+    if (!syntax) {
+      out[relPath] = mergeRanges(ranges)
+      continue
+    }
+    const expanded = ranges.map((range) => expandRange(syntax, range))
+    if (syntax.imports) expanded.push([syntax.imports.start, syntax.imports.end])
+    out[relPath] = mergeRanges(expanded)
+  }
+  return out
+}
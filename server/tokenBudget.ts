@@ -0,0 +1,182 @@
+import type {
+  ContextSource,
+  PromptBudget,
+  PromptBudgetDroppedFile,
+  PromptBudgetStrategy,
+} from '../shared/appDataTypes.js'
+import { renderContextSources, type RepoContextBuilder } from '../shared/contextSources.js'
+
+// Reply space kept free when the node sets no maxTokens, capped at a quarter of small windows
+const DEFAULT_OUTPUT_RESERVE = 4096
+
+// One predecessor's contribution to an LLM node's context; `sources` is set for context-converter output
+export type PromptContextSegment = {
+  text: string
+  sources?: ContextSource[]
+  fullFile?: boolean
+}
+
+/**
+ * Provider-neutral token estimate: about 4 characters per token for Latin text and code,
+ * one token per CJK character. Only has to be close enough to catch prompts that clearly overflow.
+ */
+export function estimateTokens(text: string) {
+  let wide = 0
+  for (const ch of text) {
+    if ((ch.codePointAt(0) ?? 0) >= 0x2e80) wide++
+  }
+  return Math.ceil((text.length - wide) / 4) + wide
+}
+
+// Same joining as the client's `concatPredStrings`
+function joinSegments(segments: PromptContextSegment[]) {
+  return segments
+    .map((s) => s.text.trim())
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+function fileKey(repoPath: string, filePath: string) {
+  return `${repoPath}\n${filePath}`
+}
+
+type DropCandidate = PromptBudgetDroppedFile & {
+  // Number of search sources that reported the file, across all segments
+  sourceCount: number
+  // Best position of the file in a source's report (searches list their strongest hits first)
+  bestRank: number
+}
+
+// @@@drop-priority - files fewer searches agree on, listed later, and bigger go first
+async function rankDropCandidates(segments: PromptContextSegment[], build: RepoContextBuilder): Promise<DropCandidate[]> {
+  const byKey = new Map<string, DropCandidate>()
+  for (const segment of segments) {
+    for (const source of segment.sources ?? []) {
+      Object.keys(source.files).forEach((filePath, rank) => {
+        const key = fileKey(source.repoPath, filePath)
+        const existing = byKey.get(key)
+        if (existing) {
+          existing.sourceCount++
+          existing.bestRank = Math.min(existing.bestRank, rank)
+          return
+        }
+        byKey.set(key, { repoPath: source.repoPath, path: filePath, tokens: 0, sourceCount: 1, bestRank: rank })
+      })
+    }
+  }
+
+  // Each file is sized as rendered in every segment that carries it, since dropping removes it from all of them
+  for (const segment of segments) {
+    if (!segment.sources) continue
+    const sizedInSegment = new Set<string>()
+    for (const source of segment.sources) {
+      for (const [filePath, ranges] of Object.entries(source.files)) {
+        const key = fileKey(source.repoPath, filePath)
+        if (sizedInSegment.has(key)) continue
+        sizedInSegment.add(key)
+        const text = await build({
+          repoPath: source.repoPath,
+          explanation: '',
+          files: { [filePath]: ranges },
+          fullFile: !!segment.fullFile,
+        })
+        byKey.get(key)!.tokens += estimateTokens(text)
+      }
+    }
+  }
+
+  return [...byKey.values()].sort(
+    (a, b) => a.sourceCount - b.sourceCount || b.bestRank - a.bestRank || b.tokens - a.tokens,
+  )
+}
+
+function withoutFiles(sources: ContextSource[], dropped: Set<string>): ContextSource[] {
+  return sources
+    .map((s) => ({
+      ...s,
+      files: Object.fromEntries(Object.entries(s.files).filter(([p]) => !dropped.has(fileKey(s.repoPath, p)))),
+    }))
+    .filter((s) => Object.keys(s.files).length > 0)
+}
+
+async function renderSegments(
+  segments: PromptContextSegment[],
+  dropped: Set<string>,
+  build: RepoContextBuilder,
+): Promise<string> {
+  const texts: string[] = []
+  for (const segment of segments) {
+    if (!segment.sources) {
+      texts.push(segment.text)
+      continue
+    }
+    const touched = segment.sources.some((s) => Object.keys(s.files).some((p) => dropped.has(fileKey(s.repoPath, p))))
+    if (!touched) {
+      texts.push(segment.text)
+      continue
+    }
+    const remaining = withoutFiles(segment.sources, dropped)
+    texts.push(remaining.length > 0 ? (await renderContextSources(remaining, !!segment.fullFile, build)).text : '')
+  }
+  return joinSegments(texts.map((text) => ({ text })))
+}
+
+/**
+ * Estimates an LLM node's prompt against the model's context window. With `drop-files`, the lowest-priority
+ * files of context-converter segments are removed (and those segments re-rendered) until the prompt fits;
+ * `context` is what the node should send. `budget.fits` stays false when even that is not enough.
+ */
+export async function runPromptPreflight(args: {
+  model: string
+  contextWindow?: number
+  systemPrompt: string
+  query: string
+  segments: PromptContextSegment[]
+  maxTokens?: number
+  strategy: PromptBudgetStrategy
+  build: RepoContextBuilder
+}): Promise<{ budget: PromptBudget; context: string }> {
+  const window = args.contextWindow ?? null
+  const outputReserve = args.maxTokens ?? (window ? Math.min(DEFAULT_OUTPUT_RESERVE, Math.floor(window / 4)) : 0)
+  const systemPromptTokens = estimateTokens(args.systemPrompt)
+  const queryTokens = estimateTokens(args.query)
+  const limit = window === null ? Infinity : window - outputReserve
+  const overBy = (contextTokens: number) => systemPromptTokens + contextTokens + queryTokens - limit
+
+  let context = joinSegments(args.segments)
+  let contextTokens = estimateTokens(context)
+  const droppedFiles: PromptBudgetDroppedFile[] = []
+
+  if (overBy(contextTokens) > 0 && args.strategy === 'drop-files') {
+    const candidates = await rankDropCandidates(args.segments, args.build)
+    const dropped = new Set<string>()
+    // Estimated savings can fall short of the re-rendered result (headers, explanations), so re-measure and repeat
+    while (overBy(contextTokens) > 0 && candidates.length > 0) {
+      let toSave = overBy(contextTokens)
+      while (toSave > 0 && candidates.length > 0) {
+        const next = candidates.shift()!
+        dropped.add(fileKey(next.repoPath, next.path))
+        droppedFiles.push({ repoPath: next.repoPath, path: next.path, tokens: next.tokens })
+        toSave -= next.tokens
+      }
+      context = await renderSegments(args.segments, dropped, args.build)
+      contextTokens = estimateTokens(context)
+    }
+  }
+
+  return {
+    budget: {
+      model: args.model,
+      contextWindow: window,
+      outputReserve,
+      systemPromptTokens,
+      contextTokens,
+      queryTokens,
+      totalTokens: systemPromptTokens + contextTokens + queryTokens,
+      fits: overBy(contextTokens) <= 0,
+      droppedFiles,
+      checkedAt: new Date().toISOString(),
+    },
+    context,
+  }
+}
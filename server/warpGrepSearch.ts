@@ -0,0 +1,636 @@
+import { readFile, readdir, stat } from 'node:fs/promises'
+import path from 'node:path'
+import { execFile } from 'node:child_process'
+import { promisify } from 'node:util'
+import { DEFAULT_CODE_SEARCH_BUDGET } from '../shared/codeSearchBudget.js'
+import { writeSearchRunDump } from './searchRunLog.js'
+import { createRepoIgnore, ripgrepIgnoreArgs, type RepoIgnore } from './ignoreRules.js'
+import { correctReportedPaths, createRepoFileIndex, formatPathCorrections } from './pathResolver.js'
+import { formatRangeCorrection, validateReportedFiles } from './pathValidator.js'
+import { withRetry, type RetryAttempt } from './retry.js'
+import { postToolModelRequest } from './searchAgent.js'
+import { CodeSearchError, type CodeSearchRunArgs, type CodeSearchRunResult, type SearchTraceEntry } from './codeSearchTypes.js'
+
+const execFileAsync = promisify(execFile)
+
+const DEFAULT_ENDPOINT = 'https://api.morphllm.com/v1'
+const WARP_GREP_MODEL = 'morph-warp-grep-v1'
+// The protocol's turn count; a search budget can only lower it
+const MAX_TURNS = 4
+const MAX_GREP_LINES = 200
+const MAX_LIST_LINES = 200
+const MAX_READ_LINES = 800
+const LIST_DEPTH = 3
+const REPO_STRUCTURE_DEPTH = 2
+const CONTEXT_BUDGET_CHARS = 160_000
+const TOO_MUCH_OUTPUT = 'query not specific enough, tool called tried to return too much context and failed'
+
+type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string }
+
+type LineRange = [number, number]
+
+type ToolCall =
+  | { tool: 'grep'; pattern: string; subDir?: string; glob?: string }
+  | { tool: 'read'; path: string; lines?: string }
+  | { tool: 'list_directory'; path: string; pattern?: string }
+
+type FinishFile = { path: string; lines?: string }
+
+// What the tools of one run share: listings skip the configured ignores and grep passes them to rg
+type ToolContext = {
+  repoRoot: string
+  repoIgnore: RepoIgnore
+  ignorePatterns?: string[]
+  signal?: AbortSignal
+}
+
+// Verbatim from docs/MorphAPI.md; the model is trained on this exact prompt
+const SYSTEM_PROMPT = `You are a code search agent. Your task is to find all relevant code for a given search_string.
+
+### workflow
+You have exactly 4 turns. The 4th turn MUST be a \`finish\` call. Each turn allows up to 8 parallel tool calls.
+
+- Turn 1: Map the territory OR dive deep (based on search_string specificity)
+- Turn 2-3: Refine based on findings
+- Turn 4: MUST call \`finish\` with all relevant code locations
+- You MAY call \`finish\` early if confident—but never before at least 1 search turn.
+- The user strongly prefers if you can call the finish tool early, but you must be correct
+
+Remember, if the task feels easy to you, it is strongly desirable to call 'finish' early using fewer turns, but quality over speed
+
+### tools
+Tool calls use nested XML elements:
+\`\`\`xml
+<tool_name>
+  <parameter>value</parameter>
+</tool_name>
+\`\`\`
+
+### \`list_directory\`
+Directory tree view. Shows structure of a path, optionally filtered by regex pattern.
+
+Elements:
+- \`<path>\` (required): Directory path to list (use \`.\` for repo root)
+- \`<pattern>\` (optional): Regex to filter results
+
+Examples:
+\`\`\`
+<list_directory>
+  <path>src/services</path>
+</list_directory>
+
+<list_directory>
+  <path>lib/utils</path>
+  <pattern>.*\\.(ts|js)$</pattern>
+</list_directory>
+\`\`\`
+
+### \`read\`
+Read file contents. Supports multiple line ranges.
+- Returns numbered lines for easy reference
+- ALWAYS include import statements (usually lines 1-20). Better to over-include than miss context.
+
+Elements:
+- \`<path>\` (required): File path to read
+- \`<lines>\` (optional): Line ranges like "1-50,75-80,100-120" (omit to read entire file)
+
+Examples:
+\`\`\`
+<read>
+  <path>src/main.py</path>
+</read>
+
+<read>
+  <path>src/auth.py</path>
+  <lines>1-20,45-80,150-200</lines>
+</read>
+\`\`\`
+
+### \`grep\`
+Search for pattern matches across files. Returns matches with 1 line of context above and below.
+- Match lines use \`:\` separator → \`filepath:linenum:content\`
+- Context lines use \`-\` separator → \`filepath-linenum-content\`
+
+Elements:
+- \`<pattern>\` (required): Search pattern (regex). Use \`(a|b)\` for OR patterns.
+- \`<sub_dir>\` (optional): Subdirectory to search in (defaults to \`.\`)
+- \`<glob>\` (optional): File pattern filter like \`*.py\` or \`*.{ts,tsx}\`
+
+Examples:
+\`\`\`
+<grep>
+  <pattern>(authenticate|authorize|login)</pattern>
+  <sub_dir>src/auth/</sub_dir>
+</grep>
+
+<grep>
+  <pattern>class.*(Service|Controller)</pattern>
+  <glob>*.{ts,js}</glob>
+</grep>
+
+<grep>
+  <pattern>(DB_HOST|DATABASE_URL|connection)</pattern>
+  <glob>*.{py,yaml,env}</glob>
+  <sub_dir>lib/</sub_dir>
+</grep>
+\`\`\`
+
+### \`finish\`
+Submit final answer with all relevant code locations. Uses nested \`<file>\` elements.
+
+File elements:
+- \`<path>\` (required): File path
+- \`<lines>\` (optional): Line ranges like "1-50,75-80" (\`*\` for entire file)
+
+ALWAYS include import statements (usually lines 1-20). Better to over-include than miss context.
+
+Examples:
+\`\`\`
+<finish>
+  <file>
+    <path>src/auth.py</path>
+    <lines>1-15,25-50,75-80</lines>
+  </file>
+  <file>
+    <path>src/models/user.py</path>
+    <lines>*</lines>
+  </file>
+</finish>
+\`\`\`
+</tools>
+
+<strategy>
+**Before your first tool call, classify the search_string:**
+
+| Search_string Type | Round 1 Strategy | Early Finish? |
+|------------|------------------|---------------|
+| **Specific** (function name, error string, unique identifier) | 8 parallel greps on likely paths | Often by round 2 |
+| **Conceptual** (how does X work, where is Y handled) | list_directory + 2-3 broad greps | Rarely early |
+| **Exploratory** (find all tests, list API endpoints) | list_directory at multiple depths | Usually needs 3 rounds |
+
+**Parallel call patterns:**
+- **Shotgun grep**: Same pattern, 8 different directories—fast coverage
+- **Variant grep**: 8 pattern variations (synonyms, naming conventions)—catches inconsistent codebases
+- **Funnel**: 1 list_directory + 7 greps—orient and search simultaneously
+- **Deep read**: 8 reads on files you already identified—gather full context fast
+
+**Tool call expectations:**
+- Low quality tool calls are ones that give back sparse information. This either means they are not well thought out and are not educated guesses OR, they are too broad and give back too many results.
+- High quality tool calls strike a balance between complexity in the tool call to exclude results we know we don't want, and how wide the search space is so that we don't miss anything. It is ok to start off with wider search spaces, but is imperative that you use your intuition from there on out and seek high quality tool calls only.
+- You are not starting blind, you have some information about root level repo structure going in, so use that to prevent making trivial repo wide queries.
+- The grep tool shows you which file path and line numbers the pattern was found in, use this information smartly when trying to read the file.
+</strategy>
+
+<output_format>
+EVERY response MUST follow this exact format:
+
+1. First, wrap your reasoning in \`<think>...</think>\` tags containing:
+   - Search_string classification (specific/conceptual/exploratory)
+   - Confidence estimate (can I finish in 1-2 rounds?)
+   - This round's parallel strategy
+   - What signals would let me finish early?
+
+2. Then, output up to 8 tool calls using nested XML elements.
+
+Example:
+\`\`\`
+<think>
+This is a specific search_string about authentication. I'll grep for auth-related patterns.
+High confidence I can finish in 2 rounds if I find the auth module. I have already been shown the repo's structure at root
+Strategy: Shotgun grep across likely directories.
+</think>
+<grep>
+  <pattern>(authenticate|login|session)</pattern>
+  <sub_dir>src/auth/</sub_dir>
+</grep>
+<grep>
+  <pattern>(middleware|interceptor)</pattern>
+  <glob>*.{ts,js}</glob>
+</grep>
+<list_directory>
+  <path>src/auth</path>
+</list_directory>
+\`\`\`
+
+Finishing example:
+\`\`\`
+<think>
+I think I have a rough idea, but this is my last turn so I must call the finish tool regardless.
+</think>
+<finish>
+  <file>
+    <path>src/auth/login.py</path>
+    <lines>1-50</lines>
+  </file>
+  <file>
+    <path>src/middleware/session.py</path>
+    <lines>10-80</lines>
+  </file>
+</finish>
+\`\`\`
+
+No commentary outside \`<think>\`. No explanations after tool calls.
+</output_format>
+
+<finishing_requirements>
+When calling \`finish\`:
+- Include the import section (typically lines 1-20) of each file
+- Include all function/class definitions that are relevant
+- Include any type definitions, interfaces, or constants used
+- Better to over-include than leave the user missing context
+- If unsure about boundaries, include more rather than less
+</finishing_requirements>`
+
+function buildUserPrompt(repoStructure: string, userQuery: string) {
+  return ['<repo_structure>', repoStructure, '</repo_structure>', '', '<search_string>', userQuery, '</search_string>'].join('\n')
+}
+
+function turnCounterMessage(usedTurns: number, maxTurns: number) {
+  const remaining = maxTurns - usedTurns
+  if (remaining <= 1) {
+    return `You have used ${usedTurns} turns, you only have 1 turn remaining. You have run out of turns to explore the code base and MUST call the finish tool now`
+  }
+  return `You have used ${usedTurns} turn${usedTurns === 1 ? '' : 's'} and have ${remaining} remaining.`
+}
+
+function contextBudgetMessage(messages: ChatMessage[]) {
+  const used = messages.reduce((sum, m) => sum + m.content.length, 0)
+  const pct = Math.round((used / CONTEXT_BUDGET_CHARS) * 100)
+  return `<context_budget>${pct}% (${Math.round(used / 1000)}K/${CONTEXT_BUDGET_CHARS / 1000}K chars)</context_budget>`
+}
+
+function xmlChild(body: string, name: string) {
+  const m = new RegExp(`<${name}>([\\s\\S]*?)</${name}>`).exec(body)
+  const value = m?.[1].trim()
+  return value ? value : undefined
+}
+
+function escapeAttr(value: string) {
+  return value.replaceAll('&', '&amp;').replaceAll('"', '&quot;')
+}
+
+// @@@warp-grep-xml - tool calls are top-level XML elements after the <think> block; unknown elements are ignored
+function parseAssistantXml(content: string): { think: string; calls: ToolCall[]; finish: FinishFile[] | null } {
+  const think = [...content.matchAll(/<think>([\s\S]*?)<\/think>/g)].map((m) => m[1].trim()).join('\n\n')
+  const body = content.replace(/<think>[\s\S]*?<\/think>/g, '')
+  const calls: ToolCall[] = []
+  let finish: FinishFile[] | null = null
+
+  for (const m of body.matchAll(/<(grep|read|list_directory|finish)>([\s\S]*?)<\/\1>/g)) {
+    const [, tool, inner] = m
+    if (tool === 'finish') {
+      finish = [...inner.matchAll(/<file>([\s\S]*?)<\/file>/g)]
+        .map((f) => ({ path: xmlChild(f[1], 'path') ?? '', lines: xmlChild(f[1], 'lines') }))
+        .filter((f) => f.path)
+      continue
+    }
+    if (tool === 'grep') {
+      const pattern = xmlChild(inner, 'pattern')
+      if (pattern) calls.push({ tool, pattern, subDir: xmlChild(inner, 'sub_dir'), glob: xmlChild(inner, 'glob') })
+      continue
+    }
+    const toolPath = xmlChild(inner, 'path') ?? (tool === 'list_directory' ? '.' : undefined)
+    if (!toolPath) continue
+    calls.push(
+      tool === 'read'
+        ? { tool, path: toolPath, lines: xmlChild(inner, 'lines') }
+        : { tool: 'list_directory', path: toolPath, pattern: xmlChild(inner, 'pattern') },
+    )
+  }
+
+  return { think, calls, finish }
+}
+
+// "1-20,45-80" → [[1,20],[45,80]]; missing or `*` means the whole file
+function parseLineRanges(spec: string | undefined): LineRange[] {
+  if (!spec || spec.trim() === '*') return [[1, -1]]
+  const ranges: LineRange[] = []
+  for (const part of spec.split(',')) {
+    const m = /^\s*(\d+)\s*(?:-\s*(\d+))?\s*$/.exec(part)
+    if (!m) continue
+    const start = Math.max(1, Number(m[1]))
+    const end = m[2] === undefined ? start : Math.max(start, Number(m[2]))
+    ranges.push([start, end])
+  }
+  return ranges.length > 0 ? ranges : [[1, -1]]
+}
+
+// Model paths are repo-relative; a leading `/` or `./` is tolerated
+function toRepoRelative(toolPath: string) {
+  const normalized = path.posix.normalize(toolPath.trim().replace(/^\/+/, ''))
+  return normalized === '' ? '.' : normalized.replace(/\/+$/, '') || '.'
+}
+
+function resolveInRepo(repoRoot: string, relPath: string) {
+  const resolved = path.resolve(repoRoot, relPath)
+  const relative = path.relative(repoRoot, resolved)
+  if (relative.startsWith('..') || path.isAbsolute(relative)) return null
+  return resolved
+}
+
+async function grepTool(
+  { repoRoot, ignorePatterns, signal }: ToolContext,
+  call: Extract<ToolCall, { tool: 'grep' }>,
+) {
+  const subDir = call.subDir ? toRepoRelative(call.subDir) : '.'
+  if (!resolveInRepo(repoRoot, subDir)) return `Error: sub_dir escapes the repository: ${call.subDir}`
+
+  const rgArgs = ['--line-number', '--no-heading', '--color', 'never', '-C', '1', ...ripgrepIgnoreArgs(ignorePatterns)]
+  if (call.glob) rgArgs.push('--glob', call.glob)
+  // Searching the implicit cwd keeps output paths free of a `./` prefix; `--` keeps a sub_dir like `--pre=sh`
+  // from being read as a flag
+  rgArgs.push('-e', call.pattern)
+  if (subDir !== '.') rgArgs.push('--', subDir)
+
+  try {
+    const { stdout } = await execFileAsync('rg', rgArgs, { cwd: repoRoot, maxBuffer: 4 * 1024 * 1024, signal })
+    const lines = stdout.trimEnd().split('\n')
+    return lines.length > MAX_GREP_LINES ? TOO_MUCH_OUTPUT : lines.join('\n')
+  } catch (err: unknown) {
+    const code = (err as { code?: unknown }).code
+    if (code === 1) return 'No matches found.'
+    if (code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') return TOO_MUCH_OUTPUT
+    const stderr = (err as { stderr?: unknown }).stderr
+    const details = typeof stderr === 'string' ? stderr.trim() : ''
+    return `Error: grep failed (exit=${code ?? 'unknown'}): ${details || String(err)}`
+  }
+}
+
+async function readTool(repoRoot: string, call: Extract<ToolCall, { tool: 'read' }>) {
+  const relPath = toRepoRelative(call.path)
+  const resolved = resolveInRepo(repoRoot, relPath)
+  if (!resolved) return `Error: Path escapes the repository: ${call.path}`
+
+  let content: string
+  try {
+    content = await readFile(resolved, 'utf-8')
+  } catch (err) {
+    const e = err as NodeJS.ErrnoException
+    if (e.code === 'ENOENT') return `Error: File not found: ${call.path}`
+    if (e.code === 'EISDIR') return `Error: Path is a directory, not a file: ${call.path}`
+    return `Error: Failed to read file ${call.path}: ${e.message}`
+  }
+
+  const fileLines = content.split('\n')
+  const out: string[] = []
+  for (const [start, endRaw] of parseLineRanges(call.lines)) {
+    const end = endRaw === -1 ? fileLines.length : Math.min(endRaw, fileLines.length)
+    if (out.length > 0 && start <= end) out.push('...')
+    for (let n = start; n <= end; n++) out.push(`${n}|${fileLines[n - 1]}`)
+  }
+
+  if (out.length > MAX_READ_LINES) {
+    return [...out.slice(0, MAX_READ_LINES), `... truncated: showed ${MAX_READ_LINES} of ${out.length} lines, read a narrower range ...`].join('\n')
+  }
+  return out.length > 0 ? out.join('\n') : `(no lines in range; file has ${fileLines.length} lines)`
+}
+
+// Indented tree like `tree -L <depth> -i -F`, minus hidden and ignored entries; `pattern` filters file names
+async function listDirectoryLines(
+  { repoRoot, repoIgnore }: ToolContext,
+  relPath: string,
+  depth: number,
+  pattern?: RegExp,
+) {
+  const resolved = resolveInRepo(repoRoot, relPath)
+  if (!resolved) throw new Error(`Path escapes the repository: ${relPath}`)
+  const rootStat = await stat(resolved)
+  if (!rootStat.isDirectory()) throw new Error(`Path is not a directory: ${relPath}`)
+
+  const lines = [relPath === '.' ? `${path.basename(repoRoot)}/` : `${relPath}/`]
+
+  async function walk(dirAbs: string, level: number) {
+    let entries
+    try {
+      entries = await readdir(dirAbs, { withFileTypes: true })
+    } catch (err) {
+      lines.push(`${'  '.repeat(level)}[Error reading directory: ${(err as NodeJS.ErrnoException).code ?? String(err)}]`)
+      return
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name))
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue
+      const repoRel = path.relative(repoRoot, path.join(dirAbs, entry.name)).split(path.sep).join('/')
+      if (await repoIgnore.isIgnored(repoRel, entry.isDirectory())) continue
+      if (entry.isDirectory()) {
+        lines.push(`${'  '.repeat(level)}${entry.name}/`)
+        if (level < depth) await walk(path.join(dirAbs, entry.name), level + 1)
+      } else if (!pattern || pattern.test(entry.name)) {
+        lines.push(`${'  '.repeat(level)}${entry.name}`)
+      }
+    }
+  }
+
+  await walk(resolved, 1)
+  return lines
+}
+
+async function listDirectoryTool(ctx: ToolContext, call: Extract<ToolCall, { tool: 'list_directory' }>) {
+  let pattern: RegExp | undefined
+  try {
+    pattern = call.pattern ? new RegExp(call.pattern) : undefined
+  } catch {
+    return `Error: Invalid pattern: ${call.pattern}`
+  }
+  try {
+    const lines = await listDirectoryLines(ctx, toRepoRelative(call.path), LIST_DEPTH, pattern)
+    return lines.length > MAX_LIST_LINES ? TOO_MUCH_OUTPUT : lines.join('\n')
+  } catch (err) {
+    const e = err as NodeJS.ErrnoException
+    if (e.code === 'ENOENT') return `Error: Directory not found: ${call.path}`
+    return `Error: ${e.message}`
+  }
+}
+
+// Each result echoes its call so the model can match results to calls
+async function runToolCall(ctx: ToolContext, call: ToolCall) {
+  try {
+    if (call.tool === 'grep') {
+      const attrs = [`pattern="${escapeAttr(call.pattern)}"`]
+      if (call.subDir) attrs.push(`sub_dir="${escapeAttr(call.subDir)}"`)
+      if (call.glob) attrs.push(`glob="${escapeAttr(call.glob)}"`)
+      return `<grep ${attrs.join(' ')}>\n${await grepTool(ctx, call)}\n</grep>`
+    }
+    if (call.tool === 'read') {
+      const linesAttr = call.lines ? ` lines="${escapeAttr(call.lines)}"` : ''
+      return `<read path="${escapeAttr(call.path)}"${linesAttr}>\n${await readTool(ctx.repoRoot, call)}\n</read>`
+    }
+    return `<list_directory path="${escapeAttr(call.path)}">\n${await listDirectoryTool(ctx, call)}\n</list_directory>`
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    return `<${call.tool}>\nError: Tool "${call.tool}" failed unexpectedly: ${message}\n</${call.tool}>`
+  }
+}
+
+function describeToolCall(call: ToolCall) {
+  if (call.tool === 'grep') return `grep ${call.pattern}${call.subDir ? ` in ${call.subDir}` : ''}`
+  if (call.tool === 'read') return `read ${call.path}${call.lines ? `:${call.lines}` : ''}`
+  return `list_directory ${call.path}`
+}
+
+async function callWarpGrepOnce(
+  endpoint: string,
+  apiKey: string,
+  messages: ChatMessage[],
+  timeoutMs: number,
+  signal?: AbortSignal,
+) {
+  const data = await postToolModelRequest({
+    label: 'Morph',
+    url: `${endpoint.replace(/\/+$/, '')}/chat/completions`,
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: { model: WARP_GREP_MODEL, messages, temperature: 0.0, max_tokens: 2048 },
+    timeoutMs,
+    signal,
+  })
+
+  const content = (data as { choices?: { message?: { content?: unknown } }[] }).choices?.[0]?.message?.content
+  if (typeof content !== 'string') {
+    throw new Error(`Morph API error: unexpected_response=${JSON.stringify(data).slice(0, 1000)}`)
+  }
+  return content
+}
+
+export async function runWarpGrepSearch(args: CodeSearchRunArgs): Promise<CodeSearchRunResult> {
+  const endpoint = args.endpoint || DEFAULT_ENDPOINT
+  const debugMessages = args.debugMessages ?? false
+  const budget = args.budget ?? DEFAULT_CODE_SEARCH_BUDGET
+  const maxTurns = Math.min(budget.maxTurns, MAX_TURNS)
+  const timeoutMs = budget.callTimeoutSec * 1000
+
+  const repoStat = await stat(args.repoRoot)
+  if (!repoStat.isDirectory()) throw new Error(`repoRoot is not a directory: ${args.repoRoot}`)
+
+  const repoIgnore = createRepoIgnore(args.repoRoot, args.ignorePatterns)
+  const tools: ToolContext = { repoRoot: args.repoRoot, repoIgnore, ignorePatterns: args.ignorePatterns, signal: args.signal }
+  const repoStructure = (await listDirectoryLines(tools, '.', REPO_STRUCTURE_DEPTH)).slice(0, MAX_LIST_LINES)
+  const messages: ChatMessage[] = [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: buildUserPrompt(repoStructure.join('\n'), args.userQuery) },
+  ]
+
+  const trace: SearchTraceEntry[] = []
+  const messageStats: { turn: number; messagesChars: number; messagesCount: number }[] = []
+  let messageDumpPath: string | undefined
+
+  async function maybeDump(reason: string) {
+    if (!args.runId) return
+    if (!debugMessages && reason === 'success') return
+    messageDumpPath = await writeSearchRunDump(args.runId, {
+      runId: args.runId,
+      reason,
+      provider: 'warpgrep',
+      userQuery: args.userQuery,
+      repoRoot: args.repoRoot,
+      maxTurns,
+      budget,
+      trace,
+      messageStats,
+      messages,
+    })
+  }
+
+  async function finalize(finish: FinishFile[], think: string) {
+    const files: Record<string, LineRange[]> = {}
+    for (const f of finish) {
+      const relPath = toRepoRelative(f.path)
+      files[relPath] = [...(files[relPath] ?? []), ...parseLineRanges(f.lines)]
+    }
+
+    // WarpGrep has no feedback turn left after `finish`; bad paths and ranges are dropped instead of sent back
+    const pathFix = await correctReportedPaths(
+      args.repoRoot,
+      files,
+      createRepoFileIndex(args.repoRoot, repoIgnore),
+    )
+    const validation = await validateReportedFiles(args.repoRoot, pathFix.files)
+    const rejectedRanges = validation.rangeCorrections.filter((c) => c.action === 'rejected')
+    let explanation = think || 'WarpGrep finished without an explanation.'
+    const traceEntry = trace[trace.length - 1]
+    if (traceEntry && pathFix.corrections.length > 0) traceEntry.pathCorrections = pathFix.corrections
+    if (pathFix.corrections.length > 0) {
+      explanation += `\n\n[Note: Corrected file paths that do not exist: ${formatPathCorrections(pathFix.corrections)}]`
+    }
+    if (traceEntry && validation.invalid.length > 0) traceEntry.invalidPaths = validation.invalid
+    if (traceEntry && validation.rangeCorrections.length > 0) traceEntry.rangeCorrections = validation.rangeCorrections
+    if (validation.invalid.length > 0) {
+      explanation += `\n\n[Note: Removed file paths that do not exist: ${validation.invalid.join(', ')}]`
+    }
+    if (rejectedRanges.length > 0) {
+      explanation += `\n\n[Note: Removed line ranges outside their files: ${rejectedRanges.map(formatRangeCorrection).join(', ')}]`
+    }
+
+    await maybeDump('success')
+    return { report: { explanation, files: validation.files }, trace, messageStats, messageDumpPath }
+  }
+
+  function emitProgress() {
+    const traceEntry = trace[trace.length - 1]
+    const stats = messageStats[messageStats.length - 1]
+    if (!args.onProgress || !traceEntry) return
+    args.onProgress({
+      turn: traceEntry.turn,
+      steps: traceEntry.toolCalls,
+      messagesChars: stats?.messagesChars,
+      ...(traceEntry.invalidPaths ? { invalidPaths: traceEntry.invalidPaths } : {}),
+      ...(traceEntry.rangeCorrections ? { rangeCorrections: traceEntry.rangeCorrections } : {}),
+      ...(traceEntry.pathCorrections ? { pathCorrections: traceEntry.pathCorrections } : {}),
+    })
+  }
+
+  try {
+    for (let turn = 1; turn <= maxTurns; turn++) {
+      args.signal?.throwIfAborted()
+      messageStats.push({
+        turn,
+        messagesChars: messages.reduce((sum, m) => sum + m.content.length, 0),
+        messagesCount: messages.length,
+      })
+
+      const apiAttempts: RetryAttempt[] = []
+      let content: string
+      try {
+        content = await withRetry(() => callWarpGrepOnce(endpoint, args.apiKey, messages, timeoutMs, args.signal), {
+          maxAttempts: args.maxAttempts,
+          signal: args.signal,
+          onAttempt: (attempt) => apiAttempts.push(attempt),
+        })
+      } catch (err) {
+        trace.push({ turn, toolCalls: [], apiAttempts })
+        throw err
+      }
+      messages.push({ role: 'assistant', content })
+
+      const { think, calls, finish } = parseAssistantXml(content)
+      trace.push({
+        turn,
+        toolCalls: finish ? ['finish'] : calls.map(describeToolCall),
+        ...(apiAttempts.length > 1 ? { apiAttempts } : {}),
+      })
+      if (debugMessages) console.log(`[WarpGrep turn ${turn}] ${trace[trace.length - 1].toolCalls.join(', ')}`)
+
+      if (finish) {
+        const done = await finalize(finish, think)
+        emitProgress()
+        return done
+      }
+      if (calls.length === 0) {
+        throw new Error(`WarpGrep returned no tool calls before finish. content=${content.slice(0, 1000)}`)
+      }
+      if (turn === maxTurns) break
+
+      const results = await Promise.all(calls.map((call) => runToolCall(tools, call)))
+      emitProgress()
+      messages.push({ role: 'user', content: `${results.join('\n\n')}\n\n${turnCounterMessage(turn, maxTurns)}` })
+      messages[messages.length - 1].content += `\n${contextBudgetMessage(messages)}`
+    }
+
+    throw new Error(`WarpGrep did not call finish within ${maxTurns} turns.`)
+  } catch (err) {
+    await maybeDump(args.signal?.aborted ? 'cancelled' : 'error')
+    throw new CodeSearchError(err instanceof Error ? err.message : String(err), trace)
+  }
+}
@@ -41,15 +41,78 @@ export type ManualImportData = BaseNodeData & {
   output: CodeSearchOutput | null
 }
 
+// One finished turn of a multi-turn code search, streamed to the client while the search runs
+export type CodeSearchProgressTurn = {
+  turn: number
+  // One line per tool call, e.g. `view_file /repo/src/auth.ts:1-80` or `grep_search "session"`
+  steps: string[]
+  // Size of the conversation sent to the model this turn
+  messagesChars?: number
+  // Reported paths that did not exist; the model is asked to fix them
+  invalidPaths?: string[]
+  // Reported line ranges that were clamped to the file or rejected back to the model
+  rangeCorrections?: RangeCorrection[]
+  // Reported paths that did not exist but matched exactly one repo file, and were rewritten to it
+  pathCorrections?: PathCorrection[]
+}
+
+export type PathCorrection = {
+  from: string
+  to: string
+  match: 'case' | 'extension' | 'edit-distance'
+}
+
+// One reported line range that did not fit its file
+export type RangeCorrection = {
+  path: string
+  // null when the reported entry was not a [start, end] pair; the reason then quotes it
+  range: [number, number] | null
+  lineCount: number
+  // `clamped` ranges are kept as `corrected`; `rejected` ones go back to the model, or are dropped once retries run out
+  action: 'clamped' | 'rejected'
+  corrected?: [number, number]
+  reason: string
+}
+
+export type CodeSearchBudgetPreset = 'quick' | 'normal' | 'deep'
+
+// Limits of one code search run. The agent loops (Relace, LLM agent) honour every field; WarpGrep only the
+// call timeout and fewer turns than its own 4; local and mock searches ignore the budget.
+export type CodeSearchBudget = {
+  maxTurns: number
+  // Characters of one tool result the model gets to see
+  maxToolOutputChars: number
+  // Lines one view_file call returns
+  maxViewFileLines: number
+  // The Nth report naming nonexistent paths is accepted with those paths dropped; earlier ones go back to the model
+  pathValidationRetries: number
+  // Seconds one provider API call may take (per attempt)
+  callTimeoutSec: number
+}
+
 export type CodeSearchData = BaseNodeData & {
   repoPath: string
   query: string
   debugMessages: boolean
+  // Code search provider for this node; unset uses the active provider from API settings
+  providerId?: string
+  // LLM model for `llm` providers; unset uses the provider's default model
+  model?: string
+  // Unset runs with the `normal` preset
+  budget?: CodeSearchBudget
+  // Skip the server response cache lookup (a fresh result still refreshes the cache)
+  bypassCache?: boolean
   output: CodeSearchOutput | null
+  // Last output was served from the server response cache
+  cached?: boolean
+  // Turn-by-turn log of the running (or last) search in this session; not persisted
+  progress?: CodeSearchProgressTurn[]
 }
 
 export type ContextConverterData = BaseNodeData & {
   fullFile: boolean
+  // Widen line ranges to their enclosing functions/classes and pull in imports (TS/JS only)
+  expandToSyntax?: boolean
   output: string | null
   mergedFiles?: Record<string, [number, number][]>
   // Canonical structured inputs used for context-converter → context-converter chaining.
@@ -64,48 +127,180 @@ export type InstructionData = BaseNodeData & {
 
 export type ConductorOutput = Record<string, string>
 
+// Token counts reported by the provider; `cost` is USD and null when the model has no pricing configured
+export type LLMUsage = {
+  promptTokens: number
+  completionTokens: number
+  cost: number | null
+}
+
+export type ReasoningEffort = 'low' | 'medium' | 'high'
+
+// Optional sampling overrides; an unset field means "use the provider default"
+export type LLMGenerationParams = {
+  temperature?: number
+  maxTokens?: number
+  topP?: number
+  stop?: string[]
+  reasoningEffort?: ReasoningEffort
+}
+
 export type CodeSearchConductorData = BaseNodeData & {
   model: string
   query: string
+  params?: LLMGenerationParams
+  bypassCache?: boolean
   output: ConductorOutput | null
+  usage?: LLMUsage | null
+  cached?: boolean
+}
+
+// What an LLM node does when its prompt would not fit the model's context window
+export type PromptBudgetStrategy = 'block' | 'drop-files'
+
+export type PromptBudgetDroppedFile = {
+  repoPath: string
+  path: string
+  tokens: number
+}
+
+// Preflight check of an LLM node's prompt; token counts are server-side estimates
+export type PromptBudget = {
+  model: string
+  // null when the model has no context window configured, so nothing could be checked
+  contextWindow: number | null
+  // Kept free for the reply: the node's maxTokens, or a default share of the window
+  outputReserve: number
+  systemPromptTokens: number
+  contextTokens: number
+  queryTokens: number
+  totalTokens: number
+  fits: boolean
+  // Files the `drop-files` strategy removed from the context, lowest priority first
+  droppedFiles: PromptBudgetDroppedFile[]
+  checkedAt: string
 }
 
 export type LLMData = BaseNodeData & {
   model: string
   systemPrompt: string
   query: string
+  params?: LLMGenerationParams
+  // Structured output mode: JSON Schema source text; empty/undefined means plain text replies
+  jsonSchema?: string
+  jsonMaxAttempts?: number
+  bypassCache?: boolean
+  // Undefined means `block`
+  budgetStrategy?: PromptBudgetStrategy
+  budget?: PromptBudget
   output: string | null
+  // Parsed reply of the last successful structured run (`output` holds the same value as JSON text)
+  structuredOutput?: unknown
+  usage?: LLMUsage | null
+  cached?: boolean
 }
 
 // ===== API Settings Types =====
 
+// USD per million tokens
+export type LLMPricing = {
+  inputPerMTok: number
+  outputPerMTok: number
+}
+
 export type LLMModel = {
   id: string
   name: string
+  pricing?: LLMPricing
+  // Max prompt + completion tokens; filled in by model discovery or entered by hand, used by the prompt budget check
+  contextWindow?: number
+}
+
+// One entry of a provider's `GET /models` listing
+export type DiscoveredLLMModel = {
+  id: string
+  name?: string
+  contextWindow?: number
+}
+
+// `mock` never calls the network: replies come from `mockRules`, falling back to echoing the prompt
+export type LLMProviderKind = 'openai' | 'anthropic' | 'mock'
+
+// First rule whose pattern (case-insensitive regex) matches the user prompt answers with the file's content
+export type MockLLMRule = {
+  pattern: string
+  // Relative to the server's data directory (or `mockResponsesDir` when configured)
+  responseFile: string
+}
+
+// Where the API key goes: `Authorization: Bearer`, Azure's `api-key` header, `x-api-key`, or nowhere (gateways
+// that authenticate through custom headers)
+export type LLMAuthScheme = 'bearer' | 'api-key' | 'x-api-key' | 'none'
+
+export type LLMHttpHeader = {
+  name: string
+  value: string
 }
 
 export type LLMProvider = {
   id: string
   name: string
+  kind: LLMProviderKind
   endpoint: string
   apiKey: string
+  // Unset means the kind's usual scheme (Bearer for OpenAI-compatible, x-api-key for Anthropic)
+  authScheme?: LLMAuthScheme
+  // Sent with every request, replacing built-in headers of the same name
+  customHeaders?: LLMHttpHeader[]
+  // Full chat URL with `{endpoint}`, `{model}` and `{apiVersion}` placeholders, for deployment-based URLs
+  urlTemplate?: string
+  // Sent as the `api-version` query parameter (Azure OpenAI)
+  apiVersion?: string
+  // Attempts per request including the first; transient failures (429/5xx/timeouts) are retried with backoff
+  maxAttempts?: number
+  // Seconds one attempt may take before it is aborted and retried; a stream only has to start within it
+  timeoutSec?: number
   models: LLMModel[]
+  // Model ids from the last successful model discovery; configured models missing here are flagged
+  availableModelIds?: string[]
+  modelsCheckedAt?: string
+  mockRules?: MockLLMRule[]
 }
 
+// `warpgrep` is Morph's WarpGrep agent; `llm` runs the Relace-style agent loop on a configured LLM model;
+// `local` ranks ripgrep hits with BM25 and never leaves the machine; `mock` answers searches with a plain grep
+// over the repo. `llm`, `local` and `mock` need no code search API key
+export type CodeSearchProviderKind = 'relace' | 'warpgrep' | 'llm' | 'local' | 'mock'
+
 export type CodeSearchProvider = {
   id: string
   name: string
+  kind: CodeSearchProviderKind
   apiKey: string
+  // Base URL override for `warpgrep` (default https://api.morphllm.com/v1)
+  endpoint?: string
+  // Default model id for `llm`; Code Search nodes can pick another
+  model?: string
+  // false removes the bash tool from `relace` and `llm` searches; unset allows policy-checked read-only commands
+  allowBash?: boolean
+  maxAttempts?: number
+}
+
+export type ResponseCacheSettings = {
+  ttlHours: number
 }
 
 export type APISettings = {
   codeSearch: {
     activeProvider: string
     providers: CodeSearchProvider[]
+    // Gitignore-style patterns the search tools and repo browser skip on top of each repo's .gitignore
+    ignorePatterns: string[]
   }
   llm: {
     providers: LLMProvider[]
   }
+  cache: ResponseCacheSettings
 }
 
 export type Viewport = {
@@ -155,6 +350,9 @@ export type SpecRunResult = {
   outputs: Record<string, string>
   chainId?: string
   error?: string
+  usage?: LLMUsage
+  // Parsed values for output labels whose node ran in structured output mode
+  structuredOutputs?: Record<string, unknown>
 }
 
 export type Spec = {
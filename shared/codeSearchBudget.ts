@@ -0,0 +1,51 @@
+import type { CodeSearchBudget, CodeSearchBudgetPreset } from './appDataTypes'
+
+export const CODE_SEARCH_BUDGET_PRESETS: Record<CodeSearchBudgetPreset, CodeSearchBudget> = {
+  quick: { maxTurns: 3, maxToolOutputChars: 6_000, maxViewFileLines: 200, pathValidationRetries: 1, callTimeoutSec: 60 },
+  normal: { maxTurns: 12, maxToolOutputChars: 12_000, maxViewFileLines: 400, pathValidationRetries: 3, callTimeoutSec: 120 },
+  deep: { maxTurns: 24, maxToolOutputChars: 30_000, maxViewFileLines: 800, pathValidationRetries: 5, callTimeoutSec: 300 },
+}
+
+// Nodes without a budget run with these
+export const DEFAULT_CODE_SEARCH_BUDGET = CODE_SEARCH_BUDGET_PRESETS.normal
+
+// maxTurns leaves room for the forced report_back turns under the agent loop's 30-turn ceiling
+export const CODE_SEARCH_BUDGET_LIMITS: Record<keyof CodeSearchBudget, { min: number; max: number }> = {
+  maxTurns: { min: 1, max: 24 },
+  maxToolOutputChars: { min: 1_000, max: 100_000 },
+  maxViewFileLines: { min: 20, max: 2_000 },
+  pathValidationRetries: { min: 1, max: 10 },
+  callTimeoutSec: { min: 10, max: 600 },
+}
+
+const BUDGET_FIELDS = Object.keys(CODE_SEARCH_BUDGET_LIMITS) as (keyof CodeSearchBudget)[]
+
+/**
+ * Reads a search budget from untrusted input. Missing fields take the default budget's value; every invalid
+ * field is reported in `errors` and also replaced by the default, so callers can reject or repair.
+ * Missing / null input means "default budget" and is not an error.
+ */
+export function parseCodeSearchBudget(raw: unknown): { budget: CodeSearchBudget | undefined; errors: string[] } {
+  if (raw === undefined || raw === null) return { budget: undefined, errors: [] }
+  if (typeof raw !== 'object' || Array.isArray(raw)) return { budget: undefined, errors: ['budget must be an object'] }
+  const obj = raw as Record<string, unknown>
+  const budget: CodeSearchBudget = { ...DEFAULT_CODE_SEARCH_BUDGET }
+  const errors: string[] = []
+
+  for (const field of BUDGET_FIELDS) {
+    const value = obj[field]
+    if (value === undefined || value === null) continue
+    const { min, max } = CODE_SEARCH_BUDGET_LIMITS[field]
+    if (typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max) budget[field] = value
+    else errors.push(`${field} must be an integer between ${min} and ${max}`)
+  }
+
+  return { budget, errors }
+}
+
+// The preset a budget was picked from, or null once any field was edited by hand
+export function matchCodeSearchBudgetPreset(budget: CodeSearchBudget | undefined): CodeSearchBudgetPreset | null {
+  const value = budget ?? DEFAULT_CODE_SEARCH_BUDGET
+  const presets = Object.keys(CODE_SEARCH_BUDGET_PRESETS) as CodeSearchBudgetPreset[]
+  return presets.find((p) => BUDGET_FIELDS.every((f) => CODE_SEARCH_BUDGET_PRESETS[p][f] === value[f])) ?? null
+}
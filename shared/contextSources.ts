@@ -0,0 +1,55 @@
+import type { ContextSource } from './appDataTypes'
+import { mergeCodeSearchOutputs, type LineRange } from './rangeUtils'
+
+export type RepoContextBuilder = (args: {
+  repoPath: string
+  explanation: string
+  files: Record<string, LineRange[]>
+  fullFile: boolean
+}) => Promise<string>
+
+export const CODE_CONTEXT_END = '---end of code context---'
+
+/**
+ * Renders context-converter output: one block per repo (sorted by path), with the sources of a repo merged
+ * into one file list. The client builds blocks through `/api/repo-context`; the server calls `buildRepoContext` directly,
+ * so a budget preflight that drops files renders exactly what the converter would have.
+ */
+export async function renderContextSources(
+  sources: ContextSource[],
+  fullFile: boolean,
+  build: RepoContextBuilder,
+): Promise<{ text: string; mergedFiles: Record<string, LineRange[]>; repoPaths: string[] }> {
+  const contexts: string[] = []
+  const allMergedFiles: Record<string, LineRange[]> = {}
+
+  const byRepo = new Map<string, ContextSource[]>()
+  for (const s of sources) {
+    const arr = byRepo.get(s.repoPath) ?? []
+    arr.push(s)
+    byRepo.set(s.repoPath, arr)
+  }
+
+  const repoPaths = [...byRepo.keys()].sort()
+
+  for (const repoPath of repoPaths) {
+    const repoSources = byRepo.get(repoPath) ?? []
+    const mergedFiles = mergeCodeSearchOutputs(repoSources.map((s) => ({ files: s.files })))
+    const mergedFilesForDisplay = fullFile
+      ? Object.fromEntries(Object.keys(mergedFiles).map((p) => [p, [[1, -1]] as LineRange[]]))
+      : mergedFiles
+    Object.assign(allMergedFiles, mergedFilesForDisplay)
+
+    const explanation = repoSources
+      .map((s) => ({ id: s.sourceNodeId, text: (s.explanation ?? '').trim() }))
+      .filter((x) => x.text)
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map((x) => x.text)
+      .join('\n\n---\n\n')
+
+    contexts.push(await build({ repoPath, explanation, files: mergedFiles, fullFile }))
+  }
+
+  const text = contexts.join('\n\n---\n\n').trimEnd() + `\n\n${CODE_CONTEXT_END}\n\n`
+  return { text, mergedFiles: allMergedFiles, repoPaths }
+}
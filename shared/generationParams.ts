@@ -0,0 +1,77 @@
+import type { LLMGenerationParams, LLMProviderKind, ReasoningEffort } from './appDataTypes'
+
+export const REASONING_EFFORTS: ReasoningEffort[] = ['low', 'medium', 'high']
+
+export const GENERATION_PARAM_LIMITS = {
+  temperature: { min: 0, max: 2 },
+  topP: { min: 0, max: 1 },
+  maxTokens: { min: 1, max: 1_000_000 },
+  maxStopSequences: 4,
+}
+
+// @@@temperature-range - Anthropic's Messages API rejects temperatures above 1; OpenAI-compatible APIs accept up to 2
+export function temperatureRange(kind?: LLMProviderKind) {
+  return kind === 'anthropic' ? { min: 0, max: 1 } : GENERATION_PARAM_LIMITS.temperature
+}
+
+function isNumberInRange(value: unknown, range: { min: number; max: number }): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= range.min && value <= range.max
+}
+
+/**
+ * Reads generation params from untrusted input. Valid fields are kept in `params` and every
+ * invalid field is reported in `errors`, so callers can choose to reject or to drop them.
+ * Missing / null fields mean "provider default" and are not errors. `kind` narrows the temperature range to what
+ * that provider accepts; without it the widest range is allowed.
+ */
+export function parseGenerationParams(
+  raw: unknown,
+  kind?: LLMProviderKind,
+): { params: LLMGenerationParams | undefined; errors: string[] } {
+  if (raw === undefined || raw === null) return { params: undefined, errors: [] }
+  if (typeof raw !== 'object' || Array.isArray(raw)) return { params: undefined, errors: ['params must be an object'] }
+  const obj = raw as Record<string, unknown>
+  const params: LLMGenerationParams = {}
+  const errors: string[] = []
+  const { topP, maxTokens } = GENERATION_PARAM_LIMITS
+  const temperature = temperatureRange(kind)
+
+  if (obj.temperature !== undefined && obj.temperature !== null) {
+    if (isNumberInRange(obj.temperature, temperature)) params.temperature = obj.temperature
+    else {
+      const forKind = kind === 'anthropic' ? ' for Anthropic providers' : ''
+      errors.push(`temperature must be a number between ${temperature.min} and ${temperature.max}${forKind}`)
+    }
+  }
+
+  if (obj.topP !== undefined && obj.topP !== null) {
+    if (isNumberInRange(obj.topP, topP)) params.topP = obj.topP
+    else errors.push(`topP must be a number between ${topP.min} and ${topP.max}`)
+  }
+
+  if (obj.maxTokens !== undefined && obj.maxTokens !== null) {
+    if (isNumberInRange(obj.maxTokens, maxTokens) && Number.isInteger(obj.maxTokens)) params.maxTokens = obj.maxTokens
+    else errors.push(`maxTokens must be an integer between ${maxTokens.min} and ${maxTokens.max}`)
+  }
+
+  if (obj.stop !== undefined && obj.stop !== null) {
+    const stop = Array.isArray(obj.stop) ? obj.stop : null
+    if (!stop || !stop.every((s) => typeof s === 'string' && s.length > 0)) {
+      errors.push('stop must be an array of non-empty strings')
+    } else if (stop.length > GENERATION_PARAM_LIMITS.maxStopSequences) {
+      errors.push(`stop supports at most ${GENERATION_PARAM_LIMITS.maxStopSequences} sequences`)
+    } else if (stop.length > 0) {
+      params.stop = stop as string[]
+    }
+  }
+
+  if (obj.reasoningEffort !== undefined && obj.reasoningEffort !== null) {
+    if (REASONING_EFFORTS.includes(obj.reasoningEffort as ReasoningEffort)) {
+      params.reasoningEffort = obj.reasoningEffort as ReasoningEffort
+    } else {
+      errors.push(`reasoningEffort must be one of: ${REASONING_EFFORTS.join(', ')}`)
+    }
+  }
+
+  return { params: Object.keys(params).length > 0 ? params : undefined, errors }
+}
@@ -0,0 +1,40 @@
+import type { LLMPricing, LLMUsage } from './appDataTypes'
+
+export type LLMTokenCounts = {
+  promptTokens: number
+  completionTokens: number
+}
+
+export function priceLLMUsage(tokens: LLMTokenCounts, pricing?: LLMPricing | null): LLMUsage {
+  const cost = pricing
+    ? (tokens.promptTokens * pricing.inputPerMTok + tokens.completionTokens * pricing.outputPerMTok) / 1_000_000
+    : null
+  return { promptTokens: tokens.promptTokens, completionTokens: tokens.completionTokens, cost }
+}
+
+/**
+ * Sums usage records. Cost stays null if any unpriced call is included, so a partial total
+ * is never shown as the full cost.
+ */
+export function sumLLMUsage(items: Array<LLMUsage | null | undefined>): LLMUsage | null {
+  let total: LLMUsage | null = null
+  for (const u of items) {
+    if (!u) continue
+    if (!total) {
+      total = { ...u }
+      continue
+    }
+    total = {
+      promptTokens: total.promptTokens + u.promptTokens,
+      completionTokens: total.completionTokens + u.completionTokens,
+      cost: total.cost !== null && u.cost !== null ? total.cost + u.cost : null,
+    }
+  }
+  return total
+}
+
+export function formatLLMCost(cost: number | null) {
+  if (cost === null) return '—'
+  if (cost === 0) return '$0'
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+}
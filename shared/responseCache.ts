@@ -0,0 +1,2 @@
+// Hours a cached LLM / code-search response stays valid; 0 turns the cache off
+export const RESPONSE_CACHE_TTL_HOURS = { min: 0, max: 24 * 30, default: 24 }
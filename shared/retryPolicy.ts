@@ -0,0 +1,4 @@
+// Per-provider bound on how many times one API call may be attempted (first try + retries)
+export const PROVIDER_MAX_ATTEMPTS = { min: 1, max: 10, default: 3 }
+// Per-provider bound on one attempt of an LLM call, in seconds; a stream only needs to open within it
+export const PROVIDER_TIMEOUT_SEC = { min: 10, max: 600, default: 120 }
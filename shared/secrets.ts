@@ -0,0 +1,8 @@
+// Stands in for a stored API key in everything the browser sees; the key itself never leaves the server
+export const MASKED_SECRET = '••••••••'
+
+export function isMaskedSecret(value: string) {
+  return value === MASKED_SECRET
+}
+
+export type SecretScope = 'llm' | 'code-search'
@@ -0,0 +1,44 @@
+/**
+ * Incremental parser for `text/event-stream` bodies.
+ * Feed decoded text chunks with `push`; `onData` receives the joined `data:` payload of each event.
+ */
+export function createSseParser(onData: (data: string) => void) {
+  let buffer = ''
+  let dataLines: string[] = []
+
+  function dispatch() {
+    if (dataLines.length === 0) return
+    const data = dataLines.join('\n')
+    dataLines = []
+    onData(data)
+  }
+
+  function handleLine(rawLine: string) {
+    const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine
+    if (line === '') {
+      dispatch()
+      return
+    }
+    if (line.startsWith(':')) return
+    if (!line.startsWith('data:')) return
+    const value = line.slice('data:'.length)
+    dataLines.push(value.startsWith(' ') ? value.slice(1) : value)
+  }
+
+  return {
+    push(chunk: string) {
+      buffer += chunk
+      let idx = buffer.indexOf('\n')
+      while (idx !== -1) {
+        handleLine(buffer.slice(0, idx))
+        buffer = buffer.slice(idx + 1)
+        idx = buffer.indexOf('\n')
+      }
+    },
+    flush() {
+      if (buffer) handleLine(buffer)
+      buffer = ''
+      dispatch()
+    },
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Pulls the JSON object out of a model reply that may wrap it in a ```json fence or surrounding prose.
+ */
+export function extractJsonObject(text: string): string {
+  const t = text.trim()
+  const fenced = t.match(/```(?:json)?\s*([\s\S]*?)\s*```/i)
+  if (fenced?.[1]) return fenced[1].trim()
+  const first = t.indexOf('{')
+  const last = t.lastIndexOf('}')
+  if (first !== -1 && last !== -1 && last > first) return t.slice(first, last + 1)
+  return t
+}
+
+// Total model calls allowed for a structured-output node (first attempt + repair retries)
+export const STRUCTURED_OUTPUT_ATTEMPTS = { min: 1, max: 5, default: 3 }
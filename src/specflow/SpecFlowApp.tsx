@@ -3,8 +3,9 @@ import { ReactFlow, Background, MiniMap } from '@xyflow/react'
 import '@xyflow/react/dist/style.css'
 
 import { useAppData, useNodeRunner, useChainRunner, useClipboard, useHotkeys, useSpecRunner } from './hooks'
-import { NodeSidebar, ToolbarButton, MultiSelectInfo, APISettingsModal, SettingsIcon, DropdownMenu, CanvasFilePicker, CanvasSettingsModal, CanvasIcon, SpecDashboard } from './components'
+import { NodeSidebar, ToolbarButton, MultiSelectInfo, APISettingsModal, SettingsIcon, DropdownMenu, CanvasFilePicker, CanvasSettingsModal, CanvasIcon, SpecDashboard, SearchHistoryModal } from './components'
 import type { APISettings, AppData, Spec, Viewport } from './types'
+import type { SearchRunSummary } from './api'
 import type { Dispatch, RefObject, SetStateAction, MouseEvent as ReactMouseEvent } from 'react'
 import {
   HandIcon,
@@ -17,6 +18,7 @@ import {
   LLMIcon,
   ResetIcon,
   SpecIcon,
+  HistoryIcon,
 } from './components/Icons'
 import { ChainManager } from './ChainManager'
 import { canRunFromPredecessors, predecessors, sameIdSet, uid } from './utils'
@@ -130,6 +132,7 @@ function SpecFlowAppLoaded(props: ReturnType<typeof useAppData> & { appData: App
   const [expandedNodeField, setExpandedNodeField] = useState<ExpandedNodeField | null>(null)
   const expandedFieldTokenRef = useRef(0)
   const [isSpecDashboardOpen, setIsSpecDashboardOpen] = useState(false)
+  const [isSearchHistoryOpen, setIsSearchHistoryOpen] = useState(false)
 
   const language = appData.ui.language
 
@@ -273,6 +276,24 @@ function SpecFlowAppLoaded(props: ReturnType<typeof useAppData> & { appData: App
     [updateActiveCanvas],
   )
 
+  const closeSearchHistory = useCallback(() => setIsSearchHistoryOpen(false), [])
+
+  // Providers deleted since the run fall back to the active one rather than pointing at a missing id
+  const recreateSearchNode = useCallback(
+    (run: SearchRunSummary) => {
+      const providers = appData.apiSettings.codeSearch.providers
+      const providerId = run.provider && providers.some((p) => p.id === run.provider) ? run.provider : undefined
+      const nodeId = addNode('code-search', liveViewportRef.current)
+      patchNodeByIdInTab(activeTab.id, nodeId, (n) =>
+        n.type === 'code-search'
+          ? { ...n, data: { ...n.data, repoPath: run.repoPath, query: run.query, providerId, model: run.model } }
+          : n,
+      )
+      setIsSearchHistoryOpen(false)
+    },
+    [activeTab.id, addNode, appData.apiSettings.codeSearch.providers, patchNodeByIdInTab],
+  )
+
   const nodeTypes = useMemo(
     () => ({
       'code-search': CodeSearchNodeView,
@@ -541,6 +562,13 @@ function SpecFlowAppLoaded(props: ReturnType<typeof useAppData> & { appData: App
               onClick={() => setIsSpecDashboardOpen((prev) => !prev)}
               isActive={isSpecDashboardOpen}
             />
+            <ToolbarButton
+              icon={<HistoryIcon />}
+              label={t(language, 'search_history_title')}
+              description={t(language, 'search_history_desc')}
+              onClick={() => setIsSearchHistoryOpen(true)}
+              isActive={isSearchHistoryOpen}
+            />
             <ToolbarButton
               icon={<ResetIcon />}
               label={t(language, 'toolbar_reset')}
@@ -647,6 +675,10 @@ function SpecFlowAppLoaded(props: ReturnType<typeof useAppData> & { appData: App
         onClose={() => setIsSettingsOpen(false)}
       />
 
+      {isSearchHistoryOpen && (
+        <SearchHistoryModal onClose={closeSearchHistory} onRecreateNode={recreateSearchNode} language={language} />
+      )}
+
       <CanvasFilePicker
         isOpen={isLoadPickerOpen}
         mode="load"
@@ -1,6 +1,22 @@
 import type { Edge } from '@xyflow/react'
-import type { AppData, AppNode, CodeSearchOutput, Spec } from './types'
-import type { ManualImportItem } from '../../shared/appDataTypes'
+import type { AppData, AppNode, CodeSearchOutput, LLMProvider, Spec } from './types'
+import type {
+  CodeSearchBudget,
+  CodeSearchProgressTurn,
+  ContextSource,
+  DiscoveredLLMModel,
+  LLMGenerationParams,
+  LLMProviderKind,
+  LLMUsage,
+  ManualImportItem,
+  PromptBudget,
+  PathCorrection,
+  PromptBudgetStrategy,
+  RangeCorrection,
+} from '../../shared/appDataTypes'
+import { createSseParser } from '../../shared/sseParser'
+import { extractJsonObject } from '../../shared/structuredOutput'
+import type { SecretScope } from '../../shared/secrets'
 
 export type SavedCanvasFile = {
   version: 1
@@ -76,17 +92,48 @@ export async function deleteCanvasFile(p: string): Promise<void> {
   }
 }
 
-export async function runCodeSearch(args: { repoPath: string; query: string; debugMessages?: boolean; signal?: AbortSignal }) {
-  const res = await fetch('/api/relace-search', {
+type CodeSearchResult = { report: CodeSearchOutput; trace: { turn: number; toolCalls: string[] }[]; cached?: boolean }
+
+export async function runCodeSearch(args: {
+  repoPath: string
+  query: string
+  debugMessages?: boolean
+  bypassCache?: boolean
+  // Overrides the active code search provider
+  providerId?: string
+  // Model for `llm` code search providers
+  model?: string
+  // Unset runs with the `normal` preset
+  budget?: CodeSearchBudget
+  signal?: AbortSignal
+  // Streams the search; called once per finished turn
+  onProgress?: (turn: CodeSearchProgressTurn) => void
+}): Promise<CodeSearchResult> {
+  const { signal, onProgress, ...body } = args
+  const res = await fetch(onProgress ? '/api/relace-search/stream' : '/api/relace-search', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      repoPath: args.repoPath,
-      query: args.query,
-      debugMessages: args.debugMessages,
-    }),
-    signal: args.signal,
+    body: JSON.stringify(body),
+    signal,
   })
+  if (onProgress && res.ok) {
+    // @@@search-stream - the final `done` event carries the same payload as the JSON endpoint
+    let result = null as CodeSearchResult | null
+    await readEventStream(res, (event) => {
+      if (event.type === 'progress' && event.turn && typeof event.turn === 'object') {
+        onProgress(event.turn as CodeSearchProgressTurn)
+        return
+      }
+      if (event.type === 'error') {
+        throw new Error(typeof event.error === 'string' ? event.error : JSON.stringify(event.error))
+      }
+      if (event.type === 'done' && event.report && typeof event.report === 'object') {
+        result = event as unknown as CodeSearchResult
+      }
+    })
+    if (!result) throw new Error('Code search stream ended before completion')
+    return result
+  }
   const text = await res.text()
   let data: unknown = null
   try {
@@ -102,7 +149,69 @@ export async function runCodeSearch(args: { repoPath: string; query: string; deb
     throw new Error(msg)
   }
   if (!data) throw new Error(`Invalid JSON from /api/relace-search (HTTP ${res.status})`)
-  return data as { report: CodeSearchOutput; trace: { turn: number; toolCalls: string[] }[] }
+  return data as CodeSearchResult
+}
+
+// Mirrors server/searchRunLog.ts SearchRunLogEntry
+export type SearchRunSummary = {
+  id: string
+  startedAt: string
+  durationMs: number
+  repoPath: string
+  query: string
+  provider?: string
+  model?: string
+  ok: boolean
+  error?: string
+  cancelled?: boolean
+  cached?: boolean
+  trace?: {
+    turn: number
+    toolCalls: string[]
+    pathValidationRetry?: boolean
+    invalidPaths?: string[]
+    rangeCorrections?: RangeCorrection[]
+    pathCorrections?: PathCorrection[]
+  }[]
+  reportFilesCount?: number
+  messageDumpPath?: string
+}
+
+export type SearchRunDumpMessage = {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content?: string | null
+  tool_calls?: { id: string; function: { name: string; arguments: string } }[]
+  tool_call_id?: string
+}
+
+export type SearchRunDump = {
+  runId: string
+  reason: string
+  provider?: string
+  userQuery: string
+  repoRoot: string
+  maxTurns: number
+  messages: SearchRunDumpMessage[]
+}
+
+export async function fetchSearchRunLogs(limit: number): Promise<SearchRunSummary[]> {
+  const res = await fetch(`/api/relace-search/logs?limit=${limit}`)
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) {
+    throw new Error(typeof data?.error === 'string' ? data.error : JSON.stringify(data))
+  }
+  if (!Array.isArray(data?.entries)) throw new Error('Invalid /api/relace-search/logs response')
+  return data.entries as SearchRunSummary[]
+}
+
+export async function fetchSearchRunDump(runId: string): Promise<SearchRunDump> {
+  const res = await fetch(`/api/relace-search/logs/${encodeURIComponent(runId)}`)
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) {
+    throw new Error(typeof data?.error === 'string' ? data.error : JSON.stringify(data))
+  }
+  if (!Array.isArray(data?.dump?.messages)) throw new Error('Invalid /api/relace-search/logs response')
+  return data.dump as SearchRunDump
 }
 
 export async function listRepoDir(args: { repoPath: string; dir: string; signal?: AbortSignal }) {
@@ -163,35 +272,130 @@ export async function buildRepoContext(args: {
   return data.text as string
 }
 
-export async function runLLM(args: {
+export async function expandRangesToSyntax(args: { repoPath: string; files: CodeSearchOutput['files']; signal?: AbortSignal }) {
+  const res = await fetch('/api/repo-context/expand', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ repoPath: args.repoPath, files: args.files }),
+    signal: args.signal,
+  })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) {
+    throw new Error(typeof data?.error === 'string' ? data.error : JSON.stringify(data))
+  }
+  if (!data?.files || typeof data.files !== 'object') throw new Error('Invalid /api/repo-context/expand response')
+  return data.files as CodeSearchOutput['files']
+}
+
+async function readEventStream(res: Response, onEvent: (event: Record<string, unknown>) => void) {
+  if (!res.body) throw new Error('Empty stream body')
+  const parser = createSseParser((data) => {
+    let event: unknown
+    try {
+      event = JSON.parse(data) as unknown
+    } catch {
+      throw new Error(`Invalid stream event: ${data.slice(0, 500)}`)
+    }
+    if (event && typeof event === 'object') onEvent(event as Record<string, unknown>)
+  })
+  const decoder = new TextDecoder()
+  const reader = res.body.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    parser.push(decoder.decode(value, { stream: true }))
+  }
+  parser.push(decoder.decode())
+  parser.flush()
+}
+
+// One predecessor's text; context-converter segments also carry their sources so files can be dropped and re-rendered
+export type PromptContextSegment = { text: string; sources?: ContextSource[]; fullFile?: boolean }
+
+/**
+ * Estimates an LLM prompt against the model's context window on the server and applies `strategy` when it overflows.
+ * `context` is the predecessor text to send (with files dropped, if any).
+ */
+export async function preflightLLM(args: {
   model: string
   systemPrompt: string
   query: string
-  context: string
+  segments: PromptContextSegment[]
+  params?: LLMGenerationParams
+  strategy: PromptBudgetStrategy
   signal?: AbortSignal
-}) {
-  const res = await fetch('/api/llm', {
+}): Promise<{ budget: PromptBudget; context: string }> {
+  const { signal, ...body } = args
+  const res = await fetch('/api/llm/preflight', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(args),
-    signal: args.signal,
+    body: JSON.stringify(body),
+    signal,
   })
   const data = await res.json().catch(() => ({}))
   if (!res.ok) {
     throw new Error(typeof data?.error === 'string' ? data.error : JSON.stringify(data))
   }
-  if (typeof data?.output !== 'string') throw new Error('Invalid /api/llm response')
-  return data.output as string
+  if (!data?.budget || typeof data?.context !== 'string') throw new Error('Invalid /api/llm/preflight response')
+  return data as { budget: PromptBudget; context: string }
 }
 
-function extractJsonObject(text: string): string {
-  const t = text.trim()
-  const fenced = t.match(/```(?:json)?\s*([\s\S]*?)\s*```/i)
-  if (fenced?.[1]) return fenced[1].trim()
-  const first = t.indexOf('{')
-  const last = t.lastIndexOf('}')
-  if (first !== -1 && last !== -1 && last > first) return t.slice(first, last + 1)
-  return t
+export async function runLLM(args: {
+  model: string
+  systemPrompt: string
+  query: string
+  context: string
+  params?: LLMGenerationParams
+  // Structured output mode (no streaming): the server validates the reply and returns the parsed `json`
+  jsonSchema?: unknown
+  jsonMaxAttempts?: number
+  bypassCache?: boolean
+  signal?: AbortSignal
+  onDelta?: (text: string, output: string) => void
+}): Promise<{ output: string; usage: LLMUsage | null; json?: unknown; cached: boolean }> {
+  const { signal, onDelta, ...body } = args
+  const res = await fetch('/api/llm', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...body, stream: !!onDelta }),
+    signal,
+  })
+  if (!onDelta || !res.ok) {
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      throw new Error(typeof data?.error === 'string' ? data.error : JSON.stringify(data))
+    }
+    if (typeof data?.output !== 'string') throw new Error('Invalid /api/llm response')
+    return {
+      output: data.output as string,
+      usage: (data.usage ?? null) as LLMUsage | null,
+      ...('json' in data ? { json: data.json as unknown } : {}),
+      cached: data.cached === true,
+    }
+  }
+
+  // @@@llm-stream - accumulate deltas locally; the final `done` event carries the authoritative output
+  let output = ''
+  let finalOutput = null as string | null
+  let usage: LLMUsage | null = null
+  let cached = false
+  await readEventStream(res, (event) => {
+    if (event.type === 'delta' && typeof event.text === 'string') {
+      output += event.text
+      onDelta(event.text, output)
+      return
+    }
+    if (event.type === 'error') {
+      throw new Error(typeof event.error === 'string' ? event.error : JSON.stringify(event.error))
+    }
+    if (event.type === 'done' && typeof event.output === 'string') {
+      finalOutput = event.output
+      usage = (event.usage ?? null) as LLMUsage | null
+      cached = event.cached === true
+    }
+  })
+  if (finalOutput === null) throw new Error('LLM stream ended before completion')
+  return { output: finalOutput, usage, cached }
 }
 
 export async function runConductor(args: {
@@ -199,8 +403,10 @@ export async function runConductor(args: {
   query: string
   successorIds: string[]
   successorTitles?: Record<string, string>
+  params?: LLMGenerationParams
+  bypassCache?: boolean
   signal?: AbortSignal
-}): Promise<Record<string, string>> {
+}): Promise<{ output: Record<string, string>; usage: LLMUsage | null; cached: boolean }> {
   const ids = [...args.successorIds].filter(Boolean)
   if (ids.length === 0) throw new Error('Conductor has no code-search successors')
 
@@ -231,11 +437,13 @@ export async function runConductor(args: {
     'Return JSON now.',
   ].join('\n')
 
-  const raw = await runLLM({
+  const { output: raw, usage, cached } = await runLLM({
     model: args.model,
     systemPrompt,
     query: userQuery,
     context: '',
+    params: args.params,
+    bypassCache: args.bypassCache,
     signal: args.signal,
   })
 
@@ -262,5 +470,76 @@ export async function runConductor(args: {
   if (missing.length > 0) {
     throw new Error(`Conductor output missing queries for: ${missing.join(', ')}`)
   }
-  return out
+  return { output: out, usage, cached }
+}
+
+// An empty or masked `apiKey` makes the server use the key saved for `providerId`
+export async function discoverProviderModels(args: {
+  providerId: string
+  kind: LLMProviderKind
+  endpoint: string
+  apiKey: string
+  // Unsaved auth scheme / headers / URL template / API version; the saved ones are used when omitted
+  transport?: Pick<LLMProvider, 'authScheme' | 'customHeaders' | 'urlTemplate' | 'apiVersion'>
+  signal?: AbortSignal
+}): Promise<{ models: DiscoveredLLMModel[]; checkedAt: string }> {
+  const { signal, ...body } = args
+  const res = await fetch('/api/llm/models', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) {
+    throw new Error(typeof data?.error === 'string' ? data.error : JSON.stringify(data))
+  }
+  if (!Array.isArray(data?.models)) throw new Error('Invalid /api/llm/models response')
+  return data as { models: DiscoveredLLMModel[]; checkedAt: string }
+}
+
+/**
+ * Stores a provider's API key encrypted on the server ('' removes it).
+ * Resolves with the value the settings should hold from now on: the masked placeholder or ''.
+ */
+export async function setProviderSecret(args: { scope: SecretScope; providerId: string; value: string }): Promise<string> {
+  const res = await fetch('/api/secrets', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(args),
+  })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) {
+    throw new Error(typeof data?.error === 'string' ? data.error : JSON.stringify(data))
+  }
+  if (typeof data?.apiKey !== 'string') throw new Error('Invalid /api/secrets response')
+  return data.apiKey
+}
+
+export type ResponseCacheEntryInfo = {
+  key: string
+  kind: 'llm' | 'code-search'
+  createdAt: string
+  summary: string
+  expiresAt: string | null
+  sizeBytes: number
+}
+
+export async function fetchResponseCache(): Promise<{ entries: ResponseCacheEntryInfo[]; totalBytes: number }> {
+  const res = await fetch('/api/cache')
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) {
+    throw new Error(typeof data?.error === 'string' ? data.error : JSON.stringify(data))
+  }
+  if (!Array.isArray(data?.entries)) throw new Error('Invalid /api/cache response')
+  return data as { entries: ResponseCacheEntryInfo[]; totalBytes: number }
+}
+
+export async function clearResponseCache(): Promise<number> {
+  const res = await fetch('/api/cache', { method: 'DELETE' })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) {
+    throw new Error(typeof data?.error === 'string' ? data.error : JSON.stringify(data))
+  }
+  return typeof data?.removed === 'number' ? data.removed : 0
 }
@@ -1,8 +1,18 @@
 import { useState, useEffect } from 'react'
-import type { APISettings, LLMProvider, LLMModel } from '../types'
-import type { Language } from '../../../shared/appDataTypes'
+import type { APISettings, CodeSearchProvider, LLMPricing, LLMProvider, LLMProviderKind, LLMModel } from '../types'
+import type { DiscoveredLLMModel, Language } from '../../../shared/appDataTypes'
+import { PROVIDER_MAX_ATTEMPTS, PROVIDER_TIMEOUT_SEC } from '../../../shared/retryPolicy'
+import type { SecretScope } from '../../../shared/secrets'
+import { setProviderSecret } from '../api'
 import { t } from '../i18n'
 import { SettingsModalShell } from './SettingsModalShell'
+import { ResponseCachePanel } from './ResponseCachePanel'
+import { ModelDiscoveryPanel } from './ModelDiscoveryPanel'
+import { MockRulesEditor } from './MockRulesEditor'
+import { SecretKeyInput } from './SecretKeyInput'
+import { ProviderTransportFields } from './ProviderTransportFields'
+import { ModelSelect } from './ModelSelect'
+import { InlineCheckbox } from './InlineCheckbox'
 
 type Props = {
   isOpen: boolean
@@ -13,9 +23,46 @@ type Props = {
   onClose: () => void
 }
 
+// Empty input means "use the default"; out-of-range values are clamped
+function parseMaxAttemptsInput(raw: string): number | undefined {
+  if (raw.trim() === '') return undefined
+  const n = Math.round(Number(raw))
+  if (!Number.isFinite(n)) return undefined
+  return Math.min(PROVIDER_MAX_ATTEMPTS.max, Math.max(PROVIDER_MAX_ATTEMPTS.min, n))
+}
+
+function parseTimeoutSecInput(raw: string): number | undefined {
+  if (raw.trim() === '') return undefined
+  const n = Math.round(Number(raw))
+  if (!Number.isFinite(n)) return undefined
+  return Math.min(PROVIDER_TIMEOUT_SEC.max, Math.max(PROVIDER_TIMEOUT_SEC.min, n))
+}
+
+type KeyedProvider = { id: string; apiKey: string }
+
+// @@@save-secrets - changed keys go to the secret endpoint one by one; the settings themselves only keep placeholders
+async function saveChangedSecrets<P extends KeyedProvider>(scope: SecretScope, providers: P[], saved: KeyedProvider[]) {
+  const result: P[] = []
+  for (const p of providers) {
+    const savedKey = saved.find(s => s.id === p.id)?.apiKey ?? ''
+    if (p.apiKey === savedKey) {
+      result.push(p)
+      continue
+    }
+    result.push({ ...p, apiKey: await setProviderSecret({ scope, providerId: p.id, value: p.apiKey }) })
+  }
+  return result
+}
+
+function savedApiKey(providers: KeyedProvider[], providerId: string) {
+  return providers.find(p => p.id === providerId)?.apiKey ?? ''
+}
+
 export function APISettingsModal({ isOpen, settings, language, onLanguageChange, onSave, onClose }: Props) {
   const [localSettings, setLocalSettings] = useState<APISettings>(settings)
-  const [activeTab, setActiveTab] = useState<'codesearch' | 'llm'>('llm')
+  const [activeTab, setActiveTab] = useState<'codesearch' | 'llm' | 'cache'>('llm')
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
   const [selectedProviderId, setSelectedProviderId] = useState<string | null>(
     settings.llm.providers[0]?.id ?? null
   )
@@ -69,6 +116,47 @@ export function APISettingsModal({ isOpen, settings, language, onLanguageChange,
     })
   }
 
+  function updateModelPricing(providerId: string, model: LLMModel, field: keyof LLMPricing, raw: string) {
+    const value = raw.trim() === '' ? null : Number(raw)
+    if (value !== null && (!Number.isFinite(value) || value < 0)) return
+    const next: LLMPricing = { inputPerMTok: 0, outputPerMTok: 0, ...model.pricing, [field]: value ?? 0 }
+    // @@@pricing-clear - clearing the last non-zero price removes pricing, so cost shows as unknown again
+    const cleared = value === null && next.inputPerMTok === 0 && next.outputPerMTok === 0
+    updateModel(providerId, model.id, { pricing: cleared ? undefined : next })
+  }
+
+  function updateModelContextWindow(providerId: string, modelId: string, raw: string) {
+    const value = raw.trim() === '' ? undefined : Number(raw)
+    if (value !== undefined && (!Number.isInteger(value) || value <= 0)) return
+    updateModel(providerId, modelId, { contextWindow: value })
+  }
+
+  // @@@model-discovery - remember which ids the provider serves and pick up context windows for configured models
+  function applyDiscoveredModels(providerId: string, discovered: DiscoveredLLMModel[], checkedAt: string) {
+    const provider = localSettings.llm.providers.find(p => p.id === providerId)
+    if (!provider) return
+    const byId = new Map(discovered.map(m => [m.id, m] as const))
+    updateProvider(providerId, {
+      availableModelIds: discovered.map(m => m.id),
+      modelsCheckedAt: checkedAt,
+      models: provider.models.map(m => {
+        const contextWindow = byId.get(m.id)?.contextWindow
+        return contextWindow ? { ...m, contextWindow } : m
+      }),
+    })
+  }
+
+  function importModel(providerId: string, discovered: DiscoveredLLMModel) {
+    const provider = localSettings.llm.providers.find(p => p.id === providerId)
+    if (!provider || provider.models.some(m => m.id === discovered.id)) return
+    const model: LLMModel = {
+      id: discovered.id,
+      name: discovered.name ?? discovered.id,
+      ...(discovered.contextWindow ? { contextWindow: discovered.contextWindow } : {}),
+    }
+    updateProvider(providerId, { models: [...provider.models, model] })
+  }
+
   function removeModel(providerId: string, modelId: string) {
     const provider = localSettings.llm.providers.find(p => p.id === providerId)
     if (!provider) return
@@ -82,6 +170,7 @@ export function APISettingsModal({ isOpen, settings, language, onLanguageChange,
     const newProvider: LLMProvider = {
       id: `provider-${Date.now()}`,
       name: t(language, 'new_provider'),
+      kind: 'openai',
       endpoint: '',
       apiKey: '',
       models: []
@@ -113,21 +202,45 @@ export function APISettingsModal({ isOpen, settings, language, onLanguageChange,
     }
   }
 
-  function handleSave() {
-    onSave(localSettings)
+  function handleClose() {
+    setSaveError(null)
     onClose()
   }
 
+  async function handleSave() {
+    setIsSaving(true)
+    setSaveError(null)
+    try {
+      const llmProviders = await saveChangedSecrets('llm', localSettings.llm.providers, settings.llm.providers)
+      const codeSearchProviders = await saveChangedSecrets(
+        'code-search',
+        localSettings.codeSearch.providers,
+        settings.codeSearch.providers,
+      )
+      onSave({
+        ...localSettings,
+        llm: { ...localSettings.llm, providers: llmProviders },
+        codeSearch: { ...localSettings.codeSearch, providers: codeSearchProviders },
+      })
+      onClose()
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
   return (
     <SettingsModalShell
       isOpen={isOpen}
       title={t(language, 'settings_title')}
-      onClose={onClose}
+      onClose={handleClose}
       closeTitle={t(language, 'close')}
       footer={
         <>
-          <button className="sfCancelBtn" onClick={onClose}>{t(language, 'cancel')}</button>
-          <button className="sfSaveBtn" onClick={handleSave}>{t(language, 'save_settings')}</button>
+          {saveError && <span className="sfParamsError">{saveError}</span>}
+          <button className="sfCancelBtn" onClick={handleClose}>{t(language, 'cancel')}</button>
+          <button className="sfSaveBtn" onClick={handleSave} disabled={isSaving}>{t(language, 'save_settings')}</button>
         </>
       }
     >
@@ -157,6 +270,12 @@ export function APISettingsModal({ isOpen, settings, language, onLanguageChange,
         >
           {t(language, 'settings_tab_codesearch')}
         </button>
+        <button
+          className={`sfSettingsTab ${activeTab === 'cache' ? 'active' : ''}`}
+          onClick={() => setActiveTab('cache')}
+        >
+          {t(language, 'settings_tab_cache')}
+        </button>
       </div>
 
       <div className="sfSettingsContent">
@@ -193,27 +312,91 @@ export function APISettingsModal({ isOpen, settings, language, onLanguageChange,
                   />
                 </div>
 
+                <div className="sfFieldGroup">
+                  <label className="sfFieldLabel">{t(language, 'provider_kind')}</label>
+                  <select
+                    className="sfSelect"
+                    value={selectedProvider.kind}
+                    onChange={(e) => updateProvider(selectedProvider.id, { kind: e.target.value as LLMProviderKind })}
+                  >
+                    <option value="openai">{t(language, 'provider_kind_openai')}</option>
+                    <option value="anthropic">{t(language, 'provider_kind_anthropic')}</option>
+                    <option value="mock">{t(language, 'provider_kind_mock')}</option>
+                  </select>
+                </div>
+
+                {selectedProvider.kind === 'mock' ? (
+                  <MockRulesEditor
+                    rules={selectedProvider.mockRules ?? []}
+                    language={language}
+                    onChange={(mockRules) => updateProvider(selectedProvider.id, { mockRules })}
+                  />
+                ) : (
+                  <>
                 <div className="sfFieldGroup">
                   <label className="sfFieldLabel">{t(language, 'endpoint')}</label>
                   <input
                     className="sfInput"
                     value={selectedProvider.endpoint}
                     onChange={(e) => updateProvider(selectedProvider.id, { endpoint: e.target.value })}
-                    placeholder="e.g., https://api.openai.com/v1"
+                    placeholder={
+                      selectedProvider.kind === 'anthropic'
+                        ? 'e.g., https://api.anthropic.com/v1'
+                        : 'e.g., https://api.openai.com/v1'
+                    }
                   />
                 </div>
 
                 <div className="sfFieldGroup">
                   <label className="sfFieldLabel">{t(language, 'api_key')}</label>
-                  <input
-                    className="sfInput"
-                    type="password"
+                  <SecretKeyInput
                     value={selectedProvider.apiKey}
-                    onChange={(e) => updateProvider(selectedProvider.id, { apiKey: e.target.value })}
+                    savedValue={savedApiKey(settings.llm.providers, selectedProvider.id)}
                     placeholder="sk-..."
+                    language={language}
+                    onChange={(apiKey) => updateProvider(selectedProvider.id, { apiKey })}
                   />
                 </div>
 
+                <div className="sfFieldGroup">
+                  <label className="sfFieldLabel">{t(language, 'max_attempts')}</label>
+                  <input
+                    className="sfInput"
+                    type="number"
+                    min={PROVIDER_MAX_ATTEMPTS.min}
+                    max={PROVIDER_MAX_ATTEMPTS.max}
+                    step={1}
+                    value={selectedProvider.maxAttempts ?? ''}
+                    onChange={(e) => updateProvider(selectedProvider.id, { maxAttempts: parseMaxAttemptsInput(e.target.value) })}
+                    placeholder={String(PROVIDER_MAX_ATTEMPTS.default)}
+                  />
+                  <span className="sfFieldHint">{t(language, 'max_attempts_hint')}</span>
+                </div>
+
+                <div className="sfFieldGroup">
+                  <label className="sfFieldLabel">{t(language, 'request_timeout')}</label>
+                  <input
+                    className="sfInput"
+                    type="number"
+                    min={PROVIDER_TIMEOUT_SEC.min}
+                    max={PROVIDER_TIMEOUT_SEC.max}
+                    step={1}
+                    value={selectedProvider.timeoutSec ?? ''}
+                    onChange={(e) => updateProvider(selectedProvider.id, { timeoutSec: parseTimeoutSecInput(e.target.value) })}
+                    placeholder={String(PROVIDER_TIMEOUT_SEC.default)}
+                  />
+                  <span className="sfFieldHint">{t(language, 'request_timeout_hint')}</span>
+                </div>
+
+                <ProviderTransportFields
+                  provider={selectedProvider}
+                  savedHeaders={settings.llm.providers.find(p => p.id === selectedProvider.id)?.customHeaders ?? []}
+                  language={language}
+                  onChange={(patch) => updateProvider(selectedProvider.id, patch)}
+                />
+                  </>
+                )}
+
                 <div className="sfModelsSection">
                   <div className="sfModelsSectionHeader">
                     <span className="sfFieldLabel">{t(language, 'models')}</span>
@@ -230,12 +413,47 @@ export function APISettingsModal({ isOpen, settings, language, onLanguageChange,
                         onChange={(e) => updateModel(selectedProvider.id, model.id, { id: e.target.value })}
                         placeholder={t(language, 'model_id')}
                       />
+                      {selectedProvider.availableModelIds && !selectedProvider.availableModelIds.includes(model.id) && (
+                        <span className="sfModelUnlisted" title={t(language, 'model_unlisted_title')}>
+                          {t(language, 'model_unlisted')}
+                        </span>
+                      )}
                       <input
                         className="sfInput sfModelNameInput"
                         value={model.name}
                         onChange={(e) => updateModel(selectedProvider.id, model.id, { name: e.target.value })}
                         placeholder={t(language, 'display_name')}
                       />
+                      <input
+                        className="sfInput sfModelPriceInput"
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={model.contextWindow ?? ''}
+                        onChange={(e) => updateModelContextWindow(selectedProvider.id, model.id, e.target.value)}
+                        placeholder={t(language, 'model_context_window')}
+                        title={t(language, 'model_context_window_title')}
+                      />
+                      <input
+                        className="sfInput sfModelPriceInput"
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={model.pricing ? model.pricing.inputPerMTok : ''}
+                        onChange={(e) => updateModelPricing(selectedProvider.id, model, 'inputPerMTok', e.target.value)}
+                        placeholder={t(language, 'model_price_input')}
+                        title={t(language, 'model_price_input_title')}
+                      />
+                      <input
+                        className="sfInput sfModelPriceInput"
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={model.pricing ? model.pricing.outputPerMTok : ''}
+                        onChange={(e) => updateModelPricing(selectedProvider.id, model, 'outputPerMTok', e.target.value)}
+                        placeholder={t(language, 'model_price_output')}
+                        title={t(language, 'model_price_output_title')}
+                      />
                       <button
                         className="sfRemoveBtn"
                         onClick={() => removeModel(selectedProvider.id, model.id)}
@@ -248,6 +466,16 @@ export function APISettingsModal({ isOpen, settings, language, onLanguageChange,
                   {selectedProvider.models.length === 0 && (
                     <div className="sfEmptyModels">{t(language, 'no_models_configured')}</div>
                   )}
+
+                  {selectedProvider.kind !== 'mock' && (
+                    <ModelDiscoveryPanel
+                      key={selectedProvider.id}
+                      provider={selectedProvider}
+                      language={language}
+                      onChecked={(models, checkedAt) => applyDiscoveredModels(selectedProvider.id, models, checkedAt)}
+                      onImport={(model) => importModel(selectedProvider.id, model)}
+                    />
+                  )}
                 </div>
 
                 <button
@@ -292,33 +520,119 @@ export function APISettingsModal({ isOpen, settings, language, onLanguageChange,
                 p => p.id === localSettings.codeSearch.activeProvider
               )
               if (!activeProvider) return null
+              const updateActiveProvider = (patch: Partial<CodeSearchProvider>) => setLocalSettings(prev => ({
+                ...prev,
+                codeSearch: {
+                  ...prev.codeSearch,
+                  providers: prev.codeSearch.providers.map(p =>
+                    p.id === activeProvider.id ? { ...p, ...patch } : p
+                  )
+                }
+              }))
+              const bashToggle = (
+                <div className="sfFieldGroup">
+                  <InlineCheckbox
+                    label={t(language, 'codesearch_allow_bash')}
+                    checked={activeProvider.allowBash !== false}
+                    onChange={(checked) => updateActiveProvider({ allowBash: checked ? undefined : false })}
+                  />
+                  <span className="sfFieldHint">{t(language, 'codesearch_allow_bash_hint')}</span>
+                </div>
+              )
+              if (activeProvider.kind === 'mock') {
+                return <span className="sfFieldHint">{t(language, 'codesearch_mock_hint')}</span>
+              }
+              if (activeProvider.kind === 'local') {
+                return <span className="sfFieldHint">{t(language, 'codesearch_local_hint')}</span>
+              }
+              if (activeProvider.kind === 'llm') {
+                return (
+                  <>
+                    <ModelSelect
+                      value={activeProvider.model ?? ''}
+                      onChange={(model) => updateActiveProvider({ model: model || undefined })}
+                      settings={localSettings}
+                      label={t(language, 'codesearch_default_model')}
+                      selectPlaceholder={t(language, 'placeholder_select_model')}
+                      unlistedWarning={t(language, 'model_unlisted_warning')}
+                      noModelsPlaceholder={t(language, 'placeholder_no_models')}
+                    />
+                    <span className="sfFieldHint">{t(language, 'codesearch_llm_hint')}</span>
+                    {bashToggle}
+                  </>
+                )
+              }
               return (
+                <>
                 <div className="sfFieldGroup">
                   <label className="sfFieldLabel">{activeProvider.name} {t(language, 'api_key_for_provider')}</label>
-                  <input
-                    className="sfInput"
-                    type="password"
+                  <SecretKeyInput
                     value={activeProvider.apiKey}
-                    onChange={(e) => setLocalSettings(prev => ({
-                      ...prev,
-                      codeSearch: {
-                        ...prev.codeSearch,
-                        providers: prev.codeSearch.providers.map(p =>
-                          p.id === activeProvider.id ? { ...p, apiKey: e.target.value } : p
-                        )
-                      }
-                    }))}
+                    savedValue={savedApiKey(settings.codeSearch.providers, activeProvider.id)}
                     placeholder={t(language, 'enter_api_key_placeholder')}
+                    language={language}
+                    onChange={(apiKey) => updateActiveProvider({ apiKey })}
                   />
                 </div>
+                {activeProvider.kind === 'warpgrep' && (
+                  <div className="sfFieldGroup">
+                    <label className="sfFieldLabel">{t(language, 'endpoint')}</label>
+                    <input
+                      className="sfInput"
+                      value={activeProvider.endpoint ?? ''}
+                      onChange={(e) => updateActiveProvider({ endpoint: e.target.value || undefined })}
+                      placeholder="https://api.morphllm.com/v1"
+                    />
+                  </div>
+                )}
+                <div className="sfFieldGroup">
+                  <label className="sfFieldLabel">{t(language, 'max_attempts')}</label>
+                  <input
+                    className="sfInput"
+                    type="number"
+                    min={PROVIDER_MAX_ATTEMPTS.min}
+                    max={PROVIDER_MAX_ATTEMPTS.max}
+                    step={1}
+                    value={activeProvider.maxAttempts ?? ''}
+                    onChange={(e) => updateActiveProvider({ maxAttempts: parseMaxAttemptsInput(e.target.value) })}
+                    placeholder={String(PROVIDER_MAX_ATTEMPTS.default)}
+                  />
+                  <span className="sfFieldHint">{t(language, 'max_attempts_hint')}</span>
+                </div>
+                {activeProvider.kind === 'relace' && bashToggle}
+                </>
               )
             })()}
 
+            <div className="sfFieldGroup">
+              <label className="sfFieldLabel">{t(language, 'codesearch_ignore_patterns')}</label>
+              <textarea
+                className="sfTextarea"
+                rows={4}
+                value={localSettings.codeSearch.ignorePatterns.join('\n')}
+                onChange={(e) => setLocalSettings(prev => ({
+                  ...prev,
+                  // Blank lines are kept while editing; the server drops them when it reads the settings
+                  codeSearch: { ...prev.codeSearch, ignorePatterns: e.target.value.split('\n') }
+                }))}
+                placeholder="node_modules/"
+              />
+              <span className="sfFieldHint">{t(language, 'codesearch_ignore_patterns_hint')}</span>
+            </div>
+
             <p className="sfSettingsNote">
               {t(language, 'codesearch_note')}
             </p>
           </div>
         )}
+
+        {activeTab === 'cache' && (
+          <ResponseCachePanel
+            value={localSettings.cache}
+            onChange={(cache) => setLocalSettings(prev => ({ ...prev, cache }))}
+            language={language}
+          />
+        )}
       </div>
     </SettingsModalShell>
   )
@@ -0,0 +1,85 @@
+import type { CodeSearchBudget, CodeSearchBudgetPreset } from '../types'
+import type { Language } from '../../../shared/appDataTypes'
+import {
+  CODE_SEARCH_BUDGET_LIMITS,
+  CODE_SEARCH_BUDGET_PRESETS,
+  DEFAULT_CODE_SEARCH_BUDGET,
+  matchCodeSearchBudgetPreset,
+  parseCodeSearchBudget,
+} from '../../../shared/codeSearchBudget'
+import { t } from '../i18n'
+
+type Props = {
+  value: CodeSearchBudget | undefined
+  onChange: (budget: CodeSearchBudget | undefined) => void
+  disabled?: boolean
+  language: Language
+}
+
+const PRESETS = Object.keys(CODE_SEARCH_BUDGET_PRESETS) as CodeSearchBudgetPreset[]
+
+const FIELDS: { key: keyof CodeSearchBudget; label: string; step: number }[] = [
+  { key: 'maxTurns', label: 'budget_max_turns', step: 1 },
+  { key: 'pathValidationRetries', label: 'budget_path_retries', step: 1 },
+  { key: 'maxToolOutputChars', label: 'budget_tool_output_chars', step: 1000 },
+  { key: 'maxViewFileLines', label: 'budget_view_file_lines', step: 50 },
+  { key: 'callTimeoutSec', label: 'budget_call_timeout', step: 10 },
+]
+
+/**
+ * Turn, output and timeout limits of a Code Search node. Picking a preset fills every field; editing a field
+ * makes the budget custom. The `normal` preset is stored as no budget at all.
+ */
+export function CodeSearchBudgetFields({ value, onChange, disabled, language }: Props) {
+  const current = value ?? DEFAULT_CODE_SEARCH_BUDGET
+  const preset = matchCodeSearchBudgetPreset(value)
+  const { errors } = parseCodeSearchBudget(value)
+
+  function setField(key: keyof CodeSearchBudget, raw: string) {
+    const n = Number(raw)
+    if (raw.trim() === '' || !Number.isFinite(n)) return
+    onChange({ ...current, [key]: n })
+  }
+
+  return (
+    <div className="sfFieldGroup">
+      <label className="sfFieldLabel">{t(language, 'field_search_budget')}</label>
+      <select
+        className="sfSelect"
+        value={preset ?? 'custom'}
+        onChange={(e) => {
+          const next = e.target.value as CodeSearchBudgetPreset | 'custom'
+          if (next === 'custom') return
+          onChange(next === 'normal' ? undefined : { ...CODE_SEARCH_BUDGET_PRESETS[next] })
+        }}
+        disabled={disabled}
+      >
+        {PRESETS.map((p) => (
+          <option key={p} value={p}>
+            {t(language, `budget_preset_${p}`)}
+          </option>
+        ))}
+        <option value="custom">{t(language, 'budget_preset_custom')}</option>
+      </select>
+      <div className="sfParamsGrid" style={{ marginTop: 8 }}>
+        {FIELDS.map((field) => (
+          <label key={field.key} className="sfParamField">
+            <span>{t(language, field.label)}</span>
+            <input
+              className="sfInput"
+              type="number"
+              min={CODE_SEARCH_BUDGET_LIMITS[field.key].min}
+              max={CODE_SEARCH_BUDGET_LIMITS[field.key].max}
+              step={field.step}
+              value={current[field.key]}
+              onChange={(e) => setField(field.key, e.target.value)}
+              disabled={disabled}
+            />
+          </label>
+        ))}
+      </div>
+      <span className="sfFieldHint">{t(language, 'budget_hint')}</span>
+      {errors.length > 0 && <div className="sfParamsError">{errors.join('; ')}</div>}
+    </div>
+  )
+}
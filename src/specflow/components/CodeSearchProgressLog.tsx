@@ -0,0 +1,77 @@
+import type { CodeSearchProgressTurn, Language, RangeCorrection } from '../../../shared/appDataTypes'
+import { t } from '../i18n'
+
+type Props = {
+  turns: CodeSearchProgressTurn[]
+  running: boolean
+  language: Language
+}
+
+function formatCorrection(c: RangeCorrection) {
+  const target = c.corrected ? ` → ${c.corrected[0]}-${c.corrected[1]}` : ''
+  const range = c.range ? `:${c.range[0]}-${c.range[1]}` : ''
+  return `${c.path}${range}${target} (${c.reason})`
+}
+
+/**
+ * Turn-by-turn log of a Code Search node's search: the files the agent viewed, what it grepped, and corrected or
+ * rejected paths and line ranges.
+ */
+export function CodeSearchProgressLog({ turns, running, language }: Props) {
+  return (
+    <div className="sfFieldGroup">
+      <label className="sfFieldLabel">{t(language, 'search_progress_title')}</label>
+      {turns.length === 0 && running && <span className="sfFieldHint">{t(language, 'search_progress_waiting')}</span>}
+      <ul className="sfCompactList">
+        {turns.map((turn) => (
+          <li key={turn.turn} className="sfSearchProgressTurn">
+            <div className="sfSearchProgressHeader">
+              <span>
+                {t(language, 'search_progress_turn')} {turn.turn}
+              </span>
+              {turn.messagesChars !== undefined && (
+                <span>
+                  {turn.messagesChars.toLocaleString()} {t(language, 'search_progress_chars')}
+                </span>
+              )}
+            </div>
+            {turn.steps.map((step, idx) => (
+              <div key={idx} className="sfSearchProgressStep" title={step}>
+                {step}
+              </div>
+            ))}
+            {turn.invalidPaths && turn.invalidPaths.length > 0 && (
+              <div className="sfParamsError">
+                {t(language, 'search_progress_invalid_paths')}: {turn.invalidPaths.join(', ')}
+              </div>
+            )}
+            {turn.pathCorrections && turn.pathCorrections.length > 0 && (
+              <span className="sfFieldHint">
+                {t(language, 'search_progress_corrected_paths')}:{' '}
+                {turn.pathCorrections.map((c) => `${c.from} → ${c.to}`).join(', ')}
+              </span>
+            )}
+            {turn.rangeCorrections?.some((c) => c.action === 'rejected') && (
+              <div className="sfParamsError">
+                {t(language, 'search_progress_rejected_ranges')}:{' '}
+                {turn.rangeCorrections
+                  .filter((c) => c.action === 'rejected')
+                  .map(formatCorrection)
+                  .join(', ')}
+              </div>
+            )}
+            {turn.rangeCorrections?.some((c) => c.action === 'clamped') && (
+              <span className="sfFieldHint">
+                {t(language, 'search_progress_clamped_ranges')}:{' '}
+                {turn.rangeCorrections
+                  .filter((c) => c.action === 'clamped')
+                  .map(formatCorrection)
+                  .join(', ')}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
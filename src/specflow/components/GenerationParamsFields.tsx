@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import type { LLMGenerationParams } from '../types'
+import type { Language, LLMProviderKind, ReasoningEffort } from '../../../shared/appDataTypes'
+import {
+  GENERATION_PARAM_LIMITS,
+  REASONING_EFFORTS,
+  parseGenerationParams,
+  temperatureRange,
+} from '../../../shared/generationParams'
+import { t } from '../i18n'
+
+type Props = {
+  value: LLMGenerationParams | undefined
+  onChange: (params: LLMGenerationParams | undefined) => void
+  // Kind of the provider serving the node's model, when known; Anthropic caps the temperature at 1
+  providerKind?: LLMProviderKind
+  disabled?: boolean
+  language: Language
+}
+
+function withField<K extends keyof LLMGenerationParams>(
+  params: LLMGenerationParams | undefined,
+  key: K,
+  value: LLMGenerationParams[K] | undefined,
+): LLMGenerationParams | undefined {
+  const next: LLMGenerationParams = { ...params, [key]: value }
+  if (value === undefined) delete next[key]
+  return Object.keys(next).length > 0 ? next : undefined
+}
+
+function parseNumberInput(raw: string): number | undefined | null {
+  if (raw.trim() === '') return undefined
+  const n = Number(raw)
+  return Number.isFinite(n) ? n : null
+}
+
+/**
+ * Optional sampling overrides shared by LLM and Conductor nodes. Empty fields fall back to provider defaults.
+ * Mount with a per-node `key` so the stop-sequence draft resets when the selection changes.
+ */
+export function GenerationParamsFields({ value, onChange, providerKind, disabled, language }: Props) {
+  // @@@stop-draft - keep raw text locally so blank lines can be typed before they become entries
+  const [stopDraft, setStopDraft] = useState(() => (value?.stop ?? []).join('\n'))
+  const { errors } = parseGenerationParams(value, providerKind)
+  const limits = GENERATION_PARAM_LIMITS
+  const temperature = temperatureRange(providerKind)
+
+  function setNumber(key: 'temperature' | 'topP' | 'maxTokens', raw: string) {
+    const n = parseNumberInput(raw)
+    if (n === null) return
+    onChange(withField(value, key, n))
+  }
+
+  return (
+    <div className="sfFieldGroup">
+      <label className="sfFieldLabel">{t(language, 'field_generation_params')}</label>
+      <div className="sfParamsGrid">
+        <label className="sfParamField">
+          <span>{t(language, 'param_temperature')}</span>
+          <input
+            className="sfInput"
+            type="number"
+            min={temperature.min}
+            max={temperature.max}
+            step={0.1}
+            value={value?.temperature ?? ''}
+            onChange={(e) => setNumber('temperature', e.target.value)}
+            disabled={disabled}
+            placeholder={t(language, 'param_default')}
+          />
+        </label>
+        <label className="sfParamField">
+          <span>{t(language, 'param_top_p')}</span>
+          <input
+            className="sfInput"
+            type="number"
+            min={limits.topP.min}
+            max={limits.topP.max}
+            step={0.05}
+            value={value?.topP ?? ''}
+            onChange={(e) => setNumber('topP', e.target.value)}
+            disabled={disabled}
+            placeholder={t(language, 'param_default')}
+          />
+        </label>
+        <label className="sfParamField">
+          <span>{t(language, 'param_max_tokens')}</span>
+          <input
+            className="sfInput"
+            type="number"
+            min={limits.maxTokens.min}
+            step={1}
+            value={value?.maxTokens ?? ''}
+            onChange={(e) => setNumber('maxTokens', e.target.value)}
+            disabled={disabled}
+            placeholder={t(language, 'param_default')}
+          />
+        </label>
+        <label className="sfParamField">
+          <span>{t(language, 'param_reasoning_effort')}</span>
+          <select
+            className="sfSelect"
+            value={value?.reasoningEffort ?? ''}
+            onChange={(e) =>
+              onChange(withField(value, 'reasoningEffort', (e.target.value || undefined) as ReasoningEffort | undefined))
+            }
+            disabled={disabled}
+          >
+            <option value="">{t(language, 'param_default')}</option>
+            {REASONING_EFFORTS.map((effort) => (
+              <option key={effort} value={effort}>
+                {t(language, `param_effort_${effort}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <span className="sfFieldHint">
+        {t(language, providerKind === 'anthropic' ? 'param_temperature_hint_anthropic' : 'param_temperature_hint')}
+      </span>
+      <label className="sfParamField">
+        <span>{t(language, 'param_stop')}</span>
+        <textarea
+          className="sfTextarea"
+          rows={2}
+          value={stopDraft}
+          onChange={(e) => {
+            setStopDraft(e.target.value)
+            const stop = e.target.value.split('\n').filter((s) => s.length > 0)
+            onChange(withField(value, 'stop', stop.length > 0 ? stop : undefined))
+          }}
+          disabled={disabled}
+          placeholder={t(language, 'param_stop_placeholder')}
+        />
+      </label>
+      {errors.length > 0 && <div className="sfParamsError">{errors.join('; ')}</div>}
+    </div>
+  )
+}
@@ -172,6 +172,23 @@ export function SpecIcon({ size = 20 }: IconProps) {
   )
 }
 
+export function HistoryIcon({ size = 20 }: IconProps) {
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+    >
+      <path d="M3 12a9 9 0 1 0 3-6.7L3 8" />
+      <path d="M3 3v5h5" />
+      <path d="M12 7v5l3 2" />
+    </svg>
+  )
+}
+
 export function ResetIcon({ size = 20 }: IconProps) {
   return (
     <svg
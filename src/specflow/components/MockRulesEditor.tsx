@@ -0,0 +1,52 @@
+import type { Language } from '../../../shared/appDataTypes'
+import type { MockLLMRule } from '../types'
+import { t } from '../i18n'
+
+type Props = {
+  rules: MockLLMRule[]
+  language: Language
+  onChange: (rules: MockLLMRule[]) => void
+}
+
+/**
+ * Edits the ordered regex → response-file rules of a mock LLM provider.
+ */
+export function MockRulesEditor({ rules, language, onChange }: Props) {
+  function updateRule(index: number, patch: Partial<MockLLMRule>) {
+    onChange(rules.map((r, i) => (i === index ? { ...r, ...patch } : r)))
+  }
+
+  return (
+    <div className="sfModelsSection">
+      <div className="sfModelsSectionHeader">
+        <span className="sfFieldLabel">{t(language, 'mock_rules')}</span>
+        <button className="sfAddBtn" onClick={() => onChange([...rules, { pattern: '', responseFile: '' }])}>
+          {t(language, 'mock_add_rule')}
+        </button>
+      </div>
+      <span className="sfFieldHint">{t(language, 'mock_rules_hint')}</span>
+
+      {rules.map((rule, index) => (
+        <div key={index} className="sfModelRow">
+          <input
+            className="sfInput sfModelIdInput"
+            value={rule.pattern}
+            onChange={(e) => updateRule(index, { pattern: e.target.value })}
+            placeholder={t(language, 'mock_rule_pattern')}
+          />
+          <input
+            className="sfInput sfModelNameInput"
+            value={rule.responseFile}
+            onChange={(e) => updateRule(index, { responseFile: e.target.value })}
+            placeholder={t(language, 'mock_rule_file')}
+          />
+          <button className="sfRemoveBtn" onClick={() => onChange(rules.filter((_, i) => i !== index))}>
+            ×
+          </button>
+        </div>
+      ))}
+
+      {rules.length === 0 && <div className="sfEmptyModels">{t(language, 'mock_no_rules')}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import type { DiscoveredLLMModel, Language } from '../../../shared/appDataTypes'
+import type { LLMProvider } from '../types'
+import { discoverProviderModels } from '../api'
+import { t } from '../i18n'
+
+type Props = {
+  provider: LLMProvider
+  language: Language
+  // Called after a successful fetch so the provider can record which ids are still served
+  onChecked: (models: DiscoveredLLMModel[], checkedAt: string) => void
+  onImport: (model: DiscoveredLLMModel) => void
+}
+
+function formatContextWindow(tokens: number) {
+  return tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : String(tokens)
+}
+
+/**
+ * Fetches the provider's `/models` list and offers the models that are not configured yet for import.
+ * Mount with `key={provider.id}` so the fetched list does not leak across providers.
+ */
+export function ModelDiscoveryPanel({ provider, language, onChecked, onImport }: Props) {
+  const [discovered, setDiscovered] = useState<DiscoveredLLMModel[] | null>(null)
+  const [filter, setFilter] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleFetch() {
+    setLoading(true)
+    setError(null)
+    try {
+      const { models, checkedAt } = await discoverProviderModels({
+        providerId: provider.id,
+        kind: provider.kind,
+        endpoint: provider.endpoint,
+        apiKey: provider.apiKey,
+        transport: {
+          authScheme: provider.authScheme,
+          customHeaders: provider.customHeaders,
+          urlTemplate: provider.urlTemplate,
+          apiVersion: provider.apiVersion,
+        },
+      })
+      setDiscovered(models)
+      onChecked(models, checkedAt)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const configured = new Set(provider.models.map((m) => m.id))
+  const needle = filter.trim().toLowerCase()
+  const importable = (discovered ?? []).filter(
+    (m) => !configured.has(m.id) && (!needle || m.id.toLowerCase().includes(needle) || m.name?.toLowerCase().includes(needle)),
+  )
+
+  return (
+    <div className="sfModelDiscovery">
+      <div className="sfModelsSectionHeader">
+        <span className="sfFieldHint">
+          {provider.modelsCheckedAt
+            ? `${t(language, 'models_checked_at')} ${new Date(provider.modelsCheckedAt).toLocaleString()}`
+            : t(language, 'models_never_checked')}
+        </span>
+        <button className="sfAddBtn" onClick={handleFetch} disabled={loading || !provider.endpoint.trim()}>
+          {loading ? t(language, 'models_fetching') : t(language, 'models_fetch')}
+        </button>
+      </div>
+      {error && <div className="sfParamsError">{error}</div>}
+      {discovered && (
+        <>
+          <input
+            className="sfInput"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder={t(language, 'models_filter_placeholder')}
+          />
+          {importable.length === 0 ? (
+            <div className="sfFieldHint">{t(language, 'models_all_imported')}</div>
+          ) : (
+            <ul className="sfCompactList">
+              {importable.slice(0, 200).map((m) => (
+                <li key={m.id} className="sfCompactItem">
+                  <span className="sfCompactText" title={m.name ?? m.id}>{m.id}</span>
+                  {m.contextWindow && <span className="sfCompactMeta">{formatContextWindow(m.contextWindow)}</span>}
+                  <button className="sfAddBtn" onClick={() => onImport(m)}>
+                    {t(language, 'models_import')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
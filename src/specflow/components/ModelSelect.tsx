@@ -1,4 +1,4 @@
-import type { APISettings, LLMModel } from '../types'
+import type { APISettings, LLMModel, LLMProvider } from '../types'
 
 type Props = {
   value: string
@@ -8,6 +8,7 @@ type Props = {
   label?: string
   selectPlaceholder?: string
   noModelsPlaceholder?: string
+  unlistedWarning?: string
 }
 
 export function ModelSelect({
@@ -18,6 +19,7 @@ export function ModelSelect({
   label = 'Model',
   selectPlaceholder = 'Select a model...',
   noModelsPlaceholder = 'No models configured - open Settings to add',
+  unlistedWarning = 'This model is no longer listed by its provider',
 }: Props) {
   // Flatten all models from all providers with provider context
   const allModels: Array<{ model: LLMModel; providerName: string }> = []
@@ -46,6 +48,13 @@ export function ModelSelect({
   // Group models by provider for optgroup display
   const providerGroups = settings.llm.providers.filter(p => p.models.length > 0)
 
+  // @@@unlisted-models - only providers that went through model discovery can flag stale ids
+  const isUnlisted = (provider: LLMProvider, modelId: string) =>
+    !!provider.availableModelIds && !provider.availableModelIds.includes(modelId)
+  const selectedUnlisted = settings.llm.providers.some(
+    p => p.models.some(m => m.id === value) && isUnlisted(p, value)
+  )
+
   return (
     <div className="sfFieldGroup">
       <label className="sfFieldLabel">{label}</label>
@@ -60,12 +69,13 @@ export function ModelSelect({
           <optgroup key={provider.id} label={provider.name}>
             {provider.models.map(model => (
               <option key={model.id} value={model.id}>
-                {model.name}
+                {isUnlisted(provider, model.id) ? `⚠ ${model.name}` : model.name}
               </option>
             ))}
           </optgroup>
         ))}
       </select>
+      {selectedUnlisted && <div className="sfParamsError">{unlistedWarning}</div>}
     </div>
   )
 }
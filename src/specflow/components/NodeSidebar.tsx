@@ -5,12 +5,18 @@ import { ExpandableTextarea } from './ExpandableTextarea'
 import { InlineCheckbox } from './InlineCheckbox'
 import { CopyButton } from './CopyButton'
 import { ModelSelect } from './ModelSelect'
+import { GenerationParamsFields } from './GenerationParamsFields'
+import { CodeSearchBudgetFields } from './CodeSearchBudgetFields'
+import { PromptBudgetSummary } from './PromptBudgetSummary'
 import { OutputViewerModal } from './OutputViewerModal'
 import { ArchivedMemberModal } from './ArchivedMemberModal'
 import { RepoPickerModal } from './RepoPickerModal'
 import { t } from '../i18n'
 import type { ManualImportItem, Language } from '../../../shared/appDataTypes'
 import { CodeSearchOutputPreview } from './CodeSearchOutputPreview'
+import { CodeSearchProgressLog } from './CodeSearchProgressLog'
+import { formatLLMCost } from '../../../shared/llmUsage'
+import { STRUCTURED_OUTPUT_ATTEMPTS } from '../../../shared/structuredOutput'
 
 // @@@ isCodeSearchOutput - 类型守卫，判断 output 是否为 code-search 输出格式
 const isCodeSearchOutput = (
@@ -24,6 +30,11 @@ const isCodeSearchOutput = (
   )
 }
 
+// Same lookup as the server: the first provider listing the model serves it
+function modelProviderKind(apiSettings: APISettings, model: string) {
+  return apiSettings.llm.providers.find((p) => p.models.some((m) => m.id === model))?.kind
+}
+
 type Props = {
   selectedNode: AppNode | null
   multiSelectCount: number
@@ -129,6 +140,19 @@ export function NodeSidebar({
   const customColor = (selectedNode.data.customColor ?? '').trim()
 
   const outputTitle = t(language, 'sidebar_output')
+  const jsonSchemaError = (() => {
+    if (selectedNode.type !== 'llm') return null
+    const text = selectedNode.data.jsonSchema?.trim()
+    if (!text) return null
+    try {
+      const parsed = JSON.parse(text) as unknown
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? null : t(language, 'json_schema_not_object')
+    } catch (e) {
+      return `${t(language, 'json_schema_invalid')}: ${String((e as Error)?.message ?? e)}`
+    }
+  })()
+  const usage =
+    selectedNode.type === 'llm' || selectedNode.type === 'code-search-conductor' ? selectedNode.data.usage : null
   const archiveData = selectedNode.type === 'archive' ? selectedNode.data : null
 
   return (
@@ -142,6 +166,16 @@ export function NodeSidebar({
             </span>
           </div>
 
+          {usage && (
+            <div className="sfNodeMetaLine">
+              <span className="sfNodeMetaKey">{t(language, 'sidebar_usage')}:</span>
+              <span className="sfNodeMetaVal">
+                {usage.promptTokens.toLocaleString()} {t(language, 'usage_in')} /{' '}
+                {usage.completionTokens.toLocaleString()} {t(language, 'usage_out')} · {formatLLMCost(usage.cost)}
+              </span>
+            </div>
+          )}
+
           <div className="sfNodeMetaLine">
             <span className="sfNodeMetaKey">{t(language, 'sidebar_name')}:</span>
             {isEditingName ? (
@@ -244,6 +278,18 @@ export function NodeSidebar({
           />
         </div>
 
+        {(selectedNode.type === 'llm' ||
+          selectedNode.type === 'code-search-conductor' ||
+          selectedNode.type === 'code-search') && (
+          <InlineCheckbox
+            label={t(language, 'sidebar_bypass_cache')}
+            checked={!!selectedNode.data.bypassCache}
+            onChange={(checked) =>
+              patchSelectedNode((n) => ({ ...n, data: { ...n.data, bypassCache: checked || undefined } }) as AppNode)
+            }
+          />
+        )}
+
         <div className="sfSectionDivider" />
 
         {archiveData && (
@@ -299,6 +345,46 @@ export function NodeSidebar({
               />
             </div>
 
+            <div className="sfFieldGroup">
+              <label className="sfFieldLabel">{t(language, 'field_search_provider')}</label>
+              <select
+                className="sfSelect"
+                value={selectedNode.data.providerId ?? ''}
+                disabled={isLocked}
+                onChange={(e) =>
+                  patchSelectedNode((n) =>
+                    n.type === 'code-search' ? { ...n, data: { ...n.data, providerId: e.target.value || undefined } } : n,
+                  )
+                }
+              >
+                <option value="">{t(language, 'search_provider_default')}</option>
+                {apiSettings.codeSearch.providers.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {apiSettings.codeSearch.providers.find(
+              (p) => p.id === (selectedNode.data.providerId || apiSettings.codeSearch.activeProvider),
+            )?.kind === 'llm' && (
+              <ModelSelect
+                value={selectedNode.data.model ?? ''}
+                onChange={(modelId) =>
+                  patchSelectedNode((n) =>
+                    n.type === 'code-search' ? { ...n, data: { ...n.data, model: modelId || undefined } } : n,
+                  )
+                }
+                settings={apiSettings}
+                disabled={isLocked}
+                label={t(language, 'field_search_model')}
+                selectPlaceholder={t(language, 'search_model_default')}
+                unlistedWarning={t(language, 'model_unlisted_warning')}
+                noModelsPlaceholder={t(language, 'placeholder_no_models')}
+              />
+            )}
+
             <ExpandableTextarea
               label={t(language, 'field_query')}
               value={selectedNode.data.query ?? ''}
@@ -317,6 +403,15 @@ export function NodeSidebar({
               openToken={localExpand?.field === 'query' ? localExpand.token : null}
             />
 
+            <CodeSearchBudgetFields
+              value={selectedNode.data.budget}
+              onChange={(budget) =>
+                patchSelectedNode((n) => (n.type === 'code-search' ? { ...n, data: { ...n.data, budget } } : n))
+              }
+              disabled={isLocked}
+              language={language}
+            />
+
             <InlineCheckbox
               label={t(language, 'field_debug_messages')}
               checked={!!selectedNode.data.debugMessages}
@@ -327,6 +422,14 @@ export function NodeSidebar({
               }
               disabled={isLocked}
             />
+
+            {(selectedNode.data.status === 'running' || (selectedNode.data.progress?.length ?? 0) > 0) && (
+              <CodeSearchProgressLog
+                turns={selectedNode.data.progress ?? []}
+                running={selectedNode.data.status === 'running'}
+                language={language}
+              />
+            )}
           </>
         )}
 
@@ -438,6 +541,7 @@ export function NodeSidebar({
               disabled={isLocked}
               label={t(language, 'field_model')}
               selectPlaceholder={t(language, 'placeholder_select_model')}
+              unlistedWarning={t(language, 'model_unlisted_warning')}
               noModelsPlaceholder={t(language, 'placeholder_no_models')}
             />
 
@@ -458,21 +562,51 @@ export function NodeSidebar({
               closeTitle={t(language, 'modal_close_esc')}
               openToken={localExpand?.field === 'query' ? localExpand.token : null}
             />
+
+            <GenerationParamsFields
+              key={selectedNode.id}
+              value={selectedNode.data.params}
+              onChange={(params) =>
+                patchSelectedNode((n) =>
+                  n.type === 'code-search-conductor' ? { ...n, data: { ...n.data, params } } : n,
+                )
+              }
+              providerKind={modelProviderKind(apiSettings, selectedNode.data.model)}
+              disabled={isLocked}
+              language={language}
+            />
           </>
         )}
 
         {/* Context Converter Node */}
         {selectedNode.type === 'context-converter' && (
-          <InlineCheckbox
-            label={t(language, 'field_full_file_mode')}
-            checked={!!selectedNode.data.fullFile}
-            onChange={(checked) =>
-              patchSelectedNode((n) =>
-                n.type === 'context-converter' ? { ...n, data: { ...n.data, fullFile: checked } } : n,
-              )
-            }
-            disabled={isLocked}
-          />
+          <>
+            <InlineCheckbox
+              label={t(language, 'field_full_file_mode')}
+              checked={!!selectedNode.data.fullFile}
+              onChange={(checked) =>
+                patchSelectedNode((n) =>
+                  n.type === 'context-converter' ? { ...n, data: { ...n.data, fullFile: checked } } : n,
+                )
+              }
+              disabled={isLocked}
+            />
+            <div className="sfFieldGroup">
+              <InlineCheckbox
+                label={t(language, 'field_expand_to_syntax')}
+                checked={!!selectedNode.data.expandToSyntax}
+                onChange={(checked) =>
+                  patchSelectedNode((n) =>
+                    n.type === 'context-converter'
+                      ? { ...n, data: { ...n.data, expandToSyntax: checked || undefined } }
+                      : n,
+                  )
+                }
+                disabled={isLocked || selectedNode.data.fullFile}
+              />
+              <span className="sfFieldHint">{t(language, 'expand_to_syntax_hint')}</span>
+            </div>
+          </>
         )}
 
         {/* Instruction Node */}
@@ -510,6 +644,7 @@ export function NodeSidebar({
               disabled={isLocked}
               label={t(language, 'field_model')}
               selectPlaceholder={t(language, 'placeholder_select_model')}
+              unlistedWarning={t(language, 'model_unlisted_warning')}
               noModelsPlaceholder={t(language, 'placeholder_no_models')}
             />
 
@@ -547,6 +682,77 @@ export function NodeSidebar({
               closeTitle={t(language, 'modal_close_esc')}
               openToken={localExpand?.field === 'query' ? localExpand.token : null}
             />
+
+            <GenerationParamsFields
+              key={selectedNode.id}
+              value={selectedNode.data.params}
+              onChange={(params) =>
+                patchSelectedNode((n) => (n.type === 'llm' ? { ...n, data: { ...n.data, params } } : n))
+              }
+              providerKind={modelProviderKind(apiSettings, selectedNode.data.model)}
+              disabled={isLocked}
+              language={language}
+            />
+
+            <div className="sfFieldGroup">
+              <label className="sfFieldLabel">{t(language, 'field_budget_strategy')}</label>
+              <select
+                className="sfSelect"
+                value={selectedNode.data.budgetStrategy ?? 'block'}
+                onChange={(e) => {
+                  const budgetStrategy = e.target.value === 'drop-files' ? ('drop-files' as const) : undefined
+                  patchSelectedNode((n) => (n.type === 'llm' ? { ...n, data: { ...n.data, budgetStrategy } } : n))
+                }}
+                disabled={isLocked}
+              >
+                <option value="block">{t(language, 'budget_strategy_block')}</option>
+                <option value="drop-files">{t(language, 'budget_strategy_drop_files')}</option>
+              </select>
+              <span className="sfFieldHint">{t(language, 'budget_strategy_hint')}</span>
+            </div>
+            {selectedNode.data.budget && <PromptBudgetSummary budget={selectedNode.data.budget} language={language} />}
+
+            <ExpandableTextarea
+              label={t(language, 'field_json_schema')}
+              value={selectedNode.data.jsonSchema ?? ''}
+              onChange={(value) =>
+                patchSelectedNode((n) =>
+                  n.type === 'llm' ? { ...n, data: { ...n.data, jsonSchema: value || undefined } } : n,
+                )
+              }
+              disabled={isLocked}
+              rows={4}
+              placeholder={t(language, 'placeholder_json_schema')}
+              expandTitle={t(language, 'editor_expand')}
+              doneLabel={t(language, 'editor_done')}
+              hintSave={t(language, 'editor_hint_save')}
+              closeTitle={t(language, 'modal_close_esc')}
+            />
+            {jsonSchemaError && <div className="sfParamsError">{jsonSchemaError}</div>}
+
+            {selectedNode.data.jsonSchema?.trim() && (
+              <div className="sfFieldGroup">
+                <label className="sfFieldLabel">{t(language, 'field_json_max_attempts')}</label>
+                <input
+                  className="sfInput"
+                  type="number"
+                  min={STRUCTURED_OUTPUT_ATTEMPTS.min}
+                  max={STRUCTURED_OUTPUT_ATTEMPTS.max}
+                  step={1}
+                  value={selectedNode.data.jsonMaxAttempts ?? ''}
+                  onChange={(e) => {
+                    const raw = e.target.value.trim()
+                    const n = raw ? Number(raw) : undefined
+                    if (n !== undefined && !Number.isInteger(n)) return
+                    patchSelectedNode((node) =>
+                      node.type === 'llm' ? { ...node, data: { ...node.data, jsonMaxAttempts: n } } : node,
+                    )
+                  }}
+                  disabled={isLocked}
+                  placeholder={String(STRUCTURED_OUTPUT_ATTEMPTS.default)}
+                />
+              </div>
+            )}
           </>
         )}
 
@@ -0,0 +1,58 @@
+import type { Language } from '../../../shared/appDataTypes'
+import type { PromptBudget } from '../types'
+import { t } from '../i18n'
+
+type Props = {
+  budget: PromptBudget
+  language: Language
+}
+
+/**
+ * Breakdown of the last prompt budget preflight of an LLM node.
+ */
+export function PromptBudgetSummary({ budget, language }: Props) {
+  const n = (v: number) => v.toLocaleString()
+
+  return (
+    <div className="sfFieldGroup">
+      <label className="sfFieldLabel">{t(language, 'budget_title')}</label>
+      {budget.contextWindow === null ? (
+        <span className="sfFieldHint">{t(language, 'budget_no_window')}</span>
+      ) : (
+        <div className={budget.fits ? 'sfFieldHint' : 'sfParamsError'}>
+          ~{n(budget.totalTokens + budget.outputReserve)} / {n(budget.contextWindow)} {t(language, 'budget_tokens')}
+          {!budget.fits && ` · ${t(language, 'budget_over')}`}
+        </div>
+      )}
+      <ul className="sfCompactList">
+        <li className="sfCompactItem">
+          {t(language, 'budget_system_prompt')}: ~{n(budget.systemPromptTokens)}
+        </li>
+        <li className="sfCompactItem">
+          {t(language, 'budget_context')}: ~{n(budget.contextTokens)}
+        </li>
+        <li className="sfCompactItem">
+          {t(language, 'budget_query')}: ~{n(budget.queryTokens)}
+        </li>
+        <li className="sfCompactItem">
+          {t(language, 'budget_output_reserve')}: {n(budget.outputReserve)}
+        </li>
+      </ul>
+      {budget.droppedFiles.length > 0 && (
+        <>
+          <span className="sfFieldHint">
+            {t(language, 'budget_dropped_files')} ({budget.droppedFiles.length})
+          </span>
+          <ul className="sfCompactList">
+            {budget.droppedFiles.map((f) => (
+              <li key={`${f.repoPath}\n${f.path}`} className="sfCompactItem" title={f.repoPath}>
+                <span className="sfCompactTag">~{n(f.tokens)}</span>
+                {f.path}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
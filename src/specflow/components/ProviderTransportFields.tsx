@@ -0,0 +1,115 @@
+import type { Language } from '../../../shared/appDataTypes'
+import type { LLMAuthScheme, LLMHttpHeader, LLMProvider } from '../types'
+import { isMaskedSecret } from '../../../shared/secrets'
+import { t } from '../i18n'
+import { SecretKeyInput } from './SecretKeyInput'
+
+type TransportPatch = Pick<Partial<LLMProvider>, 'authScheme' | 'customHeaders' | 'urlTemplate' | 'apiVersion'>
+
+type Props = {
+  provider: LLMProvider
+  // Headers from the last save; stored values arrive masked
+  savedHeaders: LLMHttpHeader[]
+  language: Language
+  onChange: (patch: TransportPatch) => void
+}
+
+/**
+ * Auth scheme, API version, URL template and custom headers of an LLM provider: what Azure OpenAI and
+ * internal gateways need beyond an endpoint and a key.
+ */
+export function ProviderTransportFields({ provider, savedHeaders, language, onChange }: Props) {
+  const headers = provider.customHeaders ?? []
+
+  function updateHeader(index: number, patch: Partial<LLMHttpHeader>) {
+    onChange({ customHeaders: headers.map((h, i) => (i === index ? { ...h, ...patch } : h)) })
+  }
+
+  // @@@header-secret-rename - a stored value belongs to its header name, so renaming drops it
+  function renameHeader(index: number, name: string) {
+    updateHeader(index, isMaskedSecret(headers[index].value) ? { name, value: '' } : { name })
+  }
+
+  function savedHeaderValue(name: string) {
+    return savedHeaders.find((h) => h.name.trim().toLowerCase() === name.trim().toLowerCase())?.value ?? ''
+  }
+
+  return (
+    <>
+      <div className="sfFieldGroup">
+        <label className="sfFieldLabel">{t(language, 'auth_scheme')}</label>
+        <select
+          className="sfSelect"
+          value={provider.authScheme ?? ''}
+          onChange={(e) => onChange({ authScheme: (e.target.value || undefined) as LLMAuthScheme | undefined })}
+        >
+          <option value="">
+            {t(language, provider.kind === 'anthropic' ? 'auth_scheme_default_anthropic' : 'auth_scheme_default_openai')}
+          </option>
+          <option value="bearer">{t(language, 'auth_scheme_bearer')}</option>
+          <option value="api-key">{t(language, 'auth_scheme_api_key')}</option>
+          <option value="x-api-key">{t(language, 'auth_scheme_x_api_key')}</option>
+          <option value="none">{t(language, 'auth_scheme_none')}</option>
+        </select>
+      </div>
+
+      <div className="sfFieldGroup">
+        <label className="sfFieldLabel">{t(language, 'api_version')}</label>
+        <input
+          className="sfInput"
+          value={provider.apiVersion ?? ''}
+          onChange={(e) => onChange({ apiVersion: e.target.value || undefined })}
+          placeholder="e.g., 2024-10-21"
+        />
+        <span className="sfFieldHint">{t(language, 'api_version_hint')}</span>
+      </div>
+
+      <div className="sfFieldGroup">
+        <label className="sfFieldLabel">{t(language, 'url_template')}</label>
+        <input
+          className="sfInput"
+          value={provider.urlTemplate ?? ''}
+          onChange={(e) => onChange({ urlTemplate: e.target.value || undefined })}
+          placeholder="e.g., {endpoint}/deployments/{model}/chat/completions"
+        />
+        <span className="sfFieldHint">{t(language, 'url_template_hint')}</span>
+      </div>
+
+      <div className="sfModelsSection">
+        <div className="sfModelsSectionHeader">
+          <span className="sfFieldLabel">{t(language, 'custom_headers')}</span>
+          <button className="sfAddBtn" onClick={() => onChange({ customHeaders: [...headers, { name: '', value: '' }] })}>
+            {t(language, 'custom_headers_add')}
+          </button>
+        </div>
+        <span className="sfFieldHint">{t(language, 'custom_headers_hint')}</span>
+
+        {headers.map((header, index) => (
+          <div key={index} className="sfModelRow">
+            <input
+              className="sfInput sfModelIdInput"
+              value={header.name}
+              onChange={(e) => renameHeader(index, e.target.value)}
+              placeholder={t(language, 'custom_header_name')}
+            />
+            <div className="sfModelNameInput">
+              <SecretKeyInput
+                value={header.value}
+                savedValue={savedHeaderValue(header.name)}
+                placeholder={t(language, 'custom_header_value')}
+                language={language}
+                onChange={(value) => updateHeader(index, { value })}
+              />
+            </div>
+            <button
+              className="sfRemoveBtn"
+              onClick={() => onChange({ customHeaders: headers.filter((_, i) => i !== index) })}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+    </>
+  )
+}
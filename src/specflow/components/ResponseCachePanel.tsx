@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react'
+import type { Language, ResponseCacheSettings } from '../../../shared/appDataTypes'
+import { RESPONSE_CACHE_TTL_HOURS } from '../../../shared/responseCache'
+import { clearResponseCache, fetchResponseCache, type ResponseCacheEntryInfo } from '../api'
+import { t } from '../i18n'
+
+type Props = {
+  value: ResponseCacheSettings
+  onChange: (value: ResponseCacheSettings) => void
+  language: Language
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+/**
+ * Cache tab of the settings modal: TTL (saved with the other settings) plus a live view of the stored entries.
+ */
+export function ResponseCachePanel({ value, onChange, language }: Props) {
+  const [entries, setEntries] = useState<ResponseCacheEntryInfo[] | null>(null)
+  const [totalBytes, setTotalBytes] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  async function reload() {
+    try {
+      const data = await fetchResponseCache()
+      setEntries(data.entries)
+      setTotalBytes(data.totalBytes)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  useEffect(() => {
+    void reload()
+  }, [])
+
+  async function handleClear() {
+    setBusy(true)
+    try {
+      await clearResponseCache()
+      await reload()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="sfCodeSearchSettings">
+      <div className="sfFieldGroup">
+        <label className="sfFieldLabel">{t(language, 'cache_ttl_hours')}</label>
+        <input
+          className="sfInput"
+          type="number"
+          min={RESPONSE_CACHE_TTL_HOURS.min}
+          max={RESPONSE_CACHE_TTL_HOURS.max}
+          step={1}
+          value={value.ttlHours}
+          onChange={(e) => {
+            const n = Number(e.target.value)
+            if (!Number.isFinite(n)) return
+            onChange({
+              ttlHours: Math.min(RESPONSE_CACHE_TTL_HOURS.max, Math.max(RESPONSE_CACHE_TTL_HOURS.min, n)),
+            })
+          }}
+        />
+        <span className="sfFieldHint">{t(language, 'cache_ttl_hint')}</span>
+      </div>
+
+      <div className="sfModelsSection">
+        <div className="sfModelsSectionHeader">
+          <span className="sfFieldLabel">
+            {t(language, 'cache_entries')}
+            {entries && entries.length > 0 ? ` (${entries.length}, ${formatBytes(totalBytes)})` : ''}
+          </span>
+          <button className="sfAddBtn" onClick={handleClear} disabled={busy || !entries?.length}>
+            {t(language, 'cache_clear')}
+          </button>
+        </div>
+        {error && <div className="sfParamsError">{t(language, 'cache_load_failed')}: {error}</div>}
+        {entries && entries.length === 0 && <div className="sfFieldHint">{t(language, 'cache_empty')}</div>}
+        {entries && entries.length > 0 && (
+          <ul className="sfCompactList">
+            {entries.slice(0, 50).map((entry) => (
+              <li key={entry.key} className="sfCompactItem" title={entry.summary}>
+                <span className="sfCompactTag">{entry.kind}</span>
+                <span className="sfCompactText">{entry.summary}</span>
+                <span className="sfCompactMeta">{new Date(entry.createdAt).toLocaleString()}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { Language } from '../../../shared/appDataTypes'
+import { fetchSearchRunDump, fetchSearchRunLogs, type SearchRunDump, type SearchRunDumpMessage, type SearchRunSummary } from '../api'
+import { t } from '../i18n'
+import { useModalBackdropClose } from '../hooks/useModalBackdropClose'
+
+type SearchHistoryModalProps = {
+  onClose: () => void
+  onRecreateNode: (run: SearchRunSummary) => void
+  language: Language
+}
+
+const HISTORY_LIMIT = 100
+// Tool outputs and repeated prompts are long; the full text stays in the dump file
+const MAX_REPLAY_CHARS = 1500
+
+type ReplayTurn = {
+  // 0 holds the prompt before the first assistant message
+  turn: number
+  messages: SearchRunDumpMessage[]
+}
+
+function formatTimestamp(ts: string) {
+  return new Date(ts).toLocaleString()
+}
+
+function formatDuration(ms: number) {
+  const seconds = Math.max(0, Math.round(ms / 1000))
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  const remainder = seconds % 60
+  return `${minutes}m ${remainder}s`
+}
+
+function truncate(text: string) {
+  return text.length > MAX_REPLAY_CHARS ? `${text.slice(0, MAX_REPLAY_CHARS)}\n... (${text.length - MAX_REPLAY_CHARS} more chars)` : text
+}
+
+function formatArguments(raw: string) {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2)
+  } catch {
+    return raw
+  }
+}
+
+function runStatusKey(run: SearchRunSummary) {
+  if (run.cancelled) return 'search_history_cancelled' as const
+  if (!run.ok) return 'search_history_failed' as const
+  if (run.cached) return 'search_history_cached' as const
+  return 'search_history_ok' as const
+}
+
+// Each assistant message starts a turn; the tool results (or user feedback) that follow belong to it
+function groupTurns(messages: SearchRunDumpMessage[]) {
+  const turns: ReplayTurn[] = [{ turn: 0, messages: [] }]
+  for (const message of messages) {
+    if (message.role === 'assistant') turns.push({ turn: turns.length, messages: [] })
+    turns[turns.length - 1].messages.push(message)
+  }
+  return turns
+}
+
+function ReplayMessage({ message, language }: { message: SearchRunDumpMessage; language: Language }) {
+  const content = message.content ?? ''
+  return (
+    <div className="sfSearchReplayMessage">
+      <div className="sfSearchReplayRole">{message.role}</div>
+      {content && <div className="sfSearchReplayText">{message.role === 'assistant' ? content : truncate(content)}</div>}
+      {message.tool_calls?.map((call) => (
+        <div key={call.id} className="sfSearchReplayToolCall">
+          <span className="sfSearchReplayToolName">
+            {t(language, 'search_history_tool_call')}: {call.function.name}
+          </span>
+          <pre>{formatArguments(call.function.arguments)}</pre>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function SearchRunReplay({ dump, language }: { dump: SearchRunDump; language: Language }) {
+  const turns = useMemo(() => groupTurns(dump.messages), [dump])
+  return (
+    <div className="sfSpecOutputs">
+      {turns.map((turn) => (
+        <details key={turn.turn} className="sfSpecOutputSection" open={turn.turn > 0}>
+          <summary className="sfSpecOutputHeader">
+            {turn.turn === 0 ? t(language, 'search_history_prompt') : `${t(language, 'search_progress_turn')} ${turn.turn}`}
+          </summary>
+          <div className="sfSearchReplayTurn">
+            {turn.messages.map((message, idx) => (
+              <ReplayMessage key={idx} message={message} language={language} />
+            ))}
+          </div>
+        </details>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Past code search runs from the server run log, with a turn-by-turn replay of the dumped conversation
+ * (kept for failed runs and for runs with Debug Messages on) and a way back onto the canvas.
+ */
+export function SearchHistoryModal({ onClose, onRecreateNode, language }: SearchHistoryModalProps) {
+  const [runs, setRuns] = useState<SearchRunSummary[] | null>(null)
+  const [listError, setListError] = useState<string | null>(null)
+  const [selectedRun, setSelectedRun] = useState<SearchRunSummary | null>(null)
+  // Keyed by run id so a slow response for a run the user already left is never shown for another
+  const [loadedDump, setLoadedDump] = useState<{ runId: string; dump?: SearchRunDump; error?: string } | null>(null)
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') onClose()
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  useEffect(() => {
+    let cancelled = false
+    fetchSearchRunLogs(HISTORY_LIMIT)
+      .then((entries) => {
+        if (!cancelled) setRuns([...entries].reverse())
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setListError(e instanceof Error ? e.message : String(e))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  function openRun(run: SearchRunSummary) {
+    setSelectedRun(run)
+    if (loadedDump?.runId === run.id) return
+    setLoadedDump(null)
+    fetchSearchRunDump(run.id)
+      .then((dump) => setLoadedDump({ runId: run.id, dump }))
+      .catch((e: unknown) => setLoadedDump({ runId: run.id, error: e instanceof Error ? e.message : String(e) }))
+  }
+
+  const { handleBackdropClick, contentMouseHandlers } = useModalBackdropClose(onClose)
+
+  const selectedDump = selectedRun && loadedDump?.runId === selectedRun.id ? loadedDump : null
+
+  return (
+    <div className="sfModalBackdrop" onClick={handleBackdropClick}>
+      <div className="sfModalContent sfSpecOutputModal" {...contentMouseHandlers}>
+        <div className="sfModalHeader">
+          <div>
+            <span className="sfModalTitle">{t(language, 'search_history_title')}</span>
+            {selectedRun && (
+              <div className="sfSpecHeaderMeta">
+                {formatTimestamp(selectedRun.startedAt)} · {selectedRun.repoPath}
+              </div>
+            )}
+          </div>
+          <button className="sfModalCloseBtn" onClick={onClose} title={t(language, 'modal_close_esc')}>
+            ×
+          </button>
+        </div>
+        <div className="sfSpecEditor">
+          {selectedRun ? (
+            <>
+              <div className="sfSearchReplayQuery">{selectedRun.query}</div>
+              {selectedRun.error && <div className="sfParamsError">{selectedRun.error}</div>}
+              {selectedDump?.error ? (
+                <div className="sfSpecEmpty">{selectedDump.error}</div>
+              ) : !selectedDump?.dump ? (
+                <div className="sfSpecEmpty">{t(language, 'search_history_loading')}</div>
+              ) : (
+                <SearchRunReplay dump={selectedDump.dump} language={language} />
+              )}
+            </>
+          ) : listError ? (
+            <div className="sfSpecEmpty">{listError}</div>
+          ) : !runs ? (
+            <div className="sfSpecEmpty">{t(language, 'search_history_loading')}</div>
+          ) : runs.length === 0 ? (
+            <div className="sfSpecEmpty">{t(language, 'search_history_empty')}</div>
+          ) : (
+            <div className="sfSpecHistoryList">
+              {runs.map((run) => {
+                const retries = run.trace?.filter((entry) => entry.pathValidationRetry).length ?? 0
+                return (
+                  <div key={run.id} className="sfSpecHistoryItem" onClick={() => openRun(run)}>
+                    <div className="sfSearchHistoryMain">
+                      <div className="sfSearchHistoryQuery" title={run.query}>
+                        {run.query}
+                      </div>
+                      <div className="sfSpecHistoryDuration">
+                        {formatTimestamp(run.startedAt)} · {run.repoPath}
+                        {run.provider ? ` · ${run.provider}` : ''}
+                        {run.model ? ` (${run.model})` : ''}
+                      </div>
+                      {run.error && <div className="sfSpecNodeRef sfSpecNodeRef--deleted">{run.error}</div>}
+                    </div>
+                    <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+                      <span className={`sfSearchHistoryStatus${run.ok ? '' : ' sfSearchHistoryStatus--failed'}`}>
+                        {t(language, runStatusKey(run))}
+                      </span>
+                      <div className="sfSpecHistoryDuration">{formatDuration(run.durationMs)}</div>
+                      {retries > 0 && (
+                        <div className="sfSpecHistoryDuration">
+                          {t(language, 'search_history_retries')}: {retries}
+                        </div>
+                      )}
+                      <div className="sfSpecHistoryOutputCount" title={t(language, 'search_history_files')}>
+                        {run.reportFilesCount ?? 0}
+                      </div>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+        <div className="sfModalFooter">
+          <span className="sfModalHint">{t(language, 'output_hint_close')}</span>
+          {selectedRun ? (
+            <div style={{ display: 'flex', gap: 8 }}>
+              <button className="sfCancelBtn" onClick={() => setSelectedRun(null)}>
+                {t(language, 'search_history_back')}
+              </button>
+              <button className="sfModalSaveBtn" onClick={() => onRecreateNode(selectedRun)}>
+                {t(language, 'search_history_recreate')}
+              </button>
+            </div>
+          ) : (
+            <button className="sfModalSaveBtn" onClick={onClose}>
+              {t(language, 'close')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import type { Language } from '../../../shared/appDataTypes'
+import { isMaskedSecret } from '../../../shared/secrets'
+import { t } from '../i18n'
+
+type Props = {
+  value: string
+  // Value from the last save (masked placeholder or ''); emptying the field goes back to it
+  savedValue: string
+  placeholder: string
+  language: Language
+  onChange: (value: string) => void
+}
+
+/**
+ * API key field for keys the browser never sees: a stored key shows as an empty field with a "saved" hint.
+ * Typing replaces the key and × removes it.
+ */
+export function SecretKeyInput({ value, savedValue, placeholder, language, onChange }: Props) {
+  const masked = isMaskedSecret(value)
+  return (
+    <div className="sfSecretKeyInput">
+      <input
+        className="sfInput"
+        type="password"
+        autoComplete="off"
+        value={masked ? '' : value}
+        onChange={(e) => onChange(e.target.value === '' ? savedValue : e.target.value)}
+        placeholder={masked ? t(language, 'api_key_saved_placeholder') : placeholder}
+      />
+      {masked && (
+        <button className="sfRemoveBtn" onClick={() => onChange('')} title={t(language, 'api_key_remove')}>
+          ×
+        </button>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import { useMemo, useState } from 'react'
-import type { AppNode, ChainRun, Spec, SpecRunResult, SpecOutputMapping, SpecStatus } from '../types'
+import type { AppNode, ChainRun, LLMUsage, Spec, SpecRunResult, SpecOutputMapping, SpecStatus } from '../types'
 import type { Language } from '../../../shared/appDataTypes'
 import { t } from '../i18n'
 import { SpecEditorModal } from './SpecEditorModal'
@@ -8,6 +8,7 @@ import { SpecOutputModal } from './SpecOutputModal'
 import { ConfirmModal } from './ConfirmModal'
 import { RunProgressBar, getChainRunProgress, getChainRunStatusClass } from './RunProgressBar'
 import { DropdownMenu } from './DropdownMenu'
+import { formatLLMCost, sumLLMUsage } from '../../../shared/llmUsage'
 
 type SpecDashboardProps = {
   specs: Spec[]
@@ -70,6 +71,11 @@ function getSpecStatusProgress(status: SpecStatus) {
   return { pct: 0, statusClass: getChainRunStatusClass('cancelled') }
 }
 
+function formatUsageTitle(usage: LLMUsage | null) {
+  if (!usage) return undefined
+  return `${usage.promptTokens.toLocaleString()} in / ${usage.completionTokens.toLocaleString()} out`
+}
+
 function buildLastRunSummary(result: SpecRunResult | undefined, emptyRunText: string, emptyOutputsText: string) {
   if (!result) return { text: emptyRunText, hasError: false }
   const entries = Object.entries(result.outputs ?? {})
@@ -199,6 +205,7 @@ export function SpecDashboard({
                 <th>{t(language, 'spec_name')}</th>
                 <th>{t(language, 'spec_input_node')}</th>
                 <th>{t(language, 'spec_status')}</th>
+                <th>{t(language, 'spec_cost')}</th>
                 <th>{t(language, 'spec_actions')}</th>
                 <th>{t(language, 'spec_last_result')}</th>
               </tr>
@@ -217,6 +224,8 @@ export function SpecDashboard({
                   t(language, 'spec_no_outputs'),
                 )
                 const canExpand = !!lastRun
+                const lastUsage = lastRun?.usage ?? null
+                const totalUsage = sumLLMUsage(spec.runHistory.map((run) => run.usage))
                 const activeRun = spec.activeChainId
                   ? chainRuns.find((run) => run.id === spec.activeChainId)
                   : undefined
@@ -263,6 +272,16 @@ export function SpecDashboard({
                         />
                       </div>
                     </td>
+                    <td>
+                      <div className="sfSpecCostCell">
+                        <span title={formatUsageTitle(lastUsage)}>
+                          {t(language, 'spec_cost_last')}: {lastUsage ? formatLLMCost(lastUsage.cost) : '—'}
+                        </span>
+                        <span className="sfSpecCostTotal" title={formatUsageTitle(totalUsage)}>
+                          {t(language, 'spec_cost_total')}: {totalUsage ? formatLLMCost(totalUsage.cost) : '—'}
+                        </span>
+                      </div>
+                    </td>
                     <td>
                       <div className="sfSpecActions">
                         <button
@@ -3,6 +3,7 @@ import type { Spec, SpecRunResult } from '../types'
 import type { Language } from '../../../shared/appDataTypes'
 import { t } from '../i18n'
 import { useModalBackdropClose } from '../hooks/useModalBackdropClose'
+import { formatLLMCost } from '../../../shared/llmUsage'
 
 type SpecHistoryModalProps = {
   isOpen: boolean
@@ -77,6 +78,11 @@ export function SpecHistoryModal({ isOpen, spec, onClose, onSelectRun, language
                       <div className="sfSpecHistoryDuration">
                         {t(language, 'spec_duration')}: {formatDuration(result.startedAt, result.finishedAt)}
                       </div>
+                      {result.usage && (
+                        <div className="sfSpecHistoryDuration">
+                          {t(language, 'spec_cost')}: {formatLLMCost(result.usage.cost)}
+                        </div>
+                      )}
                       <div className="sfSpecHistoryOutputCount">{outputsCount}</div>
                     </div>
                   </div>
@@ -88,7 +88,11 @@ export function SpecOutputModal({ isOpen, result, outputTypes, onClose, language
                       titleCopied={t(language, 'sidebar_copied_title')}
                     />
                   </summary>
-                  {outputTypes?.[label] === 'llm' ? (
+                  {result.structuredOutputs && label in result.structuredOutputs ? (
+                    <div className="sfSpecOutputContent">
+                      {JSON.stringify(result.structuredOutputs[label], null, 2)}
+                    </div>
+                  ) : outputTypes?.[label] === 'llm' ? (
                     <div className="sfSpecOutputContent sfMarkdownContent">
                       <ReactMarkdown remarkPlugins={[remarkGfm]}>{content || ''}</ReactMarkdown>
                     </div>
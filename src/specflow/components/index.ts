@@ -1,5 +1,6 @@
 export { NodeSidebar } from './NodeSidebar'
 export { CodeSearchOutputPreview } from './CodeSearchOutputPreview'
+export { CodeSearchProgressLog } from './CodeSearchProgressLog'
 export { ToolbarButton } from './ToolbarButton'
 export { MultiSelectInfo } from './MultiSelectInfo'
 export { TextEditorModal } from './TextEditorModal'
@@ -8,6 +9,14 @@ export { InlineCheckbox } from './InlineCheckbox'
 export { CopyButton } from './CopyButton'
 export { APISettingsModal } from './APISettingsModal'
 export { ModelSelect } from './ModelSelect'
+export { ModelDiscoveryPanel } from './ModelDiscoveryPanel'
+export { MockRulesEditor } from './MockRulesEditor'
+export { SecretKeyInput } from './SecretKeyInput'
+export { ProviderTransportFields } from './ProviderTransportFields'
+export { GenerationParamsFields } from './GenerationParamsFields'
+export { CodeSearchBudgetFields } from './CodeSearchBudgetFields'
+export { PromptBudgetSummary } from './PromptBudgetSummary'
+export { ResponseCachePanel } from './ResponseCachePanel'
 export { SettingsIcon } from './SettingsIcon'
 export { CanvasIcon } from './CanvasIcon'
 export { OutputViewerModal } from './OutputViewerModal'
@@ -22,4 +31,5 @@ export { SpecDashboard } from './SpecDashboard'
 export { SpecEditorModal } from './SpecEditorModal'
 export { SpecHistoryModal } from './SpecHistoryModal'
 export { SpecOutputModal } from './SpecOutputModal'
+export { SearchHistoryModal } from './SearchHistoryModal'
 export { RunProgressBar } from './RunProgressBar'
@@ -582,6 +582,7 @@ export function useAppData() {
         canvas: { ...t.canvas, nodes: [...t.canvas.nodes, node] },
       }))
       setSelected({ nodeIds: [id], primaryId: id })
+      return id
     },
     [updateActiveCanvas],
   )
@@ -1,7 +1,25 @@
 import { useCallback, useRef } from 'react'
-import type { AppData, AppNode, ArchiveData, CodeSearchOutput, ContextSource } from '../types'
-import { buildRepoContext, runCodeSearch, runConductor, runLLM, resolveManualImport } from '../api'
-import { mergeCodeSearchOutputs } from '../../../shared/rangeUtils'
+import type {
+  AppData,
+  AppNode,
+  ArchiveData,
+  CodeSearchOutput,
+  CodeSearchProgressTurn,
+  ContextSource,
+  LLMUsage,
+  PromptBudget,
+} from '../types'
+import {
+  buildRepoContext,
+  expandRangesToSyntax,
+  preflightLLM,
+  runCodeSearch,
+  runConductor,
+  runLLM,
+  resolveManualImport,
+  type PromptContextSegment,
+} from '../api'
+import { renderContextSources } from '../../../shared/contextSources'
 import {
   ChainCancelledError,
   isAbortError,
@@ -10,13 +28,27 @@ import {
   throwIfAborted,
 } from '../utils'
 
+// `usage` is set only by runs that actually called a model (not cache hits), so spec totals don't re-count reused outputs.
+// `json` carries the parsed value of a structured-output LLM run; `value` holds the same data as text.
 export type LocalOutput =
-  | { kind: 'string'; value: string; contextSources?: ContextSource[] }
+  | { kind: 'string'; value: string; contextSources?: ContextSource[]; usage?: LLMUsage | null; json?: unknown }
   | { kind: 'code-search'; value: CodeSearchOutput; repoPath: string }
-  | { kind: 'conductor'; value: Record<string, string> }
+  | { kind: 'conductor'; value: Record<string, string>; usage?: LLMUsage | null }
 
 export type RunMode = 'single' | 'chain'
 
+function describeBudgetOverflow(budget: PromptBudget) {
+  const n = (v: number) => v.toLocaleString('en-US')
+  const breakdown =
+    `system prompt ~${n(budget.systemPromptTokens)} + context ~${n(budget.contextTokens)} + query ~${n(budget.queryTokens)}` +
+    ` = ~${n(budget.totalTokens)} tokens, plus ${n(budget.outputReserve)} reserved for the reply`
+  const hint =
+    budget.droppedFiles.length > 0
+      ? `Still too large after dropping ${budget.droppedFiles.length} file(s); shorten the prompts or pick a larger model.`
+      : 'Trim the context, pick a larger model, or set the budget strategy to drop files.'
+  return `Prompt exceeds the ${n(budget.contextWindow ?? 0)}-token context window of ${budget.model}: ${breakdown}. ${hint}`
+}
+
 export function makeRunKey(tabId: string, nodeId: string) {
   return `${tabId}:${nodeId}`
 }
@@ -60,6 +92,31 @@ function getEmptyNodeOutput(nodeType: AppNode['type']): unknown {
   }
 }
 
+// @@@stream-throttle - coalesce token deltas so a fast stream doesn't re-render the canvas per token
+function createThrottledPatch(apply: (value: string) => void, intervalMs = 50) {
+  let pending: string | null = null
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  function flush() {
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+    if (pending === null) return
+    const value = pending
+    pending = null
+    apply(value)
+  }
+
+  return {
+    push(value: string) {
+      pending = value
+      if (!timer) timer = setTimeout(flush, intervalMs)
+    },
+    flush,
+  }
+}
+
 export function useNodeRunner(
   appDataRef: React.RefObject<AppData>,
   patchNodeByIdInTab: (tabId: string, nodeId: string, patch: (n: AppNode) => AppNode) => void,
@@ -97,6 +154,9 @@ export function useNodeRunner(
             kind: 'string',
             value: node.data.output,
             ...(node.type === 'context-converter' ? { contextSources: node.data.contextSources } : {}),
+            ...(node.type === 'llm' && node.data.structuredOutput !== undefined
+              ? { json: node.data.structuredOutput }
+              : {}),
           }
         : null
     }
@@ -199,24 +259,35 @@ export function useNodeRunner(
     [getTabById],
   )
 
-  const concatPredStrings = useCallback(
-    (tabId: string, preds: AppNode[], localOutputs?: Map<string, LocalOutput>) => {
-      const parts: string[] = []
+  // @@@pred-segments - context-converter text first, then instruction/llm/archive text; each segment keeps its sources
+  // so the budget preflight can drop files from it
+  const getPredSegments = useCallback(
+    (tabId: string, preds: AppNode[], localOutputs?: Map<string, LocalOutput>): PromptContextSegment[] => {
+      const segments: PromptContextSegment[] = []
       for (const p of preds) {
         if (p.type === 'context-converter') {
           const s = getStringOutput(tabId, p.id, localOutputs).trim()
-          if (s) parts.push(s)
+          if (s) {
+            const sources = getContextSources(tabId, p.id, localOutputs)
+            segments.push({ text: s, ...(sources ? { sources, fullFile: p.data.fullFile } : {}) })
+          }
         }
       }
       for (const p of preds) {
         if (p.type === 'instruction' || p.type === 'llm' || p.type === 'archive') {
           const s = getStringOutput(tabId, p.id, localOutputs).trim()
-          if (s) parts.push(s)
+          if (s) segments.push({ text: s })
         }
       }
-      return parts.join('\n\n')
+      return segments
     },
-    [getStringOutput],
+    [getStringOutput, getContextSources],
+  )
+
+  const concatPredStrings = useCallback(
+    (tabId: string, preds: AppNode[], localOutputs?: Map<string, LocalOutput>) =>
+      getPredSegments(tabId, preds, localOutputs).map((s) => s.text).join('\n\n'),
+    [getPredSegments],
   )
 
   const runNode = useCallback(
@@ -260,6 +331,11 @@ export function useNodeRunner(
                 ...(n.type === 'context-converter'
                   ? { mergedFiles: undefined, contextSources: undefined, repoPaths: undefined }
                   : {}),
+                ...(n.type === 'llm' || n.type === 'code-search-conductor' ? { usage: null } : {}),
+                ...(n.type === 'llm' ? { structuredOutput: undefined } : {}),
+                ...(n.type === 'llm' || n.type === 'code-search-conductor' || n.type === 'code-search'
+                  ? { cached: undefined }
+                  : {}),
                 status: 'success',
                 error: null,
               },
@@ -423,11 +499,13 @@ export function useNodeRunner(
             }
 
             throwIfAborted(signal)
-            const output = await runConductor({
+            const { output, usage, cached } = await runConductor({
               model,
               query: finalQuery,
               successorIds,
               successorTitles,
+              params: node.data.params,
+              bypassCache: node.data.bypassCache,
               signal,
             })
 
@@ -439,13 +517,15 @@ export function useNodeRunner(
                   ...n.data,
                   // DO NOT overwrite query - keep user's original value
                   output,
+                  usage,
+                  cached,
                   status: 'success',
                   error: null,
                 },
               }
             })
 
-            const out: LocalOutput = { kind: 'conductor', value: output }
+            const out: LocalOutput = { kind: 'conductor', value: output, usage: cached ? undefined : usage }
             localOutputs?.set(nodeId, out)
             return out
           }
@@ -503,11 +583,22 @@ export function useNodeRunner(
               if (!repoPath.trim()) throw new Error('Empty repoPath')
             }
             throwIfAborted(signal)
+            // @@@search-progress - turns append to `progress` as they finish; the log stays after the run ends
+            const patchProgress = (progress: (prev: CodeSearchProgressTurn[]) => CodeSearchProgressTurn[]) =>
+              patchNodeByIdInTab(tabId, nodeId, (n) =>
+                n.type === 'code-search' ? { ...n, data: { ...n.data, progress: progress(n.data.progress ?? []) } } : n,
+              )
+            patchProgress(() => [])
             const result = await runCodeSearch({
               repoPath,
               query: finalQuery,
               debugMessages: !!node.data.debugMessages,
+              bypassCache: node.data.bypassCache,
+              providerId: node.data.providerId,
+              model: node.data.model,
+              budget: node.data.budget,
               signal,
+              onProgress: (turn) => patchProgress((prev) => [...prev, turn]),
             })
             patchNodeByIdInTab(tabId, nodeId, (n) => {
               if (n.type !== 'code-search') return n
@@ -518,6 +609,7 @@ export function useNodeRunner(
                   repoPath,
                   // DO NOT overwrite query - keep user's original query
                   output: result.report,
+                  cached: !!result.cached,
                   status: 'success',
                   error: null,
                 },
@@ -589,53 +681,31 @@ export function useNodeRunner(
               }
             }
 
-            const contextSources = [...sourcesByKey.values()].sort((a, b) => {
+            const sortedSources = [...sourcesByKey.values()].sort((a, b) => {
               const repo = a.repoPath.localeCompare(b.repoPath)
               if (repo !== 0) return repo
               return a.sourceNodeId.localeCompare(b.sourceNodeId)
             })
-            if (contextSources.length === 0) {
+            if (sortedSources.length === 0) {
               throw new Error('Context converter requires at least one predecessor with file context.')
             }
 
-            const contexts: string[] = []
-            const allMergedFiles: Record<string, Array<[number, number]>> = {}
-
-            const byRepo = new Map<string, ContextSource[]>()
-            for (const s of contextSources) {
-              const arr = byRepo.get(s.repoPath) ?? []
-              arr.push(s)
-              byRepo.set(s.repoPath, arr)
-            }
-
-            const repoPaths = [...byRepo.keys()].sort()
-
-            for (const repoPath of repoPaths) {
-              const sources = byRepo.get(repoPath) ?? []
-              const mergedFiles = mergeCodeSearchOutputs(sources.map((s) => ({ files: s.files })))
-              const mergedFilesForDisplay = node.data.fullFile
-                ? Object.fromEntries(Object.keys(mergedFiles).map((p) => [p, [[1, -1]] as [number, number][]]))
-                : mergedFiles
-              Object.assign(allMergedFiles, mergedFilesForDisplay)
-
-              const explanation = sources
-                .map((s) => ({ id: s.sourceNodeId, text: (s.explanation ?? '').trim() }))
-                .filter((x) => x.text)
-                .sort((a, b) => a.id.localeCompare(b.id))
-                .map((x) => x.text)
-                .join('\n\n---\n\n')
-
-              const text = await buildRepoContext({
-                repoPath,
-                explanation,
-                files: mergedFiles,
-                fullFile: node.data.fullFile,
-                signal,
-              })
-              contexts.push(text)
-            }
-
-            const text = contexts.join('\n\n---\n\n').trimEnd() + '\n\n---end of code context---\n\n'
+            // @@@syntax-expand - widened ranges replace the reported ones, so downstream converters and preflight see them too
+            const contextSources =
+              node.data.expandToSyntax && !node.data.fullFile
+                ? await Promise.all(
+                    sortedSources.map(async (s) => ({
+                      ...s,
+                      files: await expandRangesToSyntax({ repoPath: s.repoPath, files: s.files, signal }),
+                    })),
+                  )
+                : sortedSources
+
+            const { text, mergedFiles: allMergedFiles, repoPaths } = await renderContextSources(
+              contextSources,
+              node.data.fullFile,
+              (args) => buildRepoContext({ ...args, signal }),
+            )
             patchNodeByIdInTab(tabId, nodeId, (n) => {
               if (n.type !== 'context-converter') return n
               return {
@@ -659,8 +729,58 @@ export function useNodeRunner(
           // LLM node
           throwIfAborted(signal)
 
+          const schemaText = node.data.jsonSchema?.trim() ?? ''
+          let jsonSchema: unknown = undefined
+          if (schemaText) {
+            try {
+              jsonSchema = JSON.parse(schemaText) as unknown
+            } catch (e) {
+              throw new Error(`Invalid JSON Schema: ${String((e as Error)?.message ?? e)}`)
+            }
+          }
+
+          const runLLMForNode = async (
+            llmArgs: Omit<Parameters<typeof runLLM>[0], 'onDelta' | 'jsonSchema' | 'jsonMaxAttempts' | 'bypassCache'>,
+          ) => {
+            const bypassCache = node.data.bypassCache
+            // @@@structured-no-stream - partial JSON is not useful to show, so structured runs wait for the validated reply
+            if (jsonSchema !== undefined) {
+              return runLLM({ ...llmArgs, bypassCache, jsonSchema, jsonMaxAttempts: node.data.jsonMaxAttempts })
+            }
+            // @@@llm-partial-output - stream tokens into `output` while running; on cancel the partial text stays visible
+            const streamer = createThrottledPatch((text) =>
+              patchNodeByIdInTab(tabId, nodeId, (n) => {
+                if (n.type !== 'llm') return n
+                return { ...n, data: { ...n.data, output: text } }
+              }),
+            )
+            try {
+              return await runLLM({ ...llmArgs, bypassCache, onDelta: (_delta, text) => streamer.push(text) })
+            } finally {
+              streamer.flush()
+            }
+          }
+
+          // @@@prompt-budget - estimate the prompt on the server before sending; overflow blocks the node
+          // or, with `drop-files`, comes back as a smaller context
+          const checkPromptBudget = async (model: string, query: string, segments: PromptContextSegment[]) => {
+            const { budget, context } = await preflightLLM({
+              model,
+              systemPrompt,
+              query,
+              segments,
+              params: node.data.params,
+              strategy: node.data.budgetStrategy ?? 'block',
+              signal,
+            })
+            patchNodeByIdInTab(tabId, nodeId, (n) => (n.type === 'llm' ? { ...n, data: { ...n.data, budget } } : n))
+            if (!budget.fits) throw new Error(describeBudgetOverflow(budget))
+            return context
+          }
+
           // Get predecessor text (context from upstream nodes)
-          const predecessorText = concatPredStrings(tabId, preds, localOutputs).trim()
+          const predSegments = getPredSegments(tabId, preds, localOutputs)
+          const predecessorText = predSegments.map((s) => s.text).join('\n\n').trim()
 
           // Get user's query (static user-defined content)
           const userQuery = node.data.query.trim()
@@ -686,11 +806,14 @@ export function useNodeRunner(
             if (!model) throw new Error('LLM node requires a model to be selected')
 
             throwIfAborted(signal)
-            const output = await runLLM({
+            await checkPromptBudget(model, finalQuery, [])
+            throwIfAborted(signal)
+            const { output, usage, json, cached } = await runLLMForNode({
               model,
               systemPrompt, // Can be empty
               query: finalQuery,
               context: '', // No predecessor context in this case
+              params: node.data.params,
               signal,
             })
 
@@ -702,13 +825,21 @@ export function useNodeRunner(
                   ...n.data,
                   // DO NOT overwrite query - keep user's original (empty in this case)
                   output,
+                  structuredOutput: json,
+                  usage,
+                  cached,
                   status: 'success',
                   error: null,
                 },
               }
             })
 
-            const out: LocalOutput = { kind: 'string', value: output }
+            const out: LocalOutput = {
+              kind: 'string',
+              value: output,
+              usage: cached ? undefined : usage,
+              ...(json !== undefined ? { json } : {}),
+            }
             localOutputs?.set(nodeId, out)
             return out
           }
@@ -717,12 +848,15 @@ export function useNodeRunner(
           const model = node.data.model.trim()
           if (!model) throw new Error('LLM node requires a model to be selected')
 
+          throwIfAborted(signal)
+          const budgetedContext = (await checkPromptBudget(model, userQuery, predSegments)).trim()
+
           // Combine predecessor text and user query
           // Format: predecessor context first, then user query
           // This matches the pattern used by instruction and code-search nodes
           const queryParts: string[] = []
-          if (predecessorText) {
-            queryParts.push(predecessorText)
+          if (budgetedContext) {
+            queryParts.push(budgetedContext)
           }
           if (userQuery) {
             queryParts.push(userQuery)
@@ -730,11 +864,12 @@ export function useNodeRunner(
           const finalQuery = queryParts.join('\n\n')
 
           throwIfAborted(signal)
-          const output = await runLLM({
+          const { output, usage, json, cached } = await runLLMForNode({
             model,
             systemPrompt, // Can be empty - that's valid
             query: finalQuery,
             context: '', // Context is now incorporated into finalQuery
+            params: node.data.params,
             signal,
           })
 
@@ -746,12 +881,20 @@ export function useNodeRunner(
                 ...n.data,
                 // DO NOT overwrite query or systemPrompt - keep user's original values
                 output,
+                structuredOutput: json,
+                usage,
+                cached,
                 status: 'success',
                 error: null,
               },
             }
           })
-          const out: LocalOutput = { kind: 'string', value: output }
+          const out: LocalOutput = {
+            kind: 'string',
+            value: output,
+            usage: cached ? undefined : usage,
+            ...(json !== undefined ? { json } : {}),
+          }
           localOutputs?.set(nodeId, out)
           return out
         } catch (err: unknown) {
@@ -770,7 +913,7 @@ export function useNodeRunner(
       inFlightRuns.current.set(runKey, promise)
       return promise
     },
-    [getTabById, patchNodeByIdInTab, concatPredStrings, getConductorOutput, getCodeSearchOutput, getCodeSearchRepoPath, getContextSources],
+    [getTabById, patchNodeByIdInTab, concatPredStrings, getPredSegments, getConductorOutput, getCodeSearchOutput, getCodeSearchRepoPath, getContextSources],
   )
 
   return {
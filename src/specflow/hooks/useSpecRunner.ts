@@ -2,6 +2,7 @@ import { useCallback, useRef, useState } from 'react'
 import type { AppData, AppNode, ChainRunStatus, Spec, SpecRunResult, Tab } from '../types'
 import type { LocalOutput } from './useNodeRunner'
 import { resetNodeRuntime, uid, updateNode } from '../utils'
+import { sumLLMUsage } from '../../../shared/llmUsage'
 
 const CONTENT_FIELD: Record<string, 'text' | 'query'> = {
   instruction: 'text',
@@ -35,6 +36,21 @@ function getOutputValue(node: AppNode): string {
   throw new Error(`Unsupported output node type: ${node.type}`)
 }
 
+function sumRunUsage(outputs: Map<string, LocalOutput> | null) {
+  if (!outputs) return null
+  return sumLLMUsage(
+    [...outputs.values()].map((output) =>
+      output.kind === 'string' || output.kind === 'conductor' ? output.usage : null,
+    ),
+  )
+}
+
+function getStructuredValue(node: AppNode, local: LocalOutput | undefined): unknown {
+  if (node.data.muted) return undefined
+  if (local) return local.kind === 'string' ? local.json : undefined
+  return node.type === 'llm' ? node.data.structuredOutput : undefined
+}
+
 function localOutputToString(output: LocalOutput): string {
   if (output.kind === 'string') return output.value ?? ''
   if (output.kind === 'code-search') return JSON.stringify(output.value ?? {}, null, 2)
@@ -198,6 +214,7 @@ export function useSpecRunner(
       if (!tabAfter) throw new Error(`Tab not found: ${tabId}`)
 
       let outputs: Record<string, string> = {}
+      const structuredOutputs: Record<string, unknown> = {}
       let outputError: string | undefined
       try {
         for (const mapping of spec.outputs) {
@@ -210,6 +227,8 @@ export function useSpecRunner(
             throw new Error(`Unsupported output node type: ${node.type}`)
           }
           const local = runOutputs?.get(mapping.nodeId)
+          const structured = getStructuredValue(node, local)
+          if (structured !== undefined) structuredOutputs[mapping.label] = structured
           if (local) {
             outputs[mapping.label] = localOutputToString(local)
             continue
@@ -231,6 +250,7 @@ export function useSpecRunner(
             ? 'Chain run cancelled'
             : undefined
       const combinedError = [error, outputError, chainError].filter(Boolean).join(' | ') || undefined
+      const usage = sumRunUsage(runOutputs)
       const result: SpecRunResult = {
         runId: uid('spec_run'),
         chainId,
@@ -238,6 +258,8 @@ export function useSpecRunner(
         finishedAt,
         outputs,
         ...(combinedError ? { error: combinedError } : {}),
+        ...(usage ? { usage } : {}),
+        ...(Object.keys(structuredOutputs).length > 0 ? { structuredOutputs } : {}),
       }
 
       updateSpecInTab(tabId, specId, (s) => ({
@@ -56,6 +56,9 @@ const EN: Dict = {
   spec_no_history: 'No runs yet',
   spec_run_at: 'Run at',
   spec_duration: 'Duration',
+  spec_cost: 'Cost',
+  spec_cost_last: 'Last',
+  spec_cost_total: 'Total',
   spec_outputs: 'Outputs',
   spec_no_outputs: 'No outputs collected',
   spec_select_node: 'Select a node...',
@@ -67,7 +70,11 @@ const EN: Dict = {
   sidebar_error: 'Error',
   sidebar_locked: 'Locked',
   sidebar_muted: 'Muted',
+  sidebar_bypass_cache: 'Bypass cache',
   sidebar_type: 'Type',
+  sidebar_usage: 'Usage',
+  usage_in: 'in',
+  usage_out: 'out',
   sidebar_name: 'Name',
   sidebar_color: 'Color',
   sidebar_name_click: 'click to edit',
@@ -87,14 +94,86 @@ const EN: Dict = {
   sidebar_copy_title: 'Copy to clipboard',
   sidebar_copied_title: 'Copied!',
   sidebar_merged_files: 'Merged File Ranges',
+  search_progress_title: 'Search Log',
+  search_progress_waiting: 'Waiting for the first turn...',
+  search_progress_turn: 'Turn',
+  search_progress_chars: 'chars sent',
+  search_progress_invalid_paths: 'Invalid paths, asked the model to fix them',
+  search_progress_corrected_paths: 'Paths corrected to existing files',
+  search_progress_rejected_ranges: 'Line ranges outside their files',
+  search_progress_clamped_ranges: 'Line ranges clamped to their files',
+
+  search_history_title: 'Search History',
+  search_history_desc: 'Past code search runs, replayed turn by turn',
+  search_history_loading: 'Loading...',
+  search_history_empty: 'No code search runs logged yet',
+  search_history_ok: 'OK',
+  search_history_failed: 'Failed',
+  search_history_cancelled: 'Cancelled',
+  search_history_cached: 'Cached',
+  search_history_retries: 'Path retries',
+  search_history_files: 'Files found',
+  search_history_prompt: 'Prompt',
+  search_history_tool_call: 'Tool call',
+  search_history_back: 'Back',
+  search_history_recreate: 'Create Code Search node',
 
   field_repo_path: 'Repository Path',
   field_query: 'Query',
   field_debug_messages: 'Debug Messages',
+  field_search_provider: 'Search Provider',
+  search_provider_default: 'Default (active provider)',
+  field_search_model: 'Search Model',
+  search_model_default: "Provider's default model",
+  field_search_budget: 'Search Budget',
+  budget_preset_quick: 'Quick (3 turns)',
+  budget_preset_normal: 'Normal (12 turns)',
+  budget_preset_deep: 'Deep (24 turns)',
+  budget_preset_custom: 'Custom',
+  budget_max_turns: 'Max Turns',
+  budget_path_retries: 'Path Retries',
+  budget_tool_output_chars: 'Tool Output Chars',
+  budget_view_file_lines: 'File View Lines',
+  budget_call_timeout: 'Call Timeout (s)',
+  budget_hint: 'WarpGrep uses at most 4 turns and only the turn and timeout limits; local search ignores the budget.',
   field_full_file_mode: 'Full File Mode',
+  field_expand_to_syntax: 'Expand to Functions/Classes',
+  expand_to_syntax_hint:
+    'Widens each range to the function, method, class or declaration it cuts through and adds the imports. TS/JS files only; other files keep their ranges.',
   field_instruction_text: 'Instruction Text',
   field_system_prompt: 'System Prompt',
   field_model: 'Model',
+  field_generation_params: 'Generation Parameters',
+  param_temperature: 'Temperature',
+  param_temperature_hint: 'Temperature ranges from 0 to 2 (0 to 1 for Anthropic providers).',
+  param_temperature_hint_anthropic: 'Temperature ranges from 0 to 1 for this Anthropic provider.',
+  param_top_p: 'Top P',
+  param_max_tokens: 'Max Tokens',
+  param_reasoning_effort: 'Reasoning Effort',
+  param_effort_low: 'Low',
+  param_effort_medium: 'Medium',
+  param_effort_high: 'High',
+  param_stop: 'Stop Sequences',
+  param_stop_placeholder: 'One per line (max 4)',
+  param_default: 'Default',
+  field_json_schema: 'JSON Schema (structured output)',
+  placeholder_json_schema: 'Optional. A JSON Schema object; the reply is validated and parsed as JSON.',
+  field_json_max_attempts: 'Max Attempts (incl. repair retries)',
+  field_budget_strategy: 'When the Prompt Is Too Large',
+  budget_strategy_block: 'Block the run',
+  budget_strategy_drop_files: 'Drop lowest-priority files',
+  budget_strategy_hint: 'Checked before sending against the model context window set in Settings. Dropping removes context-converter files that fewer searches reported, listed later, and larger first.',
+  budget_title: 'Prompt Budget (last check)',
+  budget_no_window: 'The model has no context window configured in Settings, so the prompt was not checked.',
+  budget_tokens: 'tokens incl. reply reserve',
+  budget_over: 'too large',
+  budget_system_prompt: 'System prompt',
+  budget_context: 'Context',
+  budget_query: 'Query',
+  budget_output_reserve: 'Reserved for reply',
+  budget_dropped_files: 'Dropped files',
+  json_schema_invalid: 'Invalid JSON',
+  json_schema_not_object: 'JSON Schema must be an object',
 
   placeholder_repo_path: 'e.g., examples/example-repo',
   placeholder_search_query: 'Enter your search query...',
@@ -120,10 +199,27 @@ const EN: Dict = {
 
   settings_tab_llm: 'LLM Providers',
   settings_tab_codesearch: 'Code Search',
+  settings_tab_cache: 'Cache',
+  cache_ttl_hours: 'Cache TTL (hours)',
+  cache_ttl_hint: 'Identical LLM / conductor calls and code searches on an unchanged repo reuse the stored response. 0 disables the cache.',
+  cache_entries: 'Cached responses',
+  cache_clear: 'Clear Cache',
+  cache_empty: 'No cached responses.',
+  cache_load_failed: 'Failed to load cache',
 
   providers: 'Providers',
   add: '+ Add',
   provider_name: 'Provider Name',
+  provider_kind: 'API Format',
+  provider_kind_openai: 'OpenAI-compatible (chat/completions)',
+  provider_kind_anthropic: 'Anthropic Messages',
+  provider_kind_mock: 'Mock (offline, no network)',
+  mock_rules: 'Mock Rules',
+  mock_add_rule: '+ Add Rule',
+  mock_rules_hint: 'The first pattern (case-insensitive regex) matching the user prompt replies with that file, relative to the server data directory. Without a match the prompt is echoed back.',
+  mock_rule_pattern: 'Regex pattern',
+  mock_rule_file: 'Response file',
+  mock_no_rules: 'No rules: every call echoes its prompt.',
   endpoint: 'Endpoint URL',
   api_key: 'API Key',
   models: 'Models',
@@ -131,7 +227,23 @@ const EN: Dict = {
   new_model: 'New Model',
   model_id: 'Model ID',
   display_name: 'Display Name',
+  model_price_input: 'In $/M',
+  model_price_output: 'Out $/M',
+  model_price_input_title: 'Input price in USD per million tokens (optional, used for cost tracking)',
+  model_price_output_title: 'Output price in USD per million tokens (optional, used for cost tracking)',
   no_models_configured: 'No models configured',
+  models_fetch: 'Fetch models',
+  models_fetching: 'Fetching...',
+  models_checked_at: 'Model list checked',
+  models_never_checked: 'Model list never fetched from the provider',
+  models_filter_placeholder: 'Filter models...',
+  models_all_imported: 'Every listed model is already configured.',
+  models_import: '+ Add',
+  model_context_window: 'Context window',
+  model_context_window_title: 'Max prompt + reply tokens (optional, filled in by Fetch models; used by the LLM node prompt budget check)',
+  model_unlisted: 'not listed',
+  model_unlisted_title: 'The provider did not list this model id at the last fetch',
+  model_unlisted_warning: 'This model is no longer listed by its provider',
   remove_provider: 'Remove Provider',
   no_providers_configured: 'No LLM providers configured.',
   new_provider: 'New Provider',
@@ -140,8 +252,42 @@ const EN: Dict = {
   active_provider: 'Active Provider',
   api_key_for_provider: 'API Key',
   enter_api_key_placeholder: 'Enter API key...',
+  api_key_saved_placeholder: 'Key saved (encrypted on the server). Type to replace it.',
+  api_key_remove: 'Remove saved key',
+  max_attempts: 'Max Attempts',
+  max_attempts_hint: 'Rate limits (429), server errors (5xx) and timeouts are retried with exponential backoff.',
+  request_timeout: 'Request Timeout (seconds)',
+  request_timeout_hint: 'An attempt that takes longer is aborted and retried. A streamed reply only has to start within it.',
+  auth_scheme: 'Auth Header',
+  auth_scheme_default_openai: 'Default (Authorization: Bearer)',
+  auth_scheme_default_anthropic: 'Default (x-api-key)',
+  auth_scheme_bearer: 'Authorization: Bearer <key>',
+  auth_scheme_api_key: 'api-key: <key> (Azure OpenAI)',
+  auth_scheme_x_api_key: 'x-api-key: <key>',
+  auth_scheme_none: 'None (key not sent)',
+  api_version: 'API Version',
+  api_version_hint: 'Sent as the api-version query parameter, as Azure OpenAI requires. Leave empty otherwise.',
+  url_template: 'Chat URL Template',
+  url_template_hint: 'Replaces the chat URL. Placeholders: {endpoint} (endpoint without the chat path), {model}, {apiVersion}. Model listing still uses {endpoint}/models.',
+  custom_headers: 'Custom Headers',
+  custom_headers_add: '+ Add Header',
+  custom_headers_hint: 'Sent with every request and replace built-in headers of the same name. Values are stored encrypted like API keys.',
+  custom_header_name: 'Header name',
+  custom_header_value: 'Value',
+  codesearch_mock_hint: 'The mock provider greps the repo for the words of the query. No API key or network needed.',
+  codesearch_default_model: 'Default Model',
+  codesearch_llm_hint:
+    'Runs the same agentic search loop as Relace (view files, grep, bash, report back) on an LLM model with tool calling. The model must belong to an OpenAI-compatible provider; its endpoint, key and Max Attempts are used. Code Search nodes can pick another model.',
+  codesearch_ignore_patterns: 'Ignore Patterns',
+  codesearch_ignore_patterns_hint:
+    'One .gitignore-style pattern per line. Skipped by the search agents\' view_directory and grep_search tools and by the repo browser, on top of each repo\'s .gitignore and .git/info/exclude.',
+  codesearch_allow_bash: 'Allow bash tool',
+  codesearch_allow_bash_hint:
+    'Commands run in the repo without network or server secrets, limited to read-only tools (ls, cat, grep, rg, find, git log, ...). Writes, substitutions and paths outside the repo are rejected.',
+  codesearch_local_hint:
+    'Local search runs ripgrep over the repo and ranks files by keyword relevance. Nothing is sent to an external API; requires rg on the server PATH.',
   codesearch_note:
-    'Currently only Relace is supported for code search. If no API key is provided here, the server will fall back to reading from the .apikey file.',
+    'Code search uses Relace, Morph WarpGrep, an agent loop on one of your LLM models, the fully local keyword search, or the offline mock provider for testing. Each Code Search node can override the active provider. If no Relace API key is provided here, the server will fall back to reading from the .apikey file.',
 
   cancel: 'Cancel',
   save_settings: 'Save',
@@ -246,6 +392,9 @@ const ZH: Dict = {
   spec_no_history: '暂无运行记录',
   spec_run_at: '运行时间',
   spec_duration: '耗时',
+  spec_cost: '成本',
+  spec_cost_last: '最近',
+  spec_cost_total: '累计',
   spec_outputs: '输出',
   spec_no_outputs: '未收集到输出',
   spec_select_node: '选择节点...',
@@ -257,7 +406,11 @@ const ZH: Dict = {
   sidebar_error: '错误',
   sidebar_locked: '锁定',
   sidebar_muted: '静音',
+  sidebar_bypass_cache: '跳过缓存',
   sidebar_type: '类型',
+  sidebar_usage: '用量',
+  usage_in: '输入',
+  usage_out: '输出',
   sidebar_name: '名称',
   sidebar_color: '颜色',
   sidebar_name_click: '点击编辑',
@@ -277,14 +430,85 @@ const ZH: Dict = {
   sidebar_copy_title: '复制到剪贴板',
   sidebar_copied_title: '已复制！',
   sidebar_merged_files: '合并后的文件范围',
+  search_progress_title: '搜索日志',
+  search_progress_waiting: '等待第一轮结果...',
+  search_progress_turn: '轮次',
+  search_progress_chars: '字符已发送',
+  search_progress_invalid_paths: '路径无效，已要求模型修正',
+  search_progress_corrected_paths: '已修正为实际存在的文件路径',
+  search_progress_rejected_ranges: '超出文件的行范围',
+  search_progress_clamped_ranges: '已截取到文件内的行范围',
+
+  search_history_title: '搜索历史',
+  search_history_desc: '过往代码搜索运行，可逐轮回放',
+  search_history_loading: '加载中...',
+  search_history_empty: '暂无代码搜索运行记录',
+  search_history_ok: '成功',
+  search_history_failed: '失败',
+  search_history_cancelled: '已取消',
+  search_history_cached: '缓存',
+  search_history_retries: '路径重试',
+  search_history_files: '找到的文件',
+  search_history_prompt: '提示词',
+  search_history_tool_call: '工具调用',
+  search_history_back: '返回',
+  search_history_recreate: '创建代码搜索节点',
 
   field_repo_path: '仓库路径',
   field_query: '查询',
   field_debug_messages: '调试消息',
+  field_search_provider: '搜索 Provider',
+  search_provider_default: '默认（当前启用的 Provider）',
+  field_search_model: '搜索模型',
+  search_model_default: 'Provider 的默认模型',
+  field_search_budget: '搜索预算',
+  budget_preset_quick: '快速（3 轮）',
+  budget_preset_normal: '标准（12 轮）',
+  budget_preset_deep: '深入（24 轮）',
+  budget_preset_custom: '自定义',
+  budget_max_turns: '最大轮数',
+  budget_path_retries: '路径重试次数',
+  budget_tool_output_chars: '工具输出字符数',
+  budget_view_file_lines: '文件查看行数',
+  budget_call_timeout: '调用超时（秒）',
+  budget_hint: 'WarpGrep 最多 4 轮，且只使用轮数和超时限制；本地搜索忽略预算。',
   field_full_file_mode: '整文件模式',
+  field_expand_to_syntax: '扩展到函数/类',
+  expand_to_syntax_hint: '把每个行范围扩展到它所截断的函数、方法、类或声明，并加入 import。仅支持 TS/JS 文件，其他文件保持原范围。',
   field_instruction_text: '指令文本',
   field_system_prompt: '系统提示',
   field_model: '模型',
+  field_generation_params: '生成参数',
+  param_temperature: 'Temperature',
+  param_temperature_hint: 'Temperature 取值范围为 0 到 2（Anthropic provider 为 0 到 1）。',
+  param_temperature_hint_anthropic: '该 Anthropic provider 的 Temperature 取值范围为 0 到 1。',
+  param_top_p: 'Top P',
+  param_max_tokens: '最大 Token 数',
+  param_reasoning_effort: '推理强度',
+  param_effort_low: '低',
+  param_effort_medium: '中',
+  param_effort_high: '高',
+  param_stop: '停止序列',
+  param_stop_placeholder: '每行一个（最多 4 个）',
+  param_default: '默认',
+  field_json_schema: 'JSON Schema（结构化输出）',
+  placeholder_json_schema: '可选。填写 JSON Schema 对象后，回复会按 Schema 校验并解析为 JSON。',
+  field_json_max_attempts: '最大尝试次数（含修复重试）',
+  field_budget_strategy: '提示词超长时',
+  budget_strategy_block: '阻止运行',
+  budget_strategy_drop_files: '丢弃优先级最低的文件',
+  budget_strategy_hint: '发送前按设置中模型的上下文窗口检查。丢弃时优先移除被更少搜索命中、排位更靠后、体积更大的 context-converter 文件。',
+  budget_title: '提示词预算（上次检查）',
+  budget_no_window: '该模型未在设置中配置上下文窗口，因此未检查提示词大小。',
+  budget_tokens: 'token（含回复预留）',
+  budget_over: '超出上限',
+  budget_system_prompt: '系统提示词',
+  budget_context: '上下文',
+  budget_query: '查询',
+  budget_output_reserve: '回复预留',
+  budget_dropped_files: '已丢弃的文件',
+  json_schema_invalid: 'JSON 无效',
+  json_schema_not_object: 'JSON Schema 必须是对象',
 
   placeholder_repo_path: '例如：examples/example-repo',
   placeholder_search_query: '输入你的搜索问题...',
@@ -310,10 +534,27 @@ const ZH: Dict = {
 
   settings_tab_llm: 'LLM 提供方',
   settings_tab_codesearch: '代码搜索',
+  settings_tab_cache: '缓存',
+  cache_ttl_hours: '缓存有效期（小时）',
+  cache_ttl_hint: '相同的 LLM / conductor 调用，以及对未改动仓库的相同代码搜索，会复用已保存的响应。设为 0 关闭缓存。',
+  cache_entries: '已缓存的响应',
+  cache_clear: '清空缓存',
+  cache_empty: '暂无缓存。',
+  cache_load_failed: '加载缓存失败',
 
   providers: '提供方',
   add: '+ 添加',
   provider_name: '提供方名称',
+  provider_kind: '接口格式',
+  provider_kind_openai: 'OpenAI 兼容（chat/completions）',
+  provider_kind_anthropic: 'Anthropic Messages',
+  provider_kind_mock: 'Mock（离线，不联网）',
+  mock_rules: 'Mock 规则',
+  mock_add_rule: '+ 添加规则',
+  mock_rules_hint: '第一个匹配用户提示词的正则（不区分大小写）会返回对应文件的内容，路径相对于服务端数据目录。都不匹配时原样回显提示词。',
+  mock_rule_pattern: '正则表达式',
+  mock_rule_file: '响应文件',
+  mock_no_rules: '暂无规则：每次调用都会回显提示词。',
   endpoint: 'Endpoint URL',
   api_key: 'API Key',
   models: '模型',
@@ -321,7 +562,23 @@ const ZH: Dict = {
   new_model: '新模型',
   model_id: '模型 ID',
   display_name: '展示名称',
+  model_price_input: '输入 $/M',
+  model_price_output: '输出 $/M',
+  model_price_input_title: '输入价格，单位为美元/百万 token（可选，用于成本统计）',
+  model_price_output_title: '输出价格，单位为美元/百万 token（可选，用于成本统计）',
   no_models_configured: '暂无模型配置',
+  models_fetch: '获取模型列表',
+  models_fetching: '获取中...',
+  models_checked_at: '模型列表检查于',
+  models_never_checked: '尚未从 provider 获取模型列表',
+  models_filter_placeholder: '筛选模型...',
+  models_all_imported: '列出的模型都已配置。',
+  models_import: '+ 添加',
+  model_context_window: '上下文窗口',
+  model_context_window_title: '提示词 + 回复的最大 token 数（可选，获取模型列表时自动填写；用于 LLM 节点的提示词预算检查）',
+  model_unlisted: '未列出',
+  model_unlisted_title: '上次获取时 provider 未列出该模型 id',
+  model_unlisted_warning: '该模型已不在 provider 的模型列表中',
   remove_provider: '移除提供方',
   no_providers_configured: '暂无 LLM 提供方配置。',
   new_provider: '新提供方',
@@ -330,8 +587,41 @@ const ZH: Dict = {
   active_provider: '当前提供方',
   api_key_for_provider: 'API Key',
   enter_api_key_placeholder: '输入 API Key...',
+  api_key_saved_placeholder: '已保存（在服务端加密存储），输入新值即可替换',
+  api_key_remove: '删除已保存的 Key',
+  max_attempts: '最大尝试次数',
+  max_attempts_hint: '遇到限流（429）、服务端错误（5xx）和超时会按指数退避自动重试。',
+  request_timeout: '请求超时（秒）',
+  request_timeout_hint: '单次尝试超过该时长会被中止并重试。流式回复只需在该时长内开始返回。',
+  auth_scheme: '认证请求头',
+  auth_scheme_default_openai: '默认（Authorization: Bearer）',
+  auth_scheme_default_anthropic: '默认（x-api-key）',
+  auth_scheme_bearer: 'Authorization: Bearer <key>',
+  auth_scheme_api_key: 'api-key: <key>（Azure OpenAI）',
+  auth_scheme_x_api_key: 'x-api-key: <key>',
+  auth_scheme_none: '无（不发送密钥）',
+  api_version: 'API 版本',
+  api_version_hint: '作为 api-version 查询参数发送（Azure OpenAI 必填），其他服务留空即可。',
+  url_template: '对话 URL 模板',
+  url_template_hint: '替换对话请求的 URL。占位符：{endpoint}（去掉对话路径的端点）、{model}、{apiVersion}。模型列表仍使用 {endpoint}/models。',
+  custom_headers: '自定义请求头',
+  custom_headers_add: '+ 添加请求头',
+  custom_headers_hint: '随每个请求发送，并覆盖同名的内置请求头。值与 API 密钥一样加密保存。',
+  custom_header_name: '请求头名称',
+  custom_header_value: '值',
+  codesearch_mock_hint: 'Mock provider 会用查询中的单词对仓库做 grep，不需要 API Key，也不联网。',
+  codesearch_default_model: '默认模型',
+  codesearch_llm_hint:
+    '在支持工具调用的 LLM 模型上运行与 Relace 相同的 agentic 搜索循环（查看文件、grep、bash、汇报结果）。模型必须属于 OpenAI 兼容的 provider，并使用该 provider 的 endpoint、Key 和最大尝试次数。Code Search 节点可以选用其他模型。',
+  codesearch_ignore_patterns: '忽略规则',
+  codesearch_ignore_patterns_hint:
+    '每行一条 .gitignore 格式的规则。在各仓库的 .gitignore 和 .git/info/exclude 之外，搜索 agent 的 view_directory、grep_search 工具以及仓库浏览器都会跳过匹配的路径。',
+  codesearch_allow_bash: '允许 bash 工具',
+  codesearch_allow_bash_hint:
+    '命令在仓库内运行，无网络、不带服务端密钥，只允许只读工具（ls、cat、grep、rg、find、git log 等）。写入、命令替换和仓库外路径会被拒绝。',
+  codesearch_local_hint: '本地搜索会用 ripgrep 搜索仓库，并按关键词相关度对文件排序。不会向任何外部 API 发送内容；服务端 PATH 中需要有 rg。',
   codesearch_note:
-    '目前代码搜索仅支持 Relace。如果这里没有填写 API Key，后端会回退到读取 .apikey 文件。',
+    '代码搜索使用 Relace、Morph WarpGrep、基于已配置 LLM 模型的 agent 循环、完全本地的关键词搜索，测试时也可选用离线的 mock provider。每个 Code Search 节点都可以单独指定 Provider。如果这里没有填写 Relace API Key，后端会回退到读取 .apikey 文件。',
 
   cancel: '取消',
   save_settings: '保存',
@@ -101,6 +101,8 @@ function NodeShell(props: {
   selected: boolean
   locked: boolean
   muted: boolean
+  // Output came from the server response cache
+  cached?: boolean
   width?: number
   height?: number
 }) {
@@ -179,38 +181,57 @@ function NodeShell(props: {
           </span>
         </div>
 
-        <span
-          title={`status: ${props.status}`}
-          style={{
-            display: 'inline-flex',
-            alignItems: 'center',
-            gap: 6,
-            padding: '2px 8px',
-            borderRadius: 999,
-            background: pill.bg,
-            border: `1px solid ${pill.border}`,
-            color: pill.text,
-            fontSize: 11,
-            fontWeight: 600,
-            userSelect: 'none',
-            flex: 'none',
-          }}
-        >
-          {pill.glyph ? (
-            <span style={{ fontSize: 12, lineHeight: 1 }}>{pill.glyph}</span>
-          ) : (
+        <span style={{ display: 'inline-flex', alignItems: 'center', gap: 4, flex: 'none' }}>
+          {props.cached && props.status === 'success' && (
             <span
-              aria-hidden="true"
+              title="served from response cache"
               style={{
-                width: 7,
-                height: 7,
-                borderRadius: 99,
-                background: pill.dot,
-                display: 'inline-block',
+                padding: '2px 6px',
+                borderRadius: 999,
+                background: '#eef4ff',
+                border: '1px solid #9bb8f0',
+                color: '#2f5fb3',
+                fontSize: 10,
+                fontWeight: 600,
+                userSelect: 'none',
               }}
-            />
+            >
+              cached
+            </span>
           )}
-          <span style={{ textTransform: 'lowercase' }}>{props.status}</span>
+          <span
+            title={`status: ${props.status}`}
+            style={{
+              display: 'inline-flex',
+              alignItems: 'center',
+              gap: 6,
+              padding: '2px 8px',
+              borderRadius: 999,
+              background: pill.bg,
+              border: `1px solid ${pill.border}`,
+              color: pill.text,
+              fontSize: 11,
+              fontWeight: 600,
+              userSelect: 'none',
+              flex: 'none',
+            }}
+          >
+            {pill.glyph ? (
+              <span style={{ fontSize: 12, lineHeight: 1 }}>{pill.glyph}</span>
+            ) : (
+              <span
+                aria-hidden="true"
+                style={{
+                  width: 7,
+                  height: 7,
+                  borderRadius: 99,
+                  background: pill.dot,
+                  display: 'inline-block',
+                }}
+              />
+            )}
+            <span style={{ textTransform: 'lowercase' }}>{props.status}</span>
+          </span>
         </span>
       </div>
 
@@ -221,9 +242,12 @@ function NodeShell(props: {
 
 export function CodeSearchNodeView({ data, selected }: NodeProps<CodeSearchNode>) {
   const hasQuery = !!data.query?.trim()
-  const subtitle = hasQuery
+  const repoLine = hasQuery
     ? `repo: ${repoLabel(data.repoPath)}`
     : `repo: ${repoLabel(data.repoPath)} • (accepts input)`
+  // While searching, the second preview line shows the latest finished turn
+  const lastTurn = data.status === 'running' ? data.progress?.at(-1) : undefined
+  const subtitle = lastTurn ? `${repoLine}\nturn ${lastTurn.turn}: ${lastTurn.steps.join(', ')}` : repoLine
   return (
     <NodeShell
       title={data.title}
@@ -234,6 +258,7 @@ export function CodeSearchNodeView({ data, selected }: NodeProps<CodeSearchNode>
       selected={selected}
       locked={!!data.locked}
       muted={!!data.muted}
+      cached={!!data.cached}
       width={data.width}
       height={data.height}
     />
@@ -277,6 +302,7 @@ export function LLMNodeView({ data, selected }: NodeProps<LLMNode>) {
       selected={selected}
       locked={!!data.locked}
       muted={!!data.muted}
+      cached={!!data.cached}
       width={data.width}
       height={data.height}
     />
@@ -322,6 +348,7 @@ export function CodeSearchConductorNodeView({
       selected={selected}
       locked={!!data.locked}
       muted={!!data.muted}
+      cached={!!data.cached}
       width={data.width}
       height={data.height}
     />
@@ -4,20 +4,33 @@ import type {
   AppData as AppDataBase,
   BaseNodeData,
   Canvas as CanvasBase,
+  CodeSearchBudget,
+  CodeSearchBudgetPreset,
   CodeSearchConductorData,
   CodeSearchData,
   CodeSearchOutput,
+  CodeSearchProgressTurn,
   ConductorOutput,
   ContextSource,
   ContextConverterData,
   InstructionData,
   LLMData,
+  LLMGenerationParams,
   ManualImportData,
   ManualImportItem,
   LLMModel,
+  LLMPricing,
+  LLMAuthScheme,
+  LLMHttpHeader,
   LLMProvider,
+  LLMProviderKind,
+  LLMUsage,
   CodeSearchProvider,
+  CodeSearchProviderKind,
+  MockLLMRule,
   NodeStatus,
+  PromptBudget,
+  PromptBudgetStrategy,
   Spec,
   SpecOutputMapping,
   SpecRunResult,
@@ -30,20 +43,33 @@ export type {
   APISettings,
   AppDataBase,
   BaseNodeData,
+  CodeSearchBudget,
+  CodeSearchBudgetPreset,
   CodeSearchConductorData,
   CodeSearchData,
   CodeSearchOutput,
+  CodeSearchProgressTurn,
   ConductorOutput,
   ContextSource,
   ContextConverterData,
   InstructionData,
   LLMData,
+  LLMGenerationParams,
   ManualImportData,
   ManualImportItem,
   LLMModel,
+  LLMPricing,
+  LLMAuthScheme,
+  LLMHttpHeader,
   LLMProvider,
+  LLMProviderKind,
+  LLMUsage,
   CodeSearchProvider,
+  CodeSearchProviderKind,
+  MockLLMRule,
   NodeStatus,
+  PromptBudget,
+  PromptBudgetStrategy,
   Spec,
   SpecOutputMapping,
   SpecRunResult,
@@ -53,6 +53,27 @@ export function resetNodeRuntime(node: AppNode): AppNode {
       },
     } as AppNode
   }
+  if (node.type === 'llm') {
+    return {
+      ...node,
+      data: {
+        ...node.data,
+        status: 'idle',
+        error: null,
+        output: null,
+        structuredOutput: undefined,
+        usage: null,
+        cached: undefined,
+        budget: undefined,
+      },
+    }
+  }
+  if (node.type === 'code-search-conductor') {
+    return { ...node, data: { ...node.data, status: 'idle', error: null, output: null, usage: null, cached: undefined } }
+  }
+  if (node.type === 'code-search') {
+    return { ...node, data: { ...node.data, status: 'idle', error: null, output: null, cached: undefined } }
+  }
   return { ...node, data: { ...node.data, status: 'idle', error: null, output: null } } as AppNode
 }
 
@@ -73,9 +94,34 @@ export function resetNodeRuntimeForPaste(node: AppNode): AppNode {
       },
     } as AppNode
   }
+  if (node.type === 'llm' || node.type === 'code-search-conductor') {
+    return {
+      ...node,
+      data: {
+        ...node.data,
+        status: 'idle' as const,
+        error: null,
+        locked: false,
+        muted: false,
+        output: null,
+        structuredOutput: undefined,
+        usage: null,
+        cached: undefined,
+        budget: undefined,
+      },
+    } as AppNode
+  }
   return {
     ...node,
-    data: { ...node.data, status: 'idle' as const, error: null, locked: false, muted: false, output: null },
+    data: {
+      ...node.data,
+      status: 'idle' as const,
+      error: null,
+      locked: false,
+      muted: false,
+      output: null,
+      ...(node.type === 'code-search' ? { cached: undefined } : {}),
+    },
   } as AppNode
 }
 
@@ -1,12 +1,15 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// The API server binds 127.0.0.1 by default; `localhost` may resolve to ::1 first
+const apiTarget = process.env.SPEXFLOW_API_URL ?? `http://127.0.0.1:${process.env.SPEXFLOW_PORT ?? 3001}`
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
   server: {
     proxy: {
-      '/api': 'http://localhost:3001',
+      '/api': apiTarget,
     },
   },
 })